@@ -77,5 +77,9 @@ export default defineConfig({
     url: 'http://localhost:5173',
     reuseExistingServer: !process.env.CI,
     timeout: 120000,
+    /* Serve the API from the in-browser mock so no backend is needed */
+    env: {
+      VITE_MOCK_API: 'true',
+    },
   },
 });
\ No newline at end of file
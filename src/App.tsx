@@ -4,7 +4,8 @@ import Profile from '@/pages/Profile';
 import Dashboard from '@/pages/Dashboard';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
-import { AuthCallback, ProtectedRoute } from '@/components/auth';
+import { AuthCallback, ProtectedRoute, ReloginModal } from '@/components/auth';
+import { NotificationCenter } from '@/components/common';
 import { validateConfig } from '@/utils/config';
 
 function App() {
@@ -77,6 +78,8 @@ function App() {
                 </ProtectedRoute>
               } />
             </Routes>
+            <ReloginModal />
+            <NotificationCenter />
           </div>
         </Router>
       </AuthProvider>
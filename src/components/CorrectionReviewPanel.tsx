@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useTextCorrectionStore, useParagraphs, useCorrectionDecisions } from '@/stores/textCorrectionStore';
+import { getCorrectionKey } from '@/utils/textProcessor';
+import { CORRECTION_TYPE_LABELS } from '@/utils/correctionOptions';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { CorrectionDecision, TextCorrection } from '@/types';
+
+interface CorrectionReviewPanelProps {
+  className?: string;
+}
+
+// Characters of surrounding text shown on each side of a correction
+const CONTEXT_LENGTH = 12;
+
+export const CorrectionReviewPanel: React.FC<CorrectionReviewPanelProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const paragraphs = useParagraphs();
+  const decisions = useCorrectionDecisions();
+  const { setCorrectionDecision, setAllCorrectionDecisions } = useTextCorrectionStore();
+
+  const items = useMemo(() => {
+    return paragraphs.flatMap(paragraph =>
+      paragraph.corrections.map((correction, index) => {
+        const { start, end } = correction.position;
+        return {
+          key: getCorrectionKey(paragraph.id, index),
+          paragraphId: paragraph.id,
+          index,
+          correction,
+          before: paragraph.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+          after: paragraph.text.slice(end, end + CONTEXT_LENGTH),
+        };
+      })
+    );
+  }, [paragraphs]);
+
+  const counts = useMemo(() => {
+    return items.reduce(
+      (acc, item) => {
+        acc[decisions[item.key] ?? 'pending'] += 1;
+        return acc;
+      },
+      { pending: 0, accepted: 0, rejected: 0 } as Record<CorrectionDecision, number>
+    );
+  }, [items, decisions]);
+
+  const getTypeBadgeColors = (type: TextCorrection['type']) => {
+    const light = {
+      spelling: 'bg-red-50 text-red-700 border border-red-200',
+      grammar: 'bg-blue-50 text-blue-700 border border-blue-200',
+      punctuation: 'bg-yellow-50 text-yellow-800 border border-yellow-200',
+      style: 'bg-purple-50 text-purple-700 border border-purple-200',
+      conversion: 'bg-teal-50 text-teal-700 border border-teal-200',
+    };
+    const dark = {
+      spelling: 'bg-red-900/30 text-red-300',
+      grammar: 'bg-blue-900/30 text-blue-300',
+      punctuation: 'bg-yellow-900/30 text-yellow-300',
+      style: 'bg-purple-900/30 text-purple-300',
+      conversion: 'bg-teal-900/30 text-teal-300',
+    };
+    return theme === 'light' ? light[type] : dark[type];
+  };
+
+  const getDecisionButtonClass = (active: boolean, kind: 'accept' | 'reject') => {
+    const base = 'inline-flex items-center px-2.5 py-1 rounded-lg text-xs transition-colors whitespace-nowrap';
+    if (active) {
+      return `${base} ${kind === 'accept' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`;
+    }
+    return `${base} ${
+      theme === 'light'
+        ? 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+        : 'border border-gray-600 bg-white/10 text-gray-200 hover:bg-white/20'
+    }`;
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className={`text-sm ${theme === 'light' ? 'text-gray-600' : 'text-gray-400'} ${className}`}>
+        沒有需要審閱的修正項目
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`${
+        theme === 'light'
+          ? 'bg-white border border-gray-200 rounded-lg p-4 shadow-sm'
+          : 'bg-gray-900/20 backdrop-blur-sm border border-gray-700/50 rounded-lg p-4'
+      } ${className}`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h4 className={`text-sm font-medium ${theme === 'light' ? 'text-gray-900' : 'text-gray-300'}`}>
+          逐項審閱（已接受 {counts.accepted}／已拒絕 {counts.rejected}／待決定 {counts.pending}）
+        </h4>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setAllCorrectionDecisions('accepted')}
+            className={getDecisionButtonClass(false, 'accept')}
+          >
+            全部接受
+          </button>
+          <button
+            onClick={() => setAllCorrectionDecisions('rejected')}
+            className={getDecisionButtonClass(false, 'reject')}
+          >
+            全部拒絕
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2 text-left">
+        {items.map(item => {
+          const decision = decisions[item.key] ?? 'pending';
+          return (
+            <motion.li
+              key={item.key}
+              layout
+              className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${
+                theme === 'light' ? 'bg-gray-50' : 'bg-white/5'
+              } ${decision === 'rejected' ? 'opacity-60' : ''}`}
+              data-decision={decision}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getTypeBadgeColors(item.correction.type)}`}>
+                  {CORRECTION_TYPE_LABELS[item.correction.type]}
+                </span>
+                <span className={`text-sm truncate ${theme === 'light' ? 'text-gray-700' : 'text-gray-300'}`}>
+                  {item.before}
+                  <span className="text-diff-removed line-through text-red-600">{item.correction.original}</span>
+                  <span className="text-diff-added text-green-600 font-medium">{item.correction.corrected}</span>
+                  {item.after}
+                </span>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => setCorrectionDecision(item.paragraphId, item.index, decision === 'accepted' ? 'pending' : 'accepted')}
+                  className={getDecisionButtonClass(decision === 'accepted', 'accept')}
+                  title="接受此修正"
+                >
+                  接受
+                </button>
+                <button
+                  onClick={() => setCorrectionDecision(item.paragraphId, item.index, decision === 'rejected' ? 'pending' : 'rejected')}
+                  className={getDecisionButtonClass(decision === 'rejected', 'reject')}
+                  title="拒絕此修正"
+                >
+                  拒絕
+                </button>
+              </div>
+            </motion.li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CorrectionReviewPanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { useTextCorrectionStore, useCorrectionOptions, useIsProcessing } from '@/stores/textCorrectionStore';
+import { CORRECTION_LEVEL_LABELS, LANGUAGE_LABELS, PROCESSING_MODE_LABELS } from '@/utils/correctionOptions';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { CorrectionLanguage, CorrectionLevel, ProcessingMode } from '@/types';
+
+interface CorrectionSettingsPanelProps {
+  className?: string;
+}
+
+const LEVEL_DESCRIPTIONS: Record<CorrectionLevel, string> = {
+  basic: '僅修正錯字與標點',
+  standard: '錯字、標點與文法',
+  advanced: '另含用詞與風格建議',
+};
+
+export const CorrectionSettingsPanel: React.FC<CorrectionSettingsPanelProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const options = useCorrectionOptions();
+  const isProcessing = useIsProcessing();
+  const { setCorrectionOptions } = useTextCorrectionStore();
+  const isConversion = options.mode === 'conversion';
+
+  // Conversion only targets Chinese variants
+  const languageEntries = Object.entries(LANGUAGE_LABELS).filter(([value]) => !isConversion || value !== 'en');
+
+  const handleModeChange = (mode: ProcessingMode) => {
+    setCorrectionOptions(
+      mode === 'conversion' && options.language === 'en' ? { mode, language: 'zh-TW' } : { mode }
+    );
+  };
+
+  const labelClass = `text-sm font-medium ${theme === 'light' ? 'text-gray-700' : 'text-gray-300'}`;
+  const selectClass = `px-3 py-1.5 rounded-lg text-sm disabled:opacity-50 ${
+    theme === 'light'
+      ? 'border border-gray-300 bg-white text-gray-900'
+      : 'border border-gray-600 bg-gray-900 text-gray-200'
+  }`;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-6 gap-y-3 ${className}`}>
+      <label className="flex items-center gap-2">
+        <span className={labelClass}>處理模式</span>
+        <select
+          value={options.mode ?? 'correction'}
+          onChange={(e) => handleModeChange(e.target.value as ProcessingMode)}
+          disabled={isProcessing}
+          className={selectClass}
+        >
+          {Object.entries(PROCESSING_MODE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className={labelClass}>{isConversion ? '轉換目標' : '校正語言'}</span>
+        <select
+          value={options.language}
+          onChange={(e) => setCorrectionOptions({ language: e.target.value as CorrectionLanguage })}
+          disabled={isProcessing}
+          className={selectClass}
+        >
+          {languageEntries.map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      {!isConversion && (
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>校正等級</span>
+          <select
+            value={options.correctionLevel}
+            onChange={(e) => setCorrectionOptions({ correctionLevel: e.target.value as CorrectionLevel })}
+            disabled={isProcessing}
+            className={selectClass}
+          >
+            {Object.entries(CORRECTION_LEVEL_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <span className={`text-xs ${theme === 'light' ? 'text-gray-500' : 'text-gray-400'}`}>
+        {isConversion ? '轉換字形與地區用詞，每處變更皆可逐一審閱' : LEVEL_DESCRIPTIONS[options.correctionLevel]}
+      </span>
+    </div>
+  );
+};
+
+export default CorrectionSettingsPanel;
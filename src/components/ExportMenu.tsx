@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useParagraphs, useCorrectionDecisions, useReviewMode, useInputText, useTextCorrectionStore } from '@/stores/textCorrectionStore';
+import { EXPORT_FORMAT_LABELS, exportParagraphs } from '@/utils/export';
+import { exportUploadedFile } from '@/utils/fileImport';
+import { notify } from '@/stores/notificationStore';
+import type { ExportFormat } from '@/types';
+
+interface ExportMenuProps {
+  className?: string;
+}
+
+const EXPORT_FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ className = '' }) => {
+  const paragraphs = useParagraphs();
+  const decisions = useCorrectionDecisions();
+  const reviewMode = useReviewMode();
+  const inputText = useInputText();
+  const uploadedFile = useTextCorrectionStore(state => state.uploadedFile);
+
+  const [isOpen, setIsOpen] = useState(false);
+  // 'original' is the uploaded file's own format
+  const [exporting, setExporting] = useState<ExportFormat | 'original' | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(exportFormat);
+    try {
+      await exportParagraphs(exportFormat, paragraphs, {
+        title: inputText.trim().split('\n')[0].slice(0, 40),
+        decisions,
+        reviewMode,
+      });
+      console.log(`📤 Exported results as ${exportFormat}`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      notify('error', '匯出失敗，請稍後再試');
+    } finally {
+      setExporting(null);
+      setIsOpen(false);
+    }
+  };
+
+  const handleExportOriginal = async () => {
+    if (!uploadedFile) return;
+    setExporting('original');
+    try {
+      await exportUploadedFile(uploadedFile, paragraphs, { decisions, reviewMode });
+      console.log(`📤 Exported results as ${uploadedFile.format}`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      notify('error', '匯出失敗，請稍後再試');
+    } finally {
+      setExporting(null);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={paragraphs.length === 0}
+        className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm disabled:opacity-50"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+        <span>匯出</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.ul
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            role="menu"
+            className="absolute right-0 z-20 mt-2 w-44 rounded-lg border border-[#D0D7DE] bg-white py-1 shadow-lg text-left"
+          >
+            {uploadedFile && (
+              <li>
+                <button
+                  role="menuitem"
+                  onClick={handleExportOriginal}
+                  disabled={exporting !== null}
+                  className="w-full px-3 py-2 text-sm text-[#1F2328] hover:bg-[#F6F8FA] text-left disabled:opacity-50"
+                >
+                  {exporting === 'original' ? '匯出中...' : `原始格式（.${uploadedFile.name.split('.').pop()}）`}
+                </button>
+              </li>
+            )}
+            {EXPORT_FORMATS.map(exportFormat => (
+              <li key={exportFormat}>
+                <button
+                  role="menuitem"
+                  onClick={() => handleExport(exportFormat)}
+                  disabled={exporting !== null}
+                  className="w-full px-3 py-2 text-sm text-[#1F2328] hover:bg-[#F6F8FA] text-left disabled:opacity-50"
+                >
+                  {exporting === exportFormat ? '匯出中...' : EXPORT_FORMAT_LABELS[exportFormat]}
+                </button>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { useTextCorrectionStore } from '@/stores/textCorrectionStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import { ACCEPTED_FILE_TYPES, FILE_FORMAT_LABELS, parseUploadedFile } from '@/utils/fileImport';
+import { config } from '@/utils/config';
+
+interface FileUploadInputProps {
+  className?: string;
+}
+
+/**
+ * Drag-and-drop upload for .txt, .md, .docx, .odt, .srt and .vtt files, parsed in the browser
+ */
+export const FileUploadInput: React.FC<FileUploadInputProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const uploadedFile = useTextCorrectionStore(state => state.uploadedFile);
+  const inputText = useTextCorrectionStore(state => state.inputText);
+  const { setUploadedFile, clearError } = useTextCorrectionStore();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    setFileError(null);
+    clearError();
+    try {
+      const parsed = await parseUploadedFile(file);
+      setUploadedFile(parsed);
+    } catch (error) {
+      console.error('❌ Failed to parse uploaded file:', error);
+      setUploadedFile(null);
+      setFileError(error instanceof Error ? error.message : '檔案讀取失敗');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const isTooLong = inputText.length > config.maxTextLength;
+  const errorColor = theme === 'light' ? '#CF222E' : '#ff4757';
+  const mutedColor = theme === 'light' ? '#656D76' : 'var(--text-secondary)';
+
+  return (
+    <div className={className}>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => fileInputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className="w-full min-h-60 rounded-lg flex flex-col items-center justify-center gap-3 p-6 cursor-pointer transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-opacity-50"
+        style={theme === 'light' ? {
+          color: '#1F2328',
+          backgroundColor: isDragging ? '#F6F8FA' : '#FFFFFF',
+          border: `2px dashed ${isDragging ? '#0969DA' : '#D0D7DE'}`,
+        } : {
+          color: 'var(--text-primary)',
+          backgroundColor: isDragging ? 'rgba(0, 212, 255, 0.08)' : 'rgba(13, 17, 23, 0.8)',
+          border: `2px dashed ${isDragging ? 'var(--primary-color)' : 'rgba(107, 114, 126, 0.5)'}`,
+        }}
+      >
+        <svg className="w-10 h-10" viewBox="0 0 20 20" fill="currentColor" style={{ color: mutedColor }}>
+          <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+        </svg>
+        {isParsing ? (
+          <span className="text-base">讀取檔案中...</span>
+        ) : uploadedFile ? (
+          <div className="text-center">
+            <div className="text-base font-semibold">{uploadedFile.name}</div>
+            <div className="text-sm mt-1" style={{ color: mutedColor }}>
+              {FILE_FORMAT_LABELS[uploadedFile.format]} · {uploadedFile.blocks.length} 個段落 · {inputText.length.toLocaleString()} 字元
+            </div>
+            <div className="text-sm mt-2" style={{ color: mutedColor }}>點擊或拖曳其他檔案以更換</div>
+          </div>
+        ) : (
+          <div className="text-center">
+            <div className="text-base">拖曳檔案到這裡，或點擊選擇檔案</div>
+            <div className="text-sm mt-1" style={{ color: mutedColor }}>
+              支援 .txt、.md、.docx、.odt、.srt、.vtt，校正後可下載相同格式的檔案
+            </div>
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          onChange={handleChange}
+          className="hidden"
+        />
+      </div>
+      {uploadedFile && !isParsing && (
+        <div className="flex justify-end mt-2 px-3">
+          <button
+            onClick={() => setUploadedFile(null)}
+            className="text-sm underline"
+            style={{ color: mutedColor }}
+          >
+            移除檔案
+          </button>
+        </div>
+      )}
+      {(fileError || isTooLong) && (
+        <div className="text-sm mt-2 px-3" style={{ color: errorColor }}>
+          {fileError ?? `檔案文字超過 ${config.maxTextLength.toLocaleString()} 個字元，請分割後再上傳`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileUploadInput;
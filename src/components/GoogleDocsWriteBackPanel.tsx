@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { useTextCorrectionStore, useParagraphs, useCorrectionDecisions, useReviewMode, useGoogleDocsSource } from '@/stores/textCorrectionStore';
+import { buildGoogleDocsWriteBackPlan } from '@/utils/googleDocsWriteBack';
+import { CORRECTION_TYPE_LABELS } from '@/utils/correctionOptions';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getErrorMessage } from '@/services/apiErrors';
+import type { GoogleDocsApplyMode, GoogleDocsApplyResult } from '@/types';
+
+interface GoogleDocsWriteBackPanelProps {
+  className?: string;
+}
+
+const MODE_LABELS: Record<GoogleDocsApplyMode, string> = {
+  suggestion: '建議修改',
+  comment: '註解',
+};
+
+export const GoogleDocsWriteBackPanel: React.FC<GoogleDocsWriteBackPanelProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const paragraphs = useParagraphs();
+  const decisions = useCorrectionDecisions();
+  const reviewMode = useReviewMode();
+  const source = useGoogleDocsSource();
+  const { writeBackToGoogleDocs } = useTextCorrectionStore();
+
+  const [mode, setMode] = useState<GoogleDocsApplyMode>('suggestion');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<GoogleDocsApplyResult['data'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const plan = useMemo(() => {
+    return source ? buildGoogleDocsWriteBackPlan(paragraphs, source, decisions, reviewMode) : null;
+  }, [paragraphs, source, decisions, reviewMode]);
+
+  if (!source || !plan) return null;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await writeBackToGoogleDocs(mode);
+      setResult(response.data ?? null);
+    } catch (err) {
+      setError(getErrorMessage(err, '寫回 Google Docs 失敗'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const mutedText = theme === 'light' ? 'text-gray-600' : 'text-gray-400';
+
+  return (
+    <div
+      className={`${
+        theme === 'light'
+          ? 'bg-white border border-gray-200 rounded-lg p-4 shadow-sm'
+          : 'bg-gray-900/20 backdrop-blur-sm border border-gray-700/50 rounded-lg p-4'
+      } ${className}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className={`text-sm font-medium ${theme === 'light' ? 'text-gray-900' : 'text-gray-300'}`}>
+          寫回「{source.title}」（{plan.edits.length} 處變更）
+        </h4>
+        <div className="flex items-center gap-3">
+          {(Object.keys(MODE_LABELS) as GoogleDocsApplyMode[]).map(value => (
+            <label key={value} className={`flex items-center gap-1 text-sm ${mutedText}`}>
+              <input
+                type="radio"
+                name="google-docs-apply-mode"
+                checked={mode === value}
+                onChange={() => setMode(value)}
+              />
+              {MODE_LABELS[value]}
+            </label>
+          ))}
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || plan.edits.length === 0}
+            className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? '寫回中...' : '寫回 Google Docs'}
+          </button>
+        </div>
+      </div>
+
+      {plan.unmappedParagraphIds.length > 0 && (
+        <p className="mb-3 text-sm text-yellow-700">
+          ⚠ 有 {plan.unmappedParagraphIds.length} 個段落無法對應到原始文件，這些修正不會寫回
+        </p>
+      )}
+
+      {plan.edits.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>沒有需要寫回的修正</p>
+      ) : (
+        <ul className="space-y-1 text-left max-h-64 overflow-y-auto">
+          {plan.edits.map(edit => (
+            <li
+              key={`${edit.paragraphId}:${edit.startIndex}`}
+              className={`flex items-center gap-3 rounded-lg px-3 py-1.5 text-sm ${theme === 'light' ? 'bg-gray-50' : 'bg-white/5'}`}
+            >
+              <span className={`font-mono text-xs ${mutedText}`}>
+                {edit.paragraphId} [{edit.startIndex}–{edit.endIndex}]
+              </span>
+              <span className={`text-xs ${mutedText}`}>{CORRECTION_TYPE_LABELS[edit.type]}</span>
+              <span>
+                <span className="line-through text-red-600">{edit.original}</span>
+                {' → '}
+                <span className="text-green-600 font-medium">{edit.corrected}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {result && (
+        <p className="mt-3 text-sm text-green-700">
+          已送出 {result.applied} 處{MODE_LABELS[mode]}
+          {result.skipped.length > 0 && `，${result.skipped.length} 處因文件已變更而略過`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GoogleDocsWriteBackPanel;
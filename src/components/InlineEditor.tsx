@@ -0,0 +1,305 @@
+import React, { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/hooks/useAuth';
+import { useInlineCorrections } from '@/hooks/useInlineCorrections';
+import { CORRECTION_TYPE_LABELS } from '@/utils/correctionOptions';
+import type { TextCorrection } from '@/types';
+
+interface InlineEditorProps {
+  className?: string;
+}
+
+interface HoveredIssue {
+  lineIndex: number;
+  correction: TextCorrection;
+  // Position of the underlined text relative to the editor wrapper
+  top: number;
+  left: number;
+}
+
+// Delay before the suggestion card closes, so the pointer can move from the underline onto it
+const HIDE_DELAY = 200;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Read the editor as lines: every block is a line, and <br> breaks a line unless it only keeps an empty block open
+ */
+function getEditorLines(root: Node): string[] {
+  const lines: string[] = [];
+  let current: string | null = null;
+  const endLine = () => {
+    lines.push(current ?? '');
+    current = null;
+  };
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach((child, index) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        current = (current ?? '') + (child.textContent ?? '');
+        return;
+      }
+      if (!(child instanceof HTMLElement)) return;
+
+      if (child.tagName === 'BR') {
+        if (index === node.childNodes.length - 1 && node !== root) current ??= '';
+        else endLine();
+        return;
+      }
+
+      const isBlock = child.tagName === 'DIV' || child.tagName === 'P';
+      if (isBlock && current !== null) endLine();
+      const linesBefore = lines.length;
+      walk(child);
+      if (isBlock && (current !== null || lines.length === linesBefore)) endLine();
+    });
+  };
+
+  walk(root);
+  if (current !== null) endLine();
+  return lines;
+}
+
+/**
+ * Caret position as an offset into the editor text, or null when the caret is elsewhere
+ */
+function getCaretOffset(root: HTMLElement): number | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !root.contains(selection.anchorNode)) return null;
+
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(selection.anchorNode!, selection.anchorOffset);
+  return getEditorLines(range.cloneContents()).join('\n').length;
+}
+
+/**
+ * Put the caret back at a text offset after the editor was re-rendered (one block per line)
+ */
+function setCaretOffset(root: HTMLElement, offset: number): void {
+  let remaining = offset;
+  for (const line of Array.from(root.children)) {
+    const length = line.textContent?.length ?? 0;
+    if (remaining <= length) {
+      const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+      let node = walker.nextNode();
+      while (node && remaining > (node.textContent?.length ?? 0)) {
+        remaining -= node.textContent?.length ?? 0;
+        node = walker.nextNode();
+      }
+      const range = document.createRange();
+      if (node) range.setStart(node, remaining);
+      else range.setStart(line, 0);
+      range.collapse(true);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+      return;
+    }
+    remaining -= length + 1;
+  }
+}
+
+function renderLinesHtml(lines: string[], getLineCorrections: (line: string) => TextCorrection[]): string {
+  return lines.map((line, lineIndex) => {
+    if (!line) return '<div><br></div>';
+
+    let html = '';
+    let offset = 0;
+    getLineCorrections(line).forEach((correction, index) => {
+      const { start, end } = correction.position;
+      if (start < offset) return;
+      html += escapeHtml(line.slice(offset, start));
+      html += `<span class="inline-issue inline-issue-${correction.type}" data-line="${lineIndex}" data-issue="${index}">${escapeHtml(line.slice(start, end))}</span>`;
+      offset = end;
+    });
+    return `<div>${html}${escapeHtml(line.slice(offset))}</div>`;
+  }).join('');
+}
+
+/**
+ * Editor that underlines suggestions by type as you write; hovering one offers to accept or ignore it
+ */
+export const InlineEditor: React.FC<InlineEditorProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const editorRef = useRef<HTMLDivElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const isComposingRef = useRef(false);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [lines, setLines] = useState<string[]>(['']);
+  const [hovered, setHovered] = useState<HoveredIssue | null>(null);
+
+  const text = lines.join('\n');
+  const { getLineCorrections, acceptCorrection, ignoreCorrection, isChecking, error } = useInlineCorrections(
+    isAuthenticated ? text : ''
+  );
+  const suggestionCount = lines.reduce((sum, line) => sum + getLineCorrections(line).length, 0);
+
+  // Re-render the underlines whenever text or suggestions change, keeping the caret where it was
+  // Nothing is touched while an input method is composing, or the composition would break
+  useLayoutEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || isComposingRef.current) return;
+
+    const html = renderLinesHtml(lines, getLineCorrections);
+    if (editor.innerHTML === html) return;
+
+    const caret = document.activeElement === editor ? getCaretOffset(editor) : null;
+    editor.innerHTML = html;
+    if (caret !== null) setCaretOffset(editor, caret);
+  }, [lines, getLineCorrections]);
+
+  const readEditor = () => {
+    if (editorRef.current && !isComposingRef.current) {
+      setLines(getEditorLines(editorRef.current));
+    }
+  };
+
+  // Pasted text comes in as plain text, so no foreign markup ends up in the editor
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+  };
+
+  const cancelHide = () => {
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = null;
+  };
+
+  const scheduleHide = () => {
+    cancelHide();
+    hideTimerRef.current = setTimeout(() => setHovered(null), HIDE_DELAY);
+  };
+
+  const handleMouseOver = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-issue]');
+    if (!target || !wrapperRef.current) {
+      if (hovered) scheduleHide();
+      return;
+    }
+
+    const lineIndex = Number(target.dataset.line);
+    const correction = getLineCorrections(lines[lineIndex] ?? '')[Number(target.dataset.issue)];
+    if (!correction) return;
+
+    cancelHide();
+    const rect = target.getBoundingClientRect();
+    const wrapperRect = wrapperRef.current.getBoundingClientRect();
+    setHovered({ lineIndex, correction, top: rect.bottom - wrapperRect.top + 6, left: rect.left - wrapperRect.left });
+  };
+
+  const handleAccept = useCallback(() => {
+    if (!hovered) return;
+    const updated = acceptCorrection(lines[hovered.lineIndex], hovered.correction);
+    setLines(lines.map((line, index) => (index === hovered.lineIndex ? updated : line)));
+    setHovered(null);
+    console.log(`✅ Accepted ${hovered.correction.type} suggestion: ${hovered.correction.original} → ${hovered.correction.corrected}`);
+  }, [hovered, lines, acceptCorrection]);
+
+  const handleIgnore = useCallback(() => {
+    if (!hovered) return;
+    ignoreCorrection(lines[hovered.lineIndex], hovered.correction);
+    setHovered(null);
+  }, [hovered, lines, ignoreCorrection]);
+
+  const mutedColor = theme === 'light' ? '#656D76' : 'var(--text-secondary)';
+
+  return (
+    <div ref={wrapperRef} className={`relative w-full ${className}`}>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline="true"
+        aria-label="即時編輯"
+        data-placeholder="在此輸入或貼上文字，停止輸入後會自動檢查並標示建議..."
+        onInput={readEditor}
+        onCompositionStart={() => { isComposingRef.current = true; }}
+        onCompositionEnd={() => {
+          isComposingRef.current = false;
+          readEditor();
+        }}
+        onPaste={handlePaste}
+        onMouseOver={handleMouseOver}
+        onMouseLeave={scheduleHide}
+        className="inline-editor w-full min-h-60 rounded-lg text-base text-left leading-relaxed p-6 focus:outline-none focus:ring-2 focus:ring-opacity-50 whitespace-pre-wrap"
+        style={theme === 'light' ? {
+          color: '#1F2328',
+          backgroundColor: '#FFFFFF',
+          border: '1px solid #D0D7DE',
+          boxShadow: '0 1px 3px rgba(31, 35, 40, 0.12)',
+        } : {
+          color: 'var(--text-primary)',
+          backgroundColor: 'rgba(13, 17, 23, 0.8)',
+          border: '1px solid rgba(107, 114, 126, 0.5)',
+        }}
+      />
+
+      <div className="flex items-center justify-between text-sm mt-2 px-3" style={{ color: mutedColor }}>
+        <span>
+          {!isAuthenticated
+            ? '登入後即可即時檢查'
+            : isChecking
+              ? '檢查中...'
+              : suggestionCount > 0
+                ? `${suggestionCount} 個建議`
+                : text.trim() ? '沒有發現問題' : ''}
+        </span>
+        <span>字元數: {text.length.toLocaleString()}</span>
+      </div>
+      {error && (
+        <div className="text-sm mt-1 px-3" style={{ color: theme === 'light' ? '#CF222E' : '#ff4757' }}>
+          {error}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {hovered && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.12 }}
+            onMouseEnter={cancelHide}
+            onMouseLeave={scheduleHide}
+            role="dialog"
+            aria-label="校正建議"
+            className={`absolute z-30 w-64 rounded-lg p-3 text-left shadow-lg ${
+              theme === 'light' ? 'bg-white border border-[#D0D7DE] text-[#1F2328]' : 'bg-gray-900 border border-gray-700 text-gray-100'
+            }`}
+            style={{ top: hovered.top, left: Math.max(0, hovered.left) }}
+          >
+            <div className="text-xs font-medium mb-1" style={{ color: mutedColor }}>
+              {CORRECTION_TYPE_LABELS[hovered.correction.type]}
+            </div>
+            <div className="text-base mb-3">
+              <span className="line-through opacity-60 mr-2">{hovered.correction.original}</span>
+              <span className="font-semibold">{hovered.correction.corrected || '（刪除）'}</span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleAccept}
+                className="rounded-md bg-[#1F883D] hover:bg-[#1A7F37] text-white px-3 py-1 text-sm"
+              >
+                接受
+              </button>
+              <button
+                onClick={handleIgnore}
+                className="rounded-md border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-1 text-sm"
+              >
+                忽略
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default InlineEditor;
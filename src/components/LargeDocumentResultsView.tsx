@@ -0,0 +1,163 @@
+import React, { useCallback, useMemo } from 'react';
+import { createInlineDiff } from '@/utils/diffUtils';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import type { DocumentChunk, Paragraph } from '@/types';
+
+interface LargeDocumentResultsViewProps {
+  paragraphs: Paragraph[];
+  chunks: DocumentChunk[];
+  showDifferences?: boolean;
+  className?: string;
+}
+
+type Row =
+  | { kind: 'chunk'; chunk: DocumentChunk; index: number }
+  | { kind: 'paragraph'; paragraph: Paragraph };
+
+// Rough row heights used until a row has been rendered and measured
+const CHUNK_ROW_HEIGHT = 40;
+const PARAGRAPH_LINE_HEIGHT = 28;
+const CHARACTERS_PER_LINE = 40;
+
+const statusLabels: Partial<Record<Paragraph['status'], string>> = {
+  pending: '待處理',
+  processing: '處理中',
+  error: '處理失敗，顯示原文',
+};
+
+interface ParagraphRowProps {
+  paragraph: Paragraph;
+  showDifferences: boolean;
+  theme: string;
+}
+
+// Diffs are only computed for rows on screen; memo keeps scrolling from recomputing unchanged rows
+const ParagraphRow = React.memo<ParagraphRowProps>(({ paragraph, showDifferences, theme }) => {
+  const diffs = useMemo(
+    () => createInlineDiff(paragraph.text, paragraph.correctedText || paragraph.text),
+    [paragraph.text, paragraph.correctedText]
+  );
+
+  const getDiffClass = (type: 'insert' | 'delete' | 'equal') => {
+    if (type === 'equal') return 'text-diff-unchanged';
+    if (theme === 'light') {
+      return type === 'insert'
+        ? 'text-diff-added bg-green-50 text-green-800 border border-green-200 rounded px-1'
+        : 'text-diff-removed bg-red-50 text-red-800 line-through border border-red-200 rounded px-1';
+    }
+    return type === 'insert'
+      ? 'text-diff-added bg-green-900/30 text-green-400 rounded px-1'
+      : 'text-diff-removed bg-red-900/30 text-red-400 line-through rounded px-1';
+  };
+
+  const statusLabel = paragraph.skippedForQuota && paragraph.status === 'pending'
+    ? '配額不足，未處理'
+    : statusLabels[paragraph.status];
+
+  return (
+    <p className={`whitespace-pre-wrap ${paragraph.status === 'completed' ? '' : 'opacity-60'}`}>
+      {statusLabel && (
+        <span className={`mr-2 px-1.5 py-0.5 rounded text-xs ${
+          paragraph.status === 'error'
+            ? theme === 'light' ? 'bg-red-50 text-red-700' : 'bg-red-900/30 text-red-400'
+            : theme === 'light' ? 'bg-gray-100 text-gray-600' : 'bg-gray-800 text-gray-400'
+        }`}>
+          {statusLabel}
+        </span>
+      )}
+      {diffs.map((diff, index) => {
+        // Deleted text only shows up when differences are requested
+        if (diff.type === 'delete' && !showDifferences) return null;
+        return (
+          <span key={index} className={getDiffClass(diff.type)} data-type={diff.type}>
+            {diff.text}
+          </span>
+        );
+      })}
+    </p>
+  );
+});
+
+/**
+ * Results view for large documents: paragraphs grouped by chunk in a virtualized list
+ */
+export const LargeDocumentResultsView: React.FC<LargeDocumentResultsViewProps> = ({
+  paragraphs,
+  chunks,
+  showDifferences = false,
+  className = '',
+}) => {
+  const { theme } = useTheme();
+
+  // Each chunk starts with a marker row followed by its paragraphs
+  const rows = useMemo(() => {
+    const byChunk = new Map<string, Paragraph[]>();
+    paragraphs.forEach(paragraph => {
+      const key = paragraph.chunkId ?? '';
+      const group = byChunk.get(key);
+      if (group) group.push(paragraph);
+      else byChunk.set(key, [paragraph]);
+    });
+
+    return chunks.flatMap<Row>((chunk, index) => [
+      { kind: 'chunk', chunk, index },
+      ...(byChunk.get(chunk.id) ?? []).map(paragraph => ({ kind: 'paragraph' as const, paragraph })),
+    ]);
+  }, [paragraphs, chunks]);
+
+  const estimateSize = useCallback((index: number) => {
+    const row = rows[index];
+    if (row.kind === 'chunk') return CHUNK_ROW_HEIGHT;
+    return Math.max(1, Math.ceil(row.paragraph.text.length / CHARACTERS_PER_LINE)) * PARAGRAPH_LINE_HEIGHT + 12;
+  }, [rows]);
+
+  const { containerRef, onScroll, measureElement, indexes, paddingTop, paddingBottom } = useVirtualList({
+    count: rows.length,
+    estimateSize,
+  });
+
+  const completedCount = paragraphs.filter(p => p.status === 'completed').length;
+
+  return (
+    <div
+      className={`text-left ${
+        theme === 'light'
+          ? 'bg-white border border-gray-200 rounded-lg shadow-sm text-gray-800'
+          : 'bg-gray-900/20 backdrop-blur-sm border border-gray-700/50 rounded-lg text-gray-200'
+      } ${className}`}
+    >
+      <div className={`px-4 py-2 text-sm border-b ${
+        theme === 'light' ? 'border-gray-200 text-gray-600' : 'border-gray-700/50 text-gray-400'
+      }`}>
+        共 {chunks.length} 個章節、{paragraphs.length} 個段落，已完成 {completedCount} 個段落
+      </div>
+      <div ref={containerRef} onScroll={onScroll} className="max-h-[70vh] overflow-y-auto px-4 leading-relaxed">
+        <div style={{ paddingTop, paddingBottom }}>
+          {indexes.map(index => {
+            const row = rows[index];
+            return (
+              <div
+                key={row.kind === 'chunk' ? row.chunk.id : row.paragraph.id}
+                ref={measureElement}
+                data-index={index}
+                className="py-1.5"
+              >
+                {row.kind === 'chunk' ? (
+                  // The chunk's heading is its first paragraph, so the marker only names the part
+                  <div className={`pt-3 text-xs font-medium tracking-wide ${theme === 'light' ? 'text-gray-500' : 'text-gray-400'}`}>
+                    第 {row.index + 1} 部分 · {row.chunk.characterCount.toLocaleString()} 字元
+                  </div>
+                ) : (
+                  <ParagraphRow paragraph={row.paragraph} showDifferences={showDifferences} theme={theme} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LargeDocumentResultsView;
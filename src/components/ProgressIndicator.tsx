@@ -1,6 +1,7 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useIsProcessing, useProcessingProgress, useParagraphs, useCurrentParagraphIndex, useIsCompleted } from '@/stores/textCorrectionStore';
+import { useTextCorrectionStore, useIsProcessing, useProcessingProgress, useParagraphs, useIsCompleted, useLargeDocument } from '@/stores/textCorrectionStore';
+import type { Paragraph } from '@/types';
 
 interface ProgressIndicatorProps {
   className?: string;
@@ -47,9 +48,10 @@ const processingStages: ProcessingStage[] = [
 
 export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className = '' }) => {
   const isProcessing = useIsProcessing();
+  const { cancelProcessing } = useTextCorrectionStore();
   const progress = useProcessingProgress();
   const paragraphs = useParagraphs();
-  const currentParagraphIndex = useCurrentParagraphIndex();
+  const largeDocument = useLargeDocument();
   const isCompleted = useIsCompleted();
   
   const [currentStage, setCurrentStage] = useState<ProcessingStage>(processingStages[0]);
@@ -83,8 +85,24 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className
   // Calculate processing statistics
   const completedParagraphs = paragraphs.filter(p => p.status === 'completed').length;
   const errorParagraphs = paragraphs.filter(p => p.status === 'error').length;
+  const processingParagraphs = paragraphs.filter(p => p.status === 'processing').length;
   const totalParagraphs = paragraphs.length;
 
+  // Large documents show one block per chunk instead of thousands of paragraph blocks
+  const progressBlocks = useMemo(() => {
+    if (!largeDocument) {
+      return paragraphs.map(p => ({ id: p.id, status: p.status, title: `段落: ${p.status}` }));
+    }
+    return largeDocument.chunks.map((chunk, index) => {
+      const statuses = paragraphs.filter(p => p.chunkId === chunk.id).map(p => p.status);
+      const status: Paragraph['status'] = statuses.includes('error') ? 'error'
+        : statuses.includes('processing') ? 'processing'
+        : statuses.every(s => s === 'completed') ? 'completed'
+        : 'pending';
+      return { id: chunk.id, status, title: `第 ${index + 1} 部分: ${status}` };
+    });
+  }, [paragraphs, largeDocument]);
+
   // Only hide if not processing, not completed, and progress is 0
   if (!isProcessing && !isCompleted && progress === 0) {
     return null;
@@ -179,7 +197,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className
                         ✓ 已完成: {completedParagraphs}
                       </span>
                       <span className="text-[#2563eb]">
-                        ⟳ 處理中: {Math.min(currentParagraphIndex + 3, totalParagraphs) - currentParagraphIndex}
+                        ⟳ 處理中: {processingParagraphs}
                       </span>
                       {errorParagraphs > 0 && (
                         <span className="text-[#dc2626]">
@@ -191,22 +209,22 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className
                   
                   {/* Paragraph Progress Visualization */}
                   <div className="flex flex-wrap gap-1">
-                    {paragraphs.map((paragraph, index) => (
+                    {progressBlocks.map((block, index) => (
                       <motion.div
-                        key={paragraph.id}
+                        key={block.id}
                         initial={{ scale: 0.8, opacity: 0 }}
                         animate={{ scale: 1, opacity: 1 }}
-                        transition={{ delay: index * 0.05 }}
+                        transition={{ delay: Math.min(index * 0.05, 1) }}
                         className={`w-3 h-3 rounded-sm transition-colors duration-200 ${
-                          paragraph.status === 'completed'
+                          block.status === 'completed'
                             ? 'bg-[#10b981]'
-                            : paragraph.status === 'processing'
+                            : block.status === 'processing'
                             ? 'bg-[#3b82f6] animate-pulse'
-                            : paragraph.status === 'error'
+                            : block.status === 'error'
                             ? 'bg-[#ef4444]'
                             : 'bg-neutral-300'
                         }`}
-                        title={`段落: ${paragraph.status}`}
+                        title={block.title}
                       />
                     ))}
                   </div>
@@ -225,7 +243,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className
                 </span>
               </div>
 
-              {/* Cancel Button (Optional) */}
+              {/* Cancel stops in-flight requests; finished paragraphs are kept */}
               {isProcessing && (
                 <motion.div
                   initial={{ opacity: 0 }}
@@ -234,10 +252,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ className
                   className="flex justify-center mt-4"
                 >
                   <button
-                    onClick={() => {
-                      // This would need to be implemented in the store
-                      console.log('Cancel processing requested');
-                    }}
+                    onClick={cancelProcessing}
                     className="btn btn-secondary text-sm"
                   >
                     取消處理
@@ -0,0 +1,112 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { QuotaCheck } from '@/utils/quotaCheck';
+
+interface QuotaPreflightDialogProps {
+  check: QuotaCheck;
+  onContinue: () => void;
+  onProcessFitting: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Breakdown of what a run will use against the remaining quota, shown before a run that would exceed or nearly exhaust it
+ */
+export const QuotaPreflightDialog: React.FC<QuotaPreflightDialogProps> = ({ check, onContinue, onProcessFitting, onCancel }) => {
+  const { theme } = useTheme();
+  const isExceeded = check.status === 'exceeded';
+  const mutedColor = theme === 'light' ? '#656D76' : 'var(--text-secondary)';
+  const overColor = theme === 'light' ? '#CF222E' : '#ff4757';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.96, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.96, y: 10 }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quota-preflight-title"
+        className={`w-full max-w-md rounded-xl p-6 text-left shadow-xl ${
+          theme === 'light' ? 'bg-white border border-[#D0D7DE] text-[#1F2328]' : 'bg-gray-900 border border-gray-700 text-gray-100'
+        }`}
+      >
+        <h2 id="quota-preflight-title" className="text-lg font-semibold mb-2">
+          {isExceeded ? '剩餘額度不足以完成這次校正' : '這次校正將用掉大部分剩餘額度'}
+        </h2>
+        <p className="text-sm mb-4" style={{ color: mutedColor }}>
+          預估共 {check.usage.paragraphs.toLocaleString()} 個段落、{check.usage.characters.toLocaleString()} 字元、
+          {check.usage.requests.toLocaleString()} 次請求
+        </p>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr style={{ color: mutedColor }}>
+              <th className="text-left font-medium pb-2">額度</th>
+              <th className="text-right font-medium pb-2">本次預估</th>
+              <th className="text-right font-medium pb-2">剩餘</th>
+              <th className="text-right font-medium pb-2">重置日期</th>
+            </tr>
+          </thead>
+          <tbody>
+            {check.lines.map(line => (
+              <tr key={line.type}>
+                <td className="py-1">{line.label}</td>
+                <td className="py-1 text-right" style={line.needed > line.remaining ? { color: overColor, fontWeight: 600 } : undefined}>
+                  {line.needed.toLocaleString()}
+                </td>
+                <td className="py-1 text-right">{line.remaining.toLocaleString()}</td>
+                <td className="py-1 text-right" style={{ color: mutedColor }}>
+                  {format(new Date(line.resetDate), 'MM/dd')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {isExceeded && (
+          <p className="text-sm mb-4" style={{ color: mutedColor }}>
+            {check.fittingParagraphs > 0
+              ? `額度內可處理前 ${check.fittingParagraphs.toLocaleString()} 個段落，其餘段落會標示為失敗，額度重置後可重試。`
+              : '目前的額度連一個段落都無法處理，請等待額度重置或升級方案。'}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm"
+          >
+            取消
+          </button>
+          {isExceeded ? (
+            check.fittingParagraphs > 0 && (
+              <button
+                onClick={onProcessFitting}
+                className="rounded-lg bg-[#111215] text-white hover:brightness-110 px-3 py-2 text-sm"
+              >
+                只處理前 {check.fittingParagraphs.toLocaleString()} 個段落
+              </button>
+            )
+          ) : (
+            <button
+              onClick={onContinue}
+              className="rounded-lg bg-[#111215] text-white hover:brightness-110 px-3 py-2 text-sm"
+            >
+              繼續處理
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default QuotaPreflightDialog;
@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { createInlineDiff } from '@/utils/diffUtils';
+import { getHeadingLevel, getParagraphKind, isOrderedList } from '@/utils/paragraphStyles';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { Paragraph } from '@/types';
+
+interface StructuredDocumentViewProps {
+  paragraphs: Paragraph[];
+  showDifferences?: boolean;
+  className?: string;
+}
+
+type Block =
+  | { kind: 'heading' | 'normal'; paragraph: Paragraph }
+  | { kind: 'list'; ordered: boolean; items: Paragraph[] };
+
+const headingClasses: Record<number, string> = {
+  1: 'text-2xl font-bold',
+  2: 'text-xl font-bold',
+  3: 'text-lg font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-base font-medium',
+  6: 'text-sm font-medium',
+};
+
+/**
+ * Results view for imported documents: keeps headings, lists and body paragraphs apart
+ */
+export const StructuredDocumentView: React.FC<StructuredDocumentViewProps> = ({
+  paragraphs,
+  showDifferences = false,
+  className = '',
+}) => {
+  const { theme } = useTheme();
+
+  // Group consecutive list items of the same kind into one list
+  const blocks = useMemo(() => {
+    return paragraphs.reduce<Block[]>((acc, paragraph) => {
+      const kind = getParagraphKind(paragraph.style);
+      if (kind !== 'list') {
+        acc.push({ kind, paragraph });
+        return acc;
+      }
+
+      const ordered = isOrderedList(paragraph.style);
+      const previous = acc[acc.length - 1];
+      if (previous?.kind === 'list' && previous.ordered === ordered) {
+        previous.items.push(paragraph);
+      } else {
+        acc.push({ kind: 'list', ordered, items: [paragraph] });
+      }
+      return acc;
+    }, []);
+  }, [paragraphs]);
+
+  const getDiffClass = (type: 'insert' | 'delete' | 'equal') => {
+    if (type === 'equal') return 'text-diff-unchanged';
+    if (theme === 'light') {
+      return type === 'insert'
+        ? 'text-diff-added bg-green-50 text-green-800 border border-green-200 rounded px-1'
+        : 'text-diff-removed bg-red-50 text-red-800 line-through border border-red-200 rounded px-1';
+    }
+    return type === 'insert'
+      ? 'text-diff-added bg-green-900/30 text-green-400 rounded px-1'
+      : 'text-diff-removed bg-red-900/30 text-red-400 line-through rounded px-1';
+  };
+
+  const renderContent = (paragraph: Paragraph) => {
+    const diffs = createInlineDiff(paragraph.text, paragraph.correctedText || paragraph.text);
+    return diffs.map((diff, index) => {
+      // Deleted text only shows up when differences are requested
+      if (diff.type === 'delete' && !showDifferences) return null;
+      return (
+        <span key={index} className={getDiffClass(diff.type)} data-type={diff.type}>
+          {diff.text}
+        </span>
+      );
+    });
+  };
+
+  return (
+    <div
+      className={`text-left ${
+        theme === 'light'
+          ? 'bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-gray-800'
+          : 'bg-gray-900/20 backdrop-blur-sm border border-gray-700/50 rounded-lg p-4 text-gray-200'
+      } ${className}`}
+    >
+      <div className="space-y-3 leading-relaxed">
+        {blocks.map(block => {
+          if (block.kind === 'list') {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag
+                key={block.items[0].id}
+                className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+              >
+                {block.items.map(item => (
+                  <li key={item.id} data-source-id={item.sourceId}>{renderContent(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+
+          const { paragraph } = block;
+          if (block.kind === 'heading') {
+            const level = getHeadingLevel(paragraph.style);
+            const HeadingTag = `h${level}` as const;
+            return (
+              <HeadingTag key={paragraph.id} className={headingClasses[level]} data-source-id={paragraph.sourceId}>
+                {renderContent(paragraph)}
+              </HeadingTag>
+            );
+          }
+
+          return (
+            <p key={paragraph.id} className="whitespace-pre-wrap" data-source-id={paragraph.sourceId}>
+              {renderContent(paragraph)}
+            </p>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StructuredDocumentView;
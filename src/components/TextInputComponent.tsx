@@ -1,7 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTextCorrectionStore, useInputMethod, useInputText, useGoogleDocsUrl, useError } from '@/stores/textCorrectionStore';
+import { confirmAction } from '@/stores/notificationStore';
 import { useTheme } from '@/contexts/ThemeContext';
+import { config } from '@/utils/config';
+import { getRichTextPlainText, parseRichTextHtml, plainTextToRichText, renderRichTextHtml } from '@/utils/richText';
+import type { InputMethod } from '@/types';
+import { FileUploadInput } from '@/components/FileUploadInput';
+
+const INPUT_TABS: Array<{ method: InputMethod; label: string }> = [
+  { method: 'direct', label: '貼上文字' },
+  { method: 'rich-text', label: '貼上格式文字' },
+  { method: 'file', label: '上傳檔案' },
+  { method: 'google-docs', label: '從 Google Doc 匯入文件' },
+];
 
 interface TextInputComponentProps {
   className?: string;
@@ -13,15 +25,22 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
   const inputText = useInputText();
   const googleDocsUrl = useGoogleDocsUrl();
   
-  const { setInputMethod, setInputText, setGoogleDocsUrl, clearError } = useTextCorrectionStore();
+  const richTextSource = useTextCorrectionStore(state => state.richTextSource);
+  
+  const { setInputMethod, setInputText, setGoogleDocsUrl, setRichTextSource, clearError } = useTextCorrectionStore();
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const richTextRef = useRef<HTMLDivElement>(null);
   const [charCount, setCharCount] = useState(0);
   const [urlError, setUrlError] = useState<string | null>(null);
   const [textError, setTextError] = useState<string | null>(null);
 
-  const maxTextLength = 10000;
+  // Text past the regular limit is accepted and processed in large-document mode
+  const maxTextLength = config.maxLargeDocumentLength;
   const minTextLength = 10;
+  const isLargeDocument = charCount > config.maxTextLength;
+  // Keep the page usable with very long inputs; the textarea scrolls beyond this height
+  const maxTextareaHeight = 640;
 
   // Update character count when text changes
   useEffect(() => {
@@ -32,10 +51,22 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
-      textareaRef.current.style.height = `${Math.max(120, textareaRef.current.scrollHeight)}px`;
+      const height = Math.max(120, textareaRef.current.scrollHeight);
+      textareaRef.current.style.height = `${inputText.length > config.maxTextLength ? Math.min(height, maxTextareaHeight) : height}px`;
     }
   }, [inputText]);
 
+  // The editor is uncontrolled; fill it from the store when it mounts and empty it when the store is reset
+  useEffect(() => {
+    const editor = richTextRef.current;
+    if (!editor) return;
+    if (!richTextSource) {
+      editor.innerHTML = '';
+    } else if (!editor.innerHTML) {
+      editor.innerHTML = renderRichTextHtml(richTextSource);
+    }
+  }, [inputMethod, richTextSource]);
+
   // Clear errors when switching input methods
   useEffect(() => {
     setUrlError(null);
@@ -79,7 +110,7 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
     return true;
   };
 
-  const handleInputMethodToggle = (method: 'direct' | 'google-docs') => {
+  const handleInputMethodToggle = (method: InputMethod) => {
     setInputMethod(method);
     clearError();
   };
@@ -92,6 +123,22 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
     }
   };
 
+  // Formatted text is corrected without large-document mode, so it keeps to the regular limit
+  const updateRichText = (html: string) => {
+    const document = parseRichTextHtml(html);
+    setRichTextSource(document.blocks.length > 0 ? document : null);
+    setTextError(getRichTextPlainText(document).length > config.maxTextLength ? `格式文字長度不能超過 ${config.maxTextLength.toLocaleString()} 個字元` : null);
+  };
+
+  // Pasted HTML is reduced to the formatting we keep before it enters the editor, so no foreign styles or scripts come along
+  const handleRichTextPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const document = html ? parseRichTextHtml(html) : plainTextToRichText(e.clipboardData.getData('text/plain'));
+    window.document.execCommand('insertHTML', false, renderRichTextHtml(document));
+    updateRichText(e.currentTarget.innerHTML);
+  };
+
   const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newUrl = e.target.value;
     setGoogleDocsUrl(newUrl);
@@ -110,7 +157,9 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
     if (googleDocsPattern.test(pastedText) && inputMethod === 'direct') {
       e.preventDefault();
       // Suggest switching to Google Docs mode
-      const shouldSwitch = window.confirm('偵測到 Google Docs 連結，是否切換到 Google Docs 模式？');
+      const shouldSwitch = await confirmAction('偵測到 Google Docs 連結，是否切換到 Google Docs 模式？', {
+        confirmLabel: '切換',
+      });
       if (shouldSwitch) {
         setInputMethod('google-docs');
         setGoogleDocsUrl(pastedText);
@@ -139,34 +188,23 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
     >
       {/* Input Method Toggle */}
       <div className="flex items-center mb-2 px-3 pt-2">
-        <button 
-          onClick={() => handleInputMethodToggle('direct')}
-          className="flex items-center gap-2 py-2 px-3 rounded-t-lg text-sm font-semibold transition-all duration-300"
-          style={theme === 'light' ? {
-            color: inputMethod === 'direct' ? '#1F2328' : '#656D76',
-            textShadow: 'none',
-            fontWeight: inputMethod === 'direct' ? '600' : '500'
-          } : {
-            color: inputMethod === 'direct' ? 'var(--primary-color)' : 'var(--text-secondary)',
-            textShadow: inputMethod === 'direct' ? '0 0 5px var(--primary-color)' : 'none'
-          }}
-        >
-          貼上文字
-        </button>
-        <button 
-          onClick={() => handleInputMethodToggle('google-docs')}
-          className="flex items-center gap-2 py-2 px-3 rounded-t-lg text-sm font-semibold transition-all duration-300"
-          style={theme === 'light' ? {
-            color: inputMethod === 'google-docs' ? '#1F2328' : '#656D76',
-            textShadow: 'none',
-            fontWeight: inputMethod === 'google-docs' ? '600' : '500'
-          } : {
-            color: inputMethod === 'google-docs' ? 'var(--primary-color)' : 'var(--text-secondary)',
-            textShadow: inputMethod === 'google-docs' ? '0 0 5px var(--primary-color)' : 'none'
-          }}
-        >
-          從 Google Doc 匯入文件
-        </button>
+        {INPUT_TABS.map(({ method, label }) => (
+          <button 
+            key={method}
+            onClick={() => handleInputMethodToggle(method)}
+            className="flex items-center gap-2 py-2 px-3 rounded-t-lg text-sm font-semibold transition-all duration-300"
+            style={theme === 'light' ? {
+              color: inputMethod === method ? '#1F2328' : '#656D76',
+              textShadow: 'none',
+              fontWeight: inputMethod === method ? '600' : '500'
+            } : {
+              color: inputMethod === method ? 'var(--primary-color)' : 'var(--text-secondary)',
+              textShadow: inputMethod === method ? '0 0 5px var(--primary-color)' : 'none'
+            }}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
       <div className="relative">
@@ -218,8 +256,15 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
               <div className="absolute bottom-4 right-4 text-sm" style={{
                 color: theme === 'light' ? '#9199A1' : 'var(--text-secondary)'
               }}>
-                字元數: {charCount} / 5000
+                字元數: {charCount.toLocaleString()} / {(isLargeDocument ? maxTextLength : config.maxTextLength).toLocaleString()}
               </div>
+              {isLargeDocument && !textError && (
+                <div className="text-sm mt-2 px-3" style={{
+                  color: theme === 'light' ? '#9A6700' : '#ffd166'
+                }}>
+                  大型文件模式：文字將依章節分段處理，進度會自動儲存，重新整理後可繼續
+                </div>
+              )}
               {textError && (
                 <div className="text-sm mt-2 px-3" style={{
                   color: theme === 'light' ? '#CF222E' : '#ff4757'
@@ -228,6 +273,63 @@ export const TextInputComponent: React.FC<TextInputComponentProps> = ({ classNam
                 </div>
               )}
             </motion.div>
+            ) : inputMethod === 'file' ? (
+              <motion.div
+                key="file-input"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <FileUploadInput />
+              </motion.div>
+            ) : inputMethod === 'rich-text' ? (
+              <motion.div
+                key="rich-text-input"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <div
+                  ref={richTextRef}
+                  contentEditable
+                  suppressContentEditableWarning
+                  role="textbox"
+                  aria-multiline="true"
+                  aria-label="貼上格式文字"
+                  data-placeholder="從 Word、Notion 或網頁貼上文字，粗體、連結、標題與清單會保留..."
+                  onPaste={handleRichTextPaste}
+                  onInput={(e) => updateRichText(e.currentTarget.innerHTML)}
+                  className="rich-text-input w-full rounded-lg text-base text-left focus:outline-none focus:ring-2 focus:ring-opacity-50 min-h-60 max-h-[640px] overflow-y-auto p-6 transition-all duration-300"
+                  style={theme === 'light' ? {
+                    color: '#1F2328',
+                    backgroundColor: '#FFFFFF',
+                    border: '1px solid #D0D7DE',
+                    borderRadius: '6px',
+                    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Noto Sans", Helvetica, Arial, sans-serif',
+                    boxShadow: textError ? '0 0 0 3px rgba(207, 34, 46, 0.1)' : '0 1px 3px rgba(31, 35, 40, 0.12)',
+                  } : {
+                    color: 'var(--text-primary)',
+                    backgroundColor: 'rgba(13, 17, 23, 0.8)',
+                    border: '1px solid rgba(107, 114, 126, 0.5)',
+                    boxShadow: textError ? '0 0 15px rgba(255, 71, 87, 0.3)' : 'none'
+                  }}
+                />
+                <div className="text-sm mt-2 px-3 flex justify-between" style={{
+                  color: theme === 'light' ? '#656D76' : 'var(--text-secondary)'
+                }}>
+                  <span>僅校正文字內容，格式會套用回校正結果</span>
+                  <span>字元數: {charCount.toLocaleString()} / {config.maxTextLength.toLocaleString()}</span>
+                </div>
+                {textError && (
+                  <div className="text-sm mt-2 px-3" style={{
+                    color: theme === 'light' ? '#CF222E' : '#ff4757'
+                  }}>
+                    {textError}
+                  </div>
+                )}
+              </motion.div>
             ) : (
               <motion.div
                 key="url-input"
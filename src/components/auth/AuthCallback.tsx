@@ -1,6 +1,6 @@
 import { useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { supabase } from '../../config/supabase'
+import { authConfig, supabase } from '../../config/supabase'
 
 export const AuthCallback = () => {
   const navigate = useNavigate()
@@ -17,6 +17,13 @@ export const AuthCallback = () => {
           return
         }
 
+        if (data.session && window.opener && window.name === authConfig.reloginWindowName) {
+          // Signed in again from the re-login popup; the opening page picks up the session itself
+          console.log('Re-authentication successful:', data.session.user.email)
+          window.close()
+          return
+        }
+
         if (data.session) {
           // Successful authentication, redirect to home
           console.log('Authentication successful:', data.session.user.email)
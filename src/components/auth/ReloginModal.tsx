@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../config/supabase'
+import { useIsReloginRequired, useSessionStore } from '../../stores/sessionStore'
+
+// How often to check whether the sign-in popup was closed
+const POPUP_POLL_INTERVAL = 500
+
+/**
+ * Asks the user to sign in again when the session expired and could not be refreshed
+ * Requests waiting on it continue as soon as a new session arrives
+ */
+export const ReloginModal = () => {
+  const { session, signInWithGooglePopup } = useAuth()
+  const isReloginRequired = useIsReloginRequired()
+  const completeRelogin = useSessionStore(state => state.completeRelogin)
+
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const expiredTokenRef = useRef<string | undefined>(undefined)
+  // Token of the current session, read when the session expires without re-running on every refresh
+  const accessTokenRef = useRef(session?.access_token)
+  accessTokenRef.current = session?.access_token
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const stopPolling = useCallback(() => {
+    if (pollRef.current) clearInterval(pollRef.current)
+    pollRef.current = null
+  }, [])
+
+  // Remember which token expired, so only a new one counts as signed in again
+  useEffect(() => {
+    if (isReloginRequired) {
+      expiredTokenRef.current = accessTokenRef.current
+      setError(null)
+    } else {
+      stopPolling()
+      setIsSigningIn(false)
+    }
+  }, [isReloginRequired, stopPolling])
+
+  useEffect(() => {
+    if (isReloginRequired && session?.access_token && session.access_token !== expiredTokenRef.current) {
+      completeRelogin(true)
+    }
+  }, [isReloginRequired, session, completeRelogin])
+
+  useEffect(() => stopPolling, [stopPolling])
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true)
+    setError(null)
+    const { popup, error: signInError } = await signInWithGooglePopup()
+    if (signInError || !popup) {
+      setIsSigningIn(false)
+      setError(signInError ? `登入失敗：${signInError.message}` : '瀏覽器封鎖了登入視窗，請允許彈出視窗後再試')
+      return
+    }
+
+    // The session normally arrives through the auth listener; check once more when the popup closes
+    stopPolling()
+    pollRef.current = setInterval(async () => {
+      if (!popup.closed) return
+      stopPolling()
+      const { data } = await supabase.auth.getSession()
+      if (data.session?.access_token && data.session.access_token !== expiredTokenRef.current) {
+        completeRelogin(true)
+      } else {
+        setIsSigningIn(false)
+        setError('尚未完成登入，請再試一次')
+      }
+    }, POPUP_POLL_INTERVAL)
+  }
+
+  return (
+    <AnimatePresence>
+      {isReloginRequired && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.96, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.96, y: 10 }}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="relogin-title"
+            className="w-full max-w-sm rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-xl p-6 text-left"
+          >
+            <h2 id="relogin-title" className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              登入已過期
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+              請重新登入以繼續。進行中的校正會暫停等候，登入後從中斷的地方接著處理。
+            </p>
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => completeRelogin(false)}
+                className="px-4 py-2 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSignIn}
+                disabled={isSigningIn}
+                className="px-4 py-2 text-sm rounded-lg bg-white hover:bg-gray-50 text-gray-900 border border-gray-300 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSigningIn ? '等待登入完成...' : '使用 Google 重新登入'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
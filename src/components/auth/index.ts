@@ -1,4 +1,5 @@
 export { LoginButton } from './LoginButton'
 export { UserProfile } from './UserProfile'
 export { ProtectedRoute, useAuthGuard } from './ProtectedRoute'
-export { AuthCallback } from './AuthCallback'
\ No newline at end of file
+export { AuthCallback } from './AuthCallback'
+export { ReloginModal } from './ReloginModal'
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useNotificationStore, useNotifications } from '@/stores/notificationStore';
+import type { NotificationType } from '@/types';
+
+// Accent colour per notification type, for the light and dark themes
+const TYPE_COLORS: Record<NotificationType, { light: string; dark: string }> = {
+  success: { light: '#1A7F37', dark: '#3fb950' },
+  error: { light: '#CF222E', dark: '#ff4757' },
+  warning: { light: '#9A6700', dark: '#d29922' },
+  info: { light: '#0969DA', dark: 'var(--primary-color)' },
+};
+
+/**
+ * Stack of toasts in the corner of the screen; errors and confirmations are announced to screen readers
+ */
+export const NotificationCenter: React.FC = () => {
+  const { theme } = useTheme();
+  const notifications = useNotifications();
+  const dismiss = useNotificationStore(state => state.dismiss);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-full max-w-sm flex-col gap-3 px-4 sm:px-0 pointer-events-none">
+      <AnimatePresence initial={false}>
+        {notifications.map(notification => {
+          const color = TYPE_COLORS[notification.type][theme === 'light' ? 'light' : 'dark'];
+          const isUrgent = notification.type === 'error' || !!notification.actions;
+
+          return (
+            <motion.div
+              key={notification.id}
+              layout
+              initial={{ opacity: 0, y: 16, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, x: 40 }}
+              transition={{ duration: 0.2 }}
+              role={isUrgent ? 'alert' : 'status'}
+              className={`pointer-events-auto rounded-lg p-4 text-left shadow-lg ${
+                theme === 'light' ? 'bg-white text-[#1F2328]' : 'bg-gray-900 text-gray-100'
+              }`}
+              style={{
+                border: theme === 'light' ? '1px solid #D0D7DE' : '1px solid rgba(107, 114, 126, 0.5)',
+                borderLeft: `4px solid ${color}`,
+              }}
+            >
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  {notification.title && (
+                    <div className="text-sm font-semibold mb-1" style={{ color }}>
+                      {notification.title}
+                    </div>
+                  )}
+                  <div className="text-sm leading-relaxed break-words">{notification.message}</div>
+                </div>
+                <button
+                  onClick={() => dismiss(notification.id)}
+                  aria-label="關閉通知"
+                  className={`shrink-0 rounded p-0.5 ${theme === 'light' ? 'text-[#656D76] hover:bg-[#F6F8FA]' : 'text-gray-400 hover:bg-gray-800'}`}
+                >
+                  <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+              {notification.actions && (
+                <div className="flex justify-end gap-2 mt-3">
+                  {notification.actions.map(action => (
+                    <button
+                      key={action.label}
+                      onClick={action.onClick}
+                      className={action.primary
+                        ? 'rounded-md bg-[#111215] text-white hover:brightness-110 px-3 py-1 text-sm'
+                        : 'rounded-md border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-1 text-sm'}
+                    >
+                      {action.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationCenter;
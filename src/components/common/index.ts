@@ -1,4 +1,5 @@
 // Export all common components
 export { Header } from './Header';
 export { Footer } from './Footer';
-export { Layout } from './Layout';
\ No newline at end of file
+export { Layout } from './Layout';
+export { NotificationCenter } from './NotificationCenter';
\ No newline at end of file
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format, parseISO } from 'date-fns';
+import { TextComparison } from '@/components/TextComparison';
+import { useTextCorrectionStore } from '@/stores/textCorrectionStore';
+import { confirmAction } from '@/stores/notificationStore';
+import { historyStorage } from '@/services/historyStorage';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  CORRECTION_LEVEL_LABELS,
+  LANGUAGE_LABELS,
+  formatCorrectionOptions,
+} from '@/utils/correctionOptions';
+import { reassembleDocument } from '@/utils/textProcessor';
+import type { CorrectionLanguage, CorrectionLevel, CorrectionOptions, HistoryEntry } from '@/types';
+
+interface HistoryPanelProps {
+  className?: string;
+}
+
+// Two runs can be compared side by side
+const MAX_COMPARE_SELECTION = 2;
+
+const getCorrectedText = (entry: HistoryEntry) => reassembleDocument(entry.inputText, entry.paragraphs);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ className = '' }) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { restoreHistoryEntry, rerunHistoryEntry } = useTextCorrectionStore();
+
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rerunTarget, setRerunTarget] = useState<HistoryEntry | null>(null);
+  const [rerunOptions, setRerunOptions] = useState<CorrectionOptions | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    if (!user || !historyStorage.isAvailable) {
+      setEntries([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await historyStorage.listEntries(user.id);
+      setEntries(result);
+      setSelectedIds(prev => prev.filter(id => result.some(e => e.id === id)));
+    } catch (err) {
+      console.error('Failed to load correction history:', err);
+      setError('無法讀取校正紀錄');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadEntries();
+
+    const handleHistoryChanged = () => loadEntries();
+    window.addEventListener('history:changed', handleHistoryChanged);
+    return () => window.removeEventListener('history:changed', handleHistoryChanged);
+  }, [loadEntries]);
+
+  // Oldest run on the left, newest on the right
+  const comparedEntries = useMemo(() => {
+    const selected = entries.filter(e => selectedIds.includes(e.id));
+    return selected.length === MAX_COMPARE_SELECTION
+      ? [...selected].sort((a, b) => a.completedAt.localeCompare(b.completedAt))
+      : null;
+  }, [entries, selectedIds]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Drop the oldest selection once two runs are already picked
+      return [...prev, id].slice(-MAX_COMPARE_SELECTION);
+    });
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    const confirmed = await confirmAction(`確定要刪除「${entry.title || '未命名文件'}」的校正紀錄嗎？`, {
+      confirmLabel: '刪除',
+    });
+    if (!confirmed) return;
+    try {
+      await historyStorage.deleteEntry(entry.id);
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setError('刪除紀錄失敗');
+    }
+  };
+
+  const openRerun = (entry: HistoryEntry) => {
+    setRerunTarget(entry);
+    setRerunOptions(entry.options);
+  };
+
+  const handleRerun = async () => {
+    if (!rerunTarget || !rerunOptions) return;
+    const entry = rerunTarget;
+    setRerunTarget(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    await rerunHistoryEntry(entry, rerunOptions);
+  };
+
+  const handleRestore = (entry: HistoryEntry) => {
+    restoreHistoryEntry(entry);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const mutedText = theme === 'light' ? 'text-gray-600' : 'text-gray-400';
+  const actionButtonClass = `inline-flex items-center px-2.5 py-1 rounded-lg text-xs transition-colors whitespace-nowrap ${
+    theme === 'light'
+      ? 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+      : 'border border-gray-600 bg-white/10 text-gray-200 hover:bg-white/20'
+  }`;
+  const selectClass = `px-2 py-1 rounded-lg text-sm ${
+    theme === 'light'
+      ? 'border border-gray-300 bg-white text-gray-900'
+      : 'border border-gray-600 bg-gray-900 text-gray-200'
+  }`;
+
+  if (!historyStorage.isAvailable) {
+    return null;
+  }
+
+  return (
+    <div className={`tech-card glass ${className}`}>
+      <div className="p-6" style={{
+        borderBottom: theme === 'light' ? '1px solid #e1e5e9' : '1px solid var(--secondary-color)'
+      }}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold">
+            <span style={{color: theme === 'light' ? '#111215' : 'var(--text-secondary)'}}>校正紀錄</span>
+          </h3>
+          <span className={`text-sm ${mutedText}`}>
+            勾選兩筆紀錄即可比較結果
+          </span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading && entries.length === 0 ? (
+          <p className={`text-sm ${mutedText}`}>載入中...</p>
+        ) : entries.length === 0 ? (
+          <p className={`text-sm ${mutedText}`}>尚無校正紀錄，完成一次校正後會自動保存於此裝置</p>
+        ) : (
+          <ul className="space-y-2 text-left">
+            {entries.map(entry => (
+              <li
+                key={entry.id}
+                className={`rounded-lg px-3 py-2 ${theme === 'light' ? 'bg-gray-50' : 'bg-white/5'}`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      title="選取以比較"
+                    />
+                    <div className="min-w-0">
+                      <p className={`text-sm font-medium truncate ${theme === 'light' ? 'text-gray-900' : 'text-gray-200'}`}>
+                        {entry.title || '未命名文件'}
+                      </p>
+                      <p className={`text-xs ${mutedText}`}>
+                        {format(parseISO(entry.completedAt), 'yyyy/MM/dd HH:mm')}
+                        ・{formatCorrectionOptions(entry.options)}
+                        ・{entry.paragraphs.length} 段・{entry.correctionCount} 處修正
+                      </p>
+                    </div>
+                  </label>
+                  <div className="flex gap-2 shrink-0">
+                    <button onClick={() => handleRestore(entry)} className={actionButtonClass} title="將此紀錄載入至校正結果">
+                      還原
+                    </button>
+                    <button onClick={() => openRerun(entry)} className={actionButtonClass} title="以不同設定重新校正">
+                      重新校正
+                    </button>
+                    <button onClick={() => handleDelete(entry)} className={actionButtonClass} title="刪除此紀錄">
+                      刪除
+                    </button>
+                  </div>
+                </div>
+
+                {rerunTarget?.id === entry.id && rerunOptions && (
+                  <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <select
+                      value={rerunOptions.language}
+                      onChange={(e) => setRerunOptions({ ...rerunOptions, language: e.target.value as CorrectionLanguage })}
+                      className={selectClass}
+                    >
+                      {Object.entries(LANGUAGE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={rerunOptions.correctionLevel}
+                      onChange={(e) => setRerunOptions({ ...rerunOptions, correctionLevel: e.target.value as CorrectionLevel })}
+                      className={selectClass}
+                    >
+                      {Object.entries(CORRECTION_LEVEL_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <button onClick={handleRerun} className="px-3 py-1 rounded-lg text-xs bg-blue-600 text-white hover:bg-blue-700">
+                      開始
+                    </button>
+                    <button onClick={() => setRerunTarget(null)} className={actionButtonClass}>
+                      取消
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <AnimatePresence>
+          {comparedEntries && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="space-y-2"
+            >
+              <p className={`text-sm ${mutedText}`}>
+                比較：{format(parseISO(comparedEntries[0].completedAt), 'MM/dd HH:mm')}（{formatCorrectionOptions(comparedEntries[0].options)}）
+                → {format(parseISO(comparedEntries[1].completedAt), 'MM/dd HH:mm')}（{formatCorrectionOptions(comparedEntries[1].options)}）
+              </p>
+              <TextComparison
+                originalText={getCorrectedText(comparedEntries[0])}
+                correctedText={getCorrectedText(comparedEntries[1])}
+                showDifferences
+                onCopy={(text) => navigator.clipboard.writeText(text)}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1 @@
+export { default as HistoryPanel } from './HistoryPanel';
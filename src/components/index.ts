@@ -1,7 +1,16 @@
 // UI Components exports
 export { default as TextInputComponent } from './TextInputComponent';
+export { CorrectionSettingsPanel } from './CorrectionSettingsPanel';
 export { default as ProgressIndicator } from './ProgressIndicator';
 export { TextComparison } from './TextComparison';
+export { CorrectionReviewPanel } from './CorrectionReviewPanel';
+export { ExportMenu } from './ExportMenu';
+export { GoogleDocsWriteBackPanel } from './GoogleDocsWriteBackPanel';
+export { StructuredDocumentView } from './StructuredDocumentView';
+export { LargeDocumentResultsView } from './LargeDocumentResultsView';
+export { FileUploadInput } from './FileUploadInput';
+export { InlineEditor } from './InlineEditor';
+export { QuotaPreflightDialog } from './QuotaPreflightDialog';
 
 // Animation Components
 export { default as ScrambledTextEffect } from './ScrambledTextEffect';
@@ -12,4 +21,5 @@ export { default as DecryptedTextEffect } from './DecryptedTextEffect';
 // Common components
 export { Header } from './common/Header';
 export { Footer } from './common/Footer';
-export { Layout } from './common/Layout';
\ No newline at end of file
+export { Layout } from './common/Layout';
+export { NotificationCenter } from './common/NotificationCenter';
\ No newline at end of file
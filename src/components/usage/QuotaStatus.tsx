@@ -1,27 +1,53 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { apiService } from '@/services/api';
-
-interface QuotaInfo {
-  type: 'monthly_corrections' | 'monthly_characters' | 'monthly_requests' | 'daily_requests';
-  limit: number;
-  used: number;
-  remaining: number;
-  resetDate: Date;
-  tier: 'free' | 'premium' | 'enterprise' | 'admin';
-  percentageUsed: number;
-  isExceeded: boolean;
-}
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usageQueries } from '@/services/usageQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { QUOTA_LABELS } from '@/utils/quotaCheck';
+import type { QuotaInfo } from '@/types';
 
 const QuotaStatus: React.FC = () => {
-  const [quotas, setQuotas] = useState<QuotaInfo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const quotaQuery = useApiQuery(usageQueries.quota(), { poll: true });
+  const dayQuery = useApiQuery(usageQueries.current('day'), { poll: true });
+  const monthQuery = useApiQuery(usageQueries.current('month'), { poll: true });
+  const trendsQuery = useApiQuery(usageQueries.trends('month', 'day'), { poll: true });
   const [animatedPercentages, setAnimatedPercentages] = useState<{ [key: string]: number }>({});
   const animationTimeoutRef = useRef<{ [key: string]: NodeJS.Timeout }>({});
 
-  useEffect(() => {
-    fetchQuotaStatus();
-  }, []);
+  const loading = quotaQuery.isLoading;
+  const error = quotaQuery.data ? null : quotaQuery.error ? getErrorMessage(quotaQuery.error, 'Failed to load quota status') : null;
+
+  const quotas = useMemo(() => {
+    if (!quotaQuery.data) return [];
+
+    // 如果配額 API 沒有提供已用值，則以 /usage/current 推估已用
+    const day = dayQuery.data?.data ?? null;
+    const month = monthQuery.data?.data ?? null;
+
+    // 推估今日請求數（如果 dayRes 沒有值，使用趨勢的最後一天）
+    let todayFromTrend: number | null = null;
+    const arr = trendsQuery.data?.data || [];
+    if (arr.length) todayFromTrend = arr[arr.length - 1]?.totalRequests ?? null;
+
+    return quotaQuery.data.data.map((q) => {
+      let used = q.used;
+      if (q.type === 'daily_requests') {
+        const fromDay = day?.dailyRequests;
+        used = (fromDay && fromDay > 0) ? fromDay : (todayFromTrend ?? used);
+      }
+      if (q.type === 'monthly_requests' && month) used = month.monthlyRequests ?? used;
+      if (q.type === 'monthly_characters' && month) used = month.monthlyCharacters ?? used;
+      if (q.type === 'monthly_corrections' && month) used = month.monthlyRequests ?? used;
+      const percentageUsed = q.limit > 0 ? Math.min(100, (used / q.limit) * 100) : 0;
+      return { ...q, resetDate: new Date(q.resetDate), used, percentageUsed } as QuotaInfo;
+    });
+  }, [quotaQuery.data, dayQuery.data, monthQuery.data, trendsQuery.data]);
+
+  const fetchQuotaStatus = () => {
+    void quotaQuery.refetch();
+    void dayQuery.refetch();
+    void monthQuery.refetch();
+    void trendsQuery.refetch();
+  };
 
   // Animate progress bars when quotas update
   useEffect(() => {
@@ -63,67 +89,6 @@ const QuotaStatus: React.FC = () => {
     };
   }, [quotas]);
 
-  const fetchQuotaStatus = async () => {
-    try {
-      setLoading(true);
-      const [quotaRes, dayRes, monthRes, trendsRes] = await Promise.allSettled([
-        apiService.getQuotaStatus(),
-        apiService.getCurrentUsage('day'),
-        apiService.getCurrentUsage('month'),
-        apiService.getUsageTrends('month', 'day'),
-      ]);
-
-      if (quotaRes.status !== 'fulfilled') throw quotaRes.reason;
-
-      let mapped = quotaRes.value.data.map(q => ({
-        ...q,
-        resetDate: new Date(q.resetDate)
-      })) as QuotaInfo[];
-
-      // 如果配額 API 沒有提供已用值，則以 /usage/current 推估已用
-      const day = dayRes.status === 'fulfilled' ? dayRes.value.data : null;
-      const month = monthRes.status === 'fulfilled' ? monthRes.value.data : null;
-
-      // 推估今日請求數（如果 dayRes 沒有值，使用趨勢的最後一天）
-      let todayFromTrend: number | null = null;
-      if (trendsRes.status === 'fulfilled') {
-        const arr = trendsRes.value.data || [];
-        if (arr.length) todayFromTrend = arr[arr.length - 1]?.totalRequests ?? null;
-      }
-
-      mapped = mapped.map((q) => {
-        let used = q.used;
-        if (q.type === 'daily_requests') {
-          const fromDay = day?.dailyRequests;
-          used = (fromDay && fromDay > 0) ? fromDay : (todayFromTrend ?? used);
-        }
-        if (q.type === 'monthly_requests' && month) used = month.monthlyRequests ?? used;
-        if (q.type === 'monthly_characters' && month) used = month.monthlyCharacters ?? used;
-        if (q.type === 'monthly_corrections' && month) used = month.monthlyRequests ?? used;
-        const percentageUsed = q.limit > 0 ? Math.min(100, (used / q.limit) * 100) : 0;
-        return { ...q, used, percentageUsed } as QuotaInfo;
-      });
-
-      setQuotas(mapped);
-      setError(null);
-    } catch (err) {
-      console.error('Failed to fetch quota status:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load quota status');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const formatQuotaType = (type: QuotaInfo['type']): string => {
-    const typeMap = {
-      monthly_corrections: '每月校正次數',
-      monthly_characters: '每月字元數',
-      monthly_requests: '每月請求數',
-      daily_requests: '每日請求數'
-    };
-    return typeMap[type];
-  };
-
   const getTierColor = (tier: QuotaInfo['tier']): string => {
     const tierColors = {
       free: 'text-gray-400',
@@ -269,7 +234,7 @@ const QuotaStatus: React.FC = () => {
                 <div className="flex items-center space-x-2">
                   {getStatusIcon(quota)}
                   <span className="text-gray-800 dark:text-gray-200 text-sm font-medium">
-                    {formatQuotaType(quota.type)}
+                    {QUOTA_LABELS[quota.type]}
                   </span>
                   {quota.isExceeded && (
                     <span className="text-xs bg-red-500/20 text-red-400 px-2 py-1 rounded-full animate-pulse">
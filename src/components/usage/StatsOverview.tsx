@@ -1,16 +1,6 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { apiService } from '@/services/api';
-
-type QuotaItem = {
-  type: 'monthly_corrections' | 'monthly_characters' | 'monthly_requests' | 'daily_requests';
-  limit: number;
-  used: number;
-  remaining: number;
-  resetDate: string | Date;
-  tier: 'free' | 'premium' | 'enterprise' | 'admin';
-  percentageUsed: number;
-  isExceeded: boolean;
-};
+import React, { useMemo } from 'react';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usageQueries } from '@/services/usageQueries';
 
 const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
   <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800/60 shadow-sm p-4 transition-colors">
@@ -42,50 +32,25 @@ const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
 };
 
 const StatsOverview: React.FC = () => {
-  const [quota, setQuota] = useState<QuotaItem[] | null>(null);
-  const [dayUsage, setDayUsage] = useState<{ requests: number; chars: number } | null>(null);
-  const [monthUsage, setMonthUsage] = useState<{ requests: number; chars: number } | null>(null);
-  const [trend, setTrend] = useState<number[] | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    const fetchAll = async () => {
-      try {
-        const [quotaRes, currentDayRes, currentMonthRes, trendsRes] = await Promise.allSettled([
-          apiService.getQuotaStatus(),
-          apiService.getCurrentUsage('day'),
-          apiService.getCurrentUsage('month'),
-          apiService.getUsageTrends('month', 'day'),
-        ]);
-
-        if (cancelled) return;
+  const quotaQuery = useApiQuery(usageQueries.quota(), { poll: true });
+  const dayQuery = useApiQuery(usageQueries.current('day'), { poll: true });
+  const monthQuery = useApiQuery(usageQueries.current('month'), { poll: true });
+  const trendsQuery = useApiQuery(usageQueries.trends('month', 'day'), { poll: true });
 
-        if (quotaRes.status === 'fulfilled') setQuota(quotaRes.value.data as any);
-        if (currentDayRes.status === 'fulfilled') {
-          const d = currentDayRes.value.data;
-          setDayUsage({ requests: d.dailyRequests, chars: d.dailyCharacters });
-        }
-        if (currentMonthRes.status === 'fulfilled') {
-          const m = currentMonthRes.value.data;
-          setMonthUsage({ requests: m.monthlyRequests, chars: m.monthlyCharacters });
-        }
-        if (trendsRes.status === 'fulfilled') {
-          const values = (trendsRes.value.data || []).map((x: any) => x.totalRequests);
-          const last7 = values.slice(-7);
-          setTrend(last7.length ? last7 : values.slice(0, 7));
-        }
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    };
+  // Cards show placeholders until every first request has settled
+  const loading = [quotaQuery, dayQuery, monthQuery, trendsQuery].some(query => query.isLoading);
+  const quota = quotaQuery.data?.data ?? null;
+  const day = dayQuery.data?.data;
+  const dayUsage = day ? { requests: day.dailyRequests, chars: day.dailyCharacters } : null;
+  const month = monthQuery.data?.data;
+  const monthUsage = month ? { requests: month.monthlyRequests, chars: month.monthlyCharacters } : null;
 
-    fetchAll();
-    const onChanged = () => fetchAll();
-    window.addEventListener('usage:changed', onChanged);
-    return () => { cancelled = true; window.removeEventListener('usage:changed', onChanged); };
-  }, []);
+  const trend = useMemo(() => {
+    if (!trendsQuery.data) return null;
+    const values = (trendsQuery.data.data || []).map(x => x.totalRequests);
+    const last7 = values.slice(-7);
+    return last7.length ? last7 : values.slice(0, 7);
+  }, [trendsQuery.data]);
 
   const monthlyReq = useMemo(() => quota?.find(q => q.type === 'monthly_requests'), [quota]);
   const monthlyChars = useMemo(() => quota?.find(q => q.type === 'monthly_characters'), [quota]);
@@ -1,7 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { format, parseISO, subDays, isAfter, isBefore } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell } from 'recharts';
-import { apiService } from '@/services/api';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usageQueries } from '@/services/usageQueries';
+import { getErrorMessage } from '@/services/apiErrors';
 
 interface UsageHistoryEntry {
   id: string;
@@ -16,15 +18,8 @@ interface UsageHistoryEntry {
 }
 
 const UsageHistory: React.FC = () => {
-  const [history, setHistory] = useState<UsageHistoryEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [pagination, setPagination] = useState({
-    total: 0,
-    limit: 10,
-    offset: 0,
-    hasMore: false
-  });
+  const [page, setPage] = useState({ limit: 10, offset: 0 });
+  const historyQuery = useApiQuery(usageQueries.history(page));
   
   // Enhanced filtering state
   const [filters, setFilters] = useState({
@@ -37,35 +32,18 @@ const UsageHistory: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'chart'>('list');
 
-  useEffect(() => {
-    fetchUsageHistory();
-  }, [pagination.limit, pagination.offset]);
-
-  const fetchUsageHistory = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getUsageHistory({
-        limit: pagination.limit,
-        offset: pagination.offset
-      });
-      
-      setHistory(response.data.map(entry => ({
-        ...entry,
-        createdAt: new Date(entry.createdAt)
-      })));
-      setPagination(prev => ({
-        ...prev,
-        total: response.pagination.total,
-        hasMore: response.pagination.hasMore
-      }));
-      setError(null);
-    } catch (err) {
-      console.error('Failed to fetch usage history:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load usage history');
-    } finally {
-      setLoading(false);
-    }
+  const history = useMemo<UsageHistoryEntry[]>(() => (historyQuery.data?.data ?? []).map(entry => ({
+    ...entry,
+    createdAt: new Date(entry.createdAt)
+  })), [historyQuery.data]);
+  const pagination = {
+    ...page,
+    total: historyQuery.data?.pagination.total ?? 0,
+    hasMore: historyQuery.data?.pagination.hasMore ?? false
   };
+  const loading = historyQuery.isFetching;
+  const error = historyQuery.error && !historyQuery.isFetching ? getErrorMessage(historyQuery.error, 'Failed to load usage history') : null;
+  const fetchUsageHistory = () => void historyQuery.refetch();
 
   const formatActionType = (actionType: string): string => {
     const actionMap: Record<string, string> = {
@@ -113,18 +91,18 @@ const UsageHistory: React.FC = () => {
   };
 
   const handleLoadMore = () => {
-    setPagination(prev => ({
+    setPage(prev => ({
       ...prev,
       offset: prev.offset + prev.limit
     }));
   };
 
   const handleRefresh = () => {
-    setPagination(prev => ({
-      ...prev,
-      offset: 0
-    }));
-    setHistory([]);
+    if (page.offset === 0) {
+      fetchUsageHistory();
+    } else {
+      setPage(prev => ({ ...prev, offset: 0 }));
+    }
   };
 
   // Enhanced filtering and utility functions
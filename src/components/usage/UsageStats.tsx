@@ -1,5 +1,7 @@
-import React, { useEffect, useState } from 'react';
-import { apiService } from '@/services/api';
+import React, { useMemo, useState } from 'react';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usageQueries } from '@/services/usageQueries';
+import { getErrorMessage } from '@/services/apiErrors';
 
 interface UsageData {
   totalRequests: number;
@@ -15,31 +17,20 @@ interface UsageData {
 }
 
 const UsageStats: React.FC = () => {
-  const [usage, setUsage] = useState<UsageData | null>(null);
   const [period, setPeriod] = useState<'day' | 'week' | 'month' | 'all'>('month');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchUsageStats();
-  }, [period]);
-
-  const fetchUsageStats = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getCurrentUsage(period);
-      setUsage({
-        ...response.data,
-        lastActivity: response.data.lastActivity ? new Date(response.data.lastActivity) : undefined
-      });
-      setError(null);
-    } catch (err) {
-      console.error('Failed to fetch usage stats:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load usage statistics');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const usageQuery = useApiQuery(usageQueries.current(period), { poll: true });
+
+  const usage = useMemo<UsageData | null>(() => {
+    const data = usageQuery.data?.data;
+    if (!data) return null;
+    return {
+      ...data,
+      lastActivity: data.lastActivity ? new Date(data.lastActivity) : undefined
+    };
+  }, [usageQuery.data]);
+  const loading = usageQuery.isLoading;
+  const error = usage ? null : usageQuery.error ? getErrorMessage(usageQuery.error, 'Failed to load usage statistics') : null;
+  const fetchUsageStats = () => void usageQuery.refetch();
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -13,7 +13,9 @@ import {
   Bar
 } from 'recharts';
 import { format, parseISO, subDays, isAfter } from 'date-fns';
-import { apiService } from '@/services/api';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usageQueries } from '@/services/usageQueries';
+import { getErrorMessage } from '@/services/apiErrors';
 
 interface TrendData {
   period: string;
@@ -35,17 +37,14 @@ const UsageTrendsChart: React.FC<UsageTrendsChartProps> = ({
   groupBy = 'day',
   height = 300
 }) => {
-  const [trendData, setTrendData] = useState<TrendData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const trendsQuery = useApiQuery(usageQueries.trends(period, groupBy), { poll: true });
+  const trendData: TrendData[] = trendsQuery.data?.data ?? [];
+  const loading = trendsQuery.isLoading;
+  const error = trendsQuery.data ? null : trendsQuery.error ? getErrorMessage(trendsQuery.error, 'Failed to load trend data') : null;
   const [chartType, setChartType] = useState<'line' | 'area' | 'bar'>('area');
   const [metric, setMetric] = useState<'requests' | 'characters' | 'tokens' | 'processing'>('requests');
   const [isDarkMode, setIsDarkMode] = useState(false);
 
-  useEffect(() => {
-    fetchTrendData();
-  }, [period, groupBy]);
-
   useEffect(() => {
     // Check for dark mode
     const checkDarkMode = () => {
@@ -64,19 +63,7 @@ const UsageTrendsChart: React.FC<UsageTrendsChartProps> = ({
     return () => observer.disconnect();
   }, []);
 
-  const fetchTrendData = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getUsageTrends(period, groupBy);
-      setTrendData(response.data);
-      setError(null);
-    } catch (err) {
-      console.error('Failed to fetch trend data:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load trend data');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const fetchTrendData = () => void trendsQuery.refetch();
 
   const formatXAxisDate = (dateStr: string): string => {
     try {
@@ -1,10 +1,12 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/utils/config'
 
 // Supabase configuration (no defaults; must be provided via env)
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string | undefined
 const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY as string | undefined
 
-export const supabaseConfigured = Boolean(supabaseUrl && supabaseKey)
+// Mock API mode always uses the offline auth client so no Google sign-in is needed
+export const supabaseConfigured = Boolean(supabaseUrl && supabaseKey) && !config.mockApi
 
 // Provide a safe fallback client when not configured (prevents runtime crashes)
 const createFallbackClient = () => {
@@ -21,8 +23,37 @@ const createFallbackClient = () => {
   } as any
 }
 
+// Offline client with a signed-in demo user for mock API mode
+const createMockAuthClient = () => {
+  const session = {
+    access_token: 'mock-access-token',
+    refresh_token: 'mock-refresh-token',
+    expires_at: Math.floor(Date.now() / 1000) + 3600,
+    user: {
+      id: 'mock-user',
+      email: 'demo@example.com',
+      user_metadata: { name: 'Demo User', full_name: 'Demo User' },
+    },
+  }
+  const sessionResult = async () => ({ data: { session }, error: null })
+  return {
+    auth: {
+      getSession: sessionResult,
+      onAuthStateChange: (cb: (event: string, current: typeof session) => void) => {
+        setTimeout(() => cb('INITIAL_SESSION', session), 0)
+        return { data: { subscription: { unsubscribe: () => {} } } }
+      },
+      signInWithOAuth: async () => ({ error: null }),
+      signOut: async () => ({ error: null }),
+      refreshSession: sessionResult,
+    }
+  } as unknown as SupabaseClient
+}
+
 // Create Supabase client (or fallback)
-export const supabase = supabaseConfigured
+export const supabase = config.mockApi
+  ? createMockAuthClient()
+  : supabaseConfigured
   ? createClient(supabaseUrl!, supabaseKey!, {
       auth: {
         persistSession: true,
@@ -42,6 +73,16 @@ export const authConfig = {
       redirectTo: `${import.meta.env.VITE_APP_URL || window.location.origin}/auth/callback`,
     },
   },
+  // Name of the popup used to sign in again without leaving the page
+  reloginWindowName: 'text-correction-relogin',
+}
+
+// Tables whose row changes are pushed to the usage widgets over Realtime, filtered to the signed-in user
+export const realtimeConfig = {
+  schema: 'public',
+  usageTable: 'usage_logs',
+  quotaTable: 'user_quotas',
+  userColumn: 'user_id',
 }
 
 // Types for user and session
@@ -1,5 +1,9 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
-import { supabase, supabaseConfigured, type User, type Session } from '../config/supabase'
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import { authConfig, supabase, supabaseConfigured, type User, type Session } from '../config/supabase'
+import { largeDocumentProgress } from '../services/largeDocumentProgress'
+import { queryClient } from '../services/queryClient'
+import { useTextCorrectionStore } from '../stores/textCorrectionStore'
+import { EMPTY_USER_DICTIONARY } from '../utils/userDictionary'
 import type { AuthError } from '@supabase/supabase-js'
 
 interface AuthContextType {
@@ -7,6 +11,7 @@ interface AuthContextType {
   session: Session | null
   loading: boolean
   signInWithGoogle: () => Promise<{ error: AuthError | null }>
+  signInWithGooglePopup: () => Promise<{ popup: Window | null; error: AuthError | null }>
   signOut: () => Promise<{ error: AuthError | null }>
 }
 
@@ -86,6 +91,21 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }, [])
 
+  // Cached usage and quota, and saved large-document progress, belong to the account that loaded them
+  const userId = user?.id ?? null
+  const previousUserIdRef = useRef<string | null>(null)
+  useEffect(() => {
+    const previousUserId = previousUserIdRef.current
+    previousUserIdRef.current = userId
+    if (!previousUserId || previousUserId === userId) return
+
+    console.log('Signed-in account changed, clearing cached account data')
+    queryClient.clear()
+    // The dictionary is sent with every request and preferences load again for the next account
+    useTextCorrectionStore.setState({ quota: null, userDictionary: EMPTY_USER_DICTIONARY, preferencesUserId: null })
+    largeDocumentProgress.clear()
+  }, [userId])
+
   const signInWithGoogle = async () => {
     setLoading(true)
     try {
@@ -111,6 +131,30 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }
 
+  // Sign in again in a popup so the page, and any correction run waiting on it, stays as it is
+  const signInWithGooglePopup = async () => {
+    try {
+      if (!supabaseConfigured) {
+        return { popup: null, error: { message: 'Supabase 未設定：請聯絡管理員或補上環境變數' } as unknown as AuthError }
+      }
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider: 'google',
+        options: {
+          redirectTo: authConfig.providers.google.redirectTo,
+          skipBrowserRedirect: true,
+        }
+      })
+      if (error || !data?.url) {
+        return { popup: null, error }
+      }
+      const popup = window.open(data.url, authConfig.reloginWindowName, 'width=500,height=650')
+      return { popup, error: null }
+    } catch (error) {
+      console.error('Error signing in with Google popup:', error)
+      return { popup: null, error: error as AuthError }
+    }
+  }
+
   const signOut = async () => {
     setLoading(true)
     try {
@@ -132,6 +176,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     session,
     loading,
     signInWithGoogle,
+    signInWithGooglePopup,
     signOut
   }
 
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { queryClient, type Query } from '@/services/queryClient';
+
+interface UseApiQueryOptions {
+  // Cached data younger than this is shown without a request
+  staleTime?: number;
+  // Refresh on the shared polling interval while mounted
+  poll?: boolean;
+}
+
+/**
+ * Read a query through the shared cache: cached data is returned at once and refreshed when stale
+ */
+export function useApiQuery<T>(query: Query<T>, { staleTime, poll = false }: UseApiQueryOptions = {}) {
+  const { key } = query;
+
+  // Queries are rebuilt on every render; the key identifies them and requests use the latest fetcher
+  const latestQuery = useRef(query);
+  latestQuery.current = query;
+  const stableQuery = useMemo<Query<T>>(() => ({ key, fetch: () => latestQuery.current.fetch() }), [key]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => queryClient.subscribe(stableQuery, onChange, { poll }),
+    [stableQuery, poll]
+  );
+  const state = useSyncExternalStore(subscribe, () => queryClient.getState<T>(key));
+
+  useEffect(() => {
+    // Failures are kept in the query state
+    queryClient.fetch(stableQuery, { staleTime }).catch(() => {});
+  }, [stableQuery, staleTime]);
+
+  const refetch = useCallback(
+    () => queryClient.refetch(stableQuery).catch(() => undefined),
+    [stableQuery]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: state.data === undefined && (state.isFetching || !state.error),
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
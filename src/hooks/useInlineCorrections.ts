@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiService } from '@/services/api';
+import { createApiError } from '@/services/apiErrors';
+import { useCorrectionOptions, useTextCorrectionStore } from '@/stores/textCorrectionStore';
+import type { TextCorrection } from '@/types';
+import { applyCorrectionsAccurately } from '@/utils/correctionEngine';
+import { applyUserDictionary } from '@/utils/userDictionary';
+import { convertChinese, getConversionTarget } from '@/utils/chineseConversion';
+import { debounce } from '@/utils/textProcessor';
+import { config } from '@/utils/config';
+
+interface LineCheck {
+  status: 'checking' | 'checked' | 'error';
+  corrections: TextCorrection[];
+}
+
+// Default pause after the last edit before changed lines are checked
+const CHECK_DELAY = 1000;
+
+const ignoreKey = (line: string, correction: TextCorrection) =>
+  `${line}\u0000${correction.position.start}:${correction.position.end}:${correction.corrected}`;
+
+/**
+ * Live checking for the inline editor
+ * Every line is a paragraph and is checked once per distinct text, so edits only re-check the lines they changed
+ */
+export function useInlineCorrections(text: string, delay: number = CHECK_DELAY) {
+  const correctionOptions = useCorrectionOptions();
+  const userDictionary = useTextCorrectionStore(state => state.userDictionary);
+
+  const [checks, setChecks] = useState<Map<string, LineCheck>>(() => new Map());
+  const [ignored, setIgnored] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // The debounced check reads the latest values without being recreated on every change
+  const latest = useRef({ text, checks, correctionOptions, userDictionary });
+  latest.current = { text, checks, correctionOptions, userDictionary };
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Bumped whenever the checks are reset, so results of requests started before are dropped
+  const generationRef = useRef(0);
+
+  const updateChecks = useCallback((entries: Array<[string, LineCheck]>) => {
+    setChecks(previous => {
+      const next = new Map(previous);
+      entries.forEach(([line, check]) => next.set(line, check));
+      return next;
+    });
+  }, []);
+
+  const checkLines = useCallback(async (lines: string[]) => {
+    const { correctionOptions: options, userDictionary: dictionary } = latest.current;
+    const generation = generationRef.current;
+    updateChecks(lines.map(line => [line, { status: 'checking', corrections: [] }]));
+
+    if (options.mode === 'conversion') {
+      // Conversion is table driven and runs locally
+      const target = getConversionTarget(options.language);
+      updateChecks(lines.map(line => [line, { status: 'checked', corrections: convertChinese(line, target).corrections }]));
+      return;
+    }
+
+    abortControllerRef.current ??= new AbortController();
+    const { signal } = abortControllerRef.current;
+
+    for (let start = 0; start < lines.length; start += config.maxParagraphs) {
+      const batch = lines.slice(start, start + config.maxParagraphs);
+      try {
+        const result = await apiService.correctParagraphs(
+          batch.map((line, index) => ({ id: `line-${index}`, text: line })),
+          { ...options, concurrent: Math.min(batch.length, 3), dictionary },
+          signal
+        );
+        if (generation !== generationRef.current) return;
+        if (!result.success || !result.data) {
+          throw createApiError(null, result);
+        }
+
+        const results = new Map(result.data.results.map(r => [r.paragraphId, r]));
+        updateChecks(batch.map((line, index): [string, LineCheck] => {
+          const lineResult = results.get(`line-${index}`);
+          if (lineResult?.status !== 'completed') return [line, { status: 'error', corrections: [] }];
+          // Dictionary terms are never changed, and positions are re-anchored to the line text
+          const applicable = applyUserDictionary(line, lineResult.corrections ?? [], dictionary);
+          return [line, { status: 'checked', corrections: applyCorrectionsAccurately(line, applicable).applied }];
+        }));
+        setError(null);
+      } catch (checkError) {
+        if (signal.aborted || generation !== generationRef.current) return;
+        console.error('❌ Inline check failed:', checkError);
+        updateChecks(batch.map(line => [line, { status: 'error', corrections: [] }]));
+        setError('即時檢查失敗，下次編輯時會再試一次');
+      }
+    }
+  }, [updateChecks]);
+
+  const scheduleCheck = useMemo(() => debounce((value: string) => {
+    const { checks: current } = latest.current;
+    const valueLines = new Set(value.split('\n'));
+    // Only lines still in the text are kept, so checks of edited-away lines do not pile up
+    if (Array.from(current.keys()).some(line => !valueLines.has(line))) {
+      setChecks(previous => new Map(Array.from(previous).filter(([line]) => valueLines.has(line))));
+    }
+    // Failed lines are retried; lines already checked or in flight are not sent again
+    const lines = Array.from(valueLines).filter(line => {
+      const status = current.get(line)?.status;
+      return line.trim() && (!status || status === 'error');
+    });
+    if (lines.length > 0) {
+      console.log(`✏️ Checking ${lines.length} changed lines`);
+      void checkLines(lines);
+    }
+  }, delay), [checkLines, delay]);
+
+  useEffect(() => {
+    scheduleCheck(text);
+  }, [text, scheduleCheck]);
+
+  // Different settings give different suggestions, so everything is checked again
+  useEffect(() => {
+    // Checks still in flight were made with the old settings
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    generationRef.current += 1;
+    latest.current.checks = new Map();
+    setChecks(new Map());
+    scheduleCheck(latest.current.text);
+  }, [correctionOptions, userDictionary, scheduleCheck]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  /**
+   * Suggestions for a line that are still open, or none while the line has not been checked
+   */
+  const getLineCorrections = useCallback((line: string): TextCorrection[] => {
+    const check = checks.get(line);
+    if (check?.status !== 'checked') return [];
+    return check.corrections.filter(correction => !ignored.has(ignoreKey(line, correction)));
+  }, [checks, ignored]);
+
+  const ignoreCorrection = useCallback((line: string, correction: TextCorrection) => {
+    setIgnored(previous => new Set(previous).add(ignoreKey(line, correction)));
+  }, []);
+
+  /**
+   * Apply one suggestion to a line and return the new line
+   * The line's other suggestions move along, so accepting does not trigger a new check
+   */
+  const acceptCorrection = useCallback((line: string, correction: TextCorrection): string => {
+    const { start, end } = correction.position;
+    const updated = line.slice(0, start) + correction.corrected + line.slice(end);
+    const shift = correction.corrected.length - (end - start);
+
+    const remaining = getLineCorrections(line)
+      .filter(other => other !== correction && (other.position.end <= start || other.position.start >= end))
+      .map(other => other.position.start >= end
+        ? { ...other, position: { start: other.position.start + shift, end: other.position.end + shift } }
+        : other);
+    updateChecks([[updated, { status: 'checked', corrections: remaining }]]);
+
+    return updated;
+  }, [getLineCorrections, updateChecks]);
+
+  const isChecking = Array.from(checks.values()).some(check => check.status === 'checking');
+
+  return { getLineCorrections, acceptCorrection, ignoreCorrection, isChecking, error };
+}
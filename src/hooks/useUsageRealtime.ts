@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUsageRealtimeStatus, useUsageRealtimeStore } from '@/stores/usageRealtimeStore';
+
+/**
+ * Keep the signed-in user's usage queries live over Realtime while mounted
+ */
+export function useUsageRealtime() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const connect = useUsageRealtimeStore(state => state.connect);
+  const disconnect = useUsageRealtimeStore(state => state.disconnect);
+
+  useEffect(() => {
+    if (!userId) return;
+    connect(userId);
+    return disconnect;
+  }, [userId, connect, disconnect]);
+
+  return useUsageRealtimeStatus();
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { UIEvent } from 'react';
+
+interface UseVirtualListOptions {
+  count: number;
+  // Height guess for rows that have not been rendered yet
+  estimateSize: (index: number) => number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+}
+
+/**
+ * Windowing for long lists of variable-height rows inside a scroll container
+ * Only the visible rows are rendered; padding stands in for the rest and rows are measured as they appear
+ */
+export const useVirtualList = ({ count, estimateSize, overscan = 6 }: UseVirtualListOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measuredSizes, setMeasuredSizes] = useState<Map<number, number>>(() => new Map());
+
+  // Measure rendered rows; rows removed from the page are dropped from observation
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      setMeasuredSizes(previous => {
+        let next = previous;
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          if (!element.isConnected) {
+            observer.unobserve(element);
+            continue;
+          }
+          const index = Number(element.dataset.index);
+          const size = element.getBoundingClientRect().height;
+          if (Number.isNaN(index) || previous.get(index) === size) continue;
+          if (next === previous) next = new Map(previous);
+          next.set(index, size);
+        }
+        return next;
+      });
+    });
+    observerRef.current = observer;
+    return () => observer.disconnect();
+  }, []);
+
+  // Track the viewport size of the scroll container
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // Row offsets: offsets[i] is the top of row i, offsets[count] the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (measuredSizes.get(i) ?? estimateSize(i));
+    }
+    return result;
+  }, [count, measuredSizes, estimateSize]);
+
+  const { start, end } = useMemo(() => {
+    // Last row whose top is at or above the given position
+    const findRow = (position: number) => {
+      let low = 0;
+      let high = count - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (offsets[middle] <= position) low = middle;
+        else high = middle - 1;
+      }
+      return Math.max(0, low);
+    };
+    if (count === 0) return { start: 0, end: 0 };
+    return {
+      start: Math.max(0, findRow(scrollTop) - overscan),
+      end: Math.min(count, findRow(scrollTop + viewportHeight) + 1 + overscan),
+    };
+  }, [count, offsets, scrollTop, viewportHeight, overscan]);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  // Ref callback for rendered rows; each row needs a data-index attribute
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  const indexes = useMemo(() => Array.from({ length: end - start }, (_, i) => start + i), [start, end]);
+
+  return {
+    containerRef,
+    onScroll,
+    measureElement,
+    indexes,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: (offsets[count] ?? 0) - (offsets[end] ?? 0),
+  };
+};
@@ -1,10 +1,21 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { config } from './utils/config';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-);
\ No newline at end of file
+async function bootstrap() {
+  // Serve the API from the browser when running without a backend
+  if (config.mockApi) {
+    const { installMockApi } = await import('./mocks');
+    installMockApi();
+  }
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  );
+}
+
+bootstrap();
@@ -0,0 +1,2 @@
+export { installMockApi } from './installMockApi';
+export { handleMockRequest, mockCorrect, MOCK_USER } from './mockBackend';
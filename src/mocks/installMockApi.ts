@@ -0,0 +1,68 @@
+// Fetch interceptor that routes API calls to the in-browser mock backend
+
+import { config } from '@/utils/config';
+import { handleMockRequest } from './mockBackend';
+
+// Simulated network latency so loading states and animations stay visible
+const MOCK_LATENCY_MS = 400;
+
+let installed = false;
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Replace window.fetch so requests to the API base URL never leave the browser
+ */
+export function installMockApi(): void {
+  if (installed) return;
+  installed = true;
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : input.toString(), window.location.origin);
+
+    const isApiCall = url.pathname.startsWith(config.apiBaseUrl) || url.pathname === '/health';
+    if (!isApiCall || url.origin !== window.location.origin) {
+      return originalFetch(input, init);
+    }
+
+    const method = (init?.method || request?.method || 'GET').toUpperCase();
+    const rawBody = init?.body ?? (request ? await request.clone().text() : undefined);
+    let body: unknown = undefined;
+    if (typeof rawBody === 'string' && rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        body = rawBody;
+      }
+    }
+
+    const signal = init?.signal ?? request?.signal;
+    await delay(MOCK_LATENCY_MS, signal);
+
+    const path = url.pathname === '/health' ? '/health' : url.pathname.slice(config.apiBaseUrl.length);
+    console.log(`%c🧪 Mock API ${method} ${path}`, 'color: #9C27B0; font-weight: bold;');
+
+    return handleMockRequest({ method, path, searchParams: url.searchParams, body, signal });
+  };
+
+  console.log('%c🧪 Mock API enabled - requests to the backend are served in-browser', 'color: #9C27B0; font-weight: bold;');
+}
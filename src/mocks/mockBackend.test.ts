@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { handleMockRequest } from './mockBackend';
+import { ERROR_MESSAGES, createApiError, getErrorMessage } from '@/services/apiErrors';
+
+const streamRequest = (signal?: AbortSignal) =>
+  handleMockRequest({
+    method: 'POST',
+    path: '/text/correct/stream',
+    searchParams: new URLSearchParams(),
+    body: {
+      paragraphs: [
+        { id: 'p1', text: '這是一个測試文檔，裡面有一些錯别字。' },
+        { id: 'p2', text: '我們希望能够通過人工智能來檢查。' },
+      ],
+    },
+    signal,
+  });
+
+describe('mock correction stream', () => {
+  it('stops emitting and errors the body when the request is aborted', async () => {
+    const controller = new AbortController();
+    const reader = (await streamRequest(controller.signal)).body!.getReader();
+
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toContain('paragraph-start');
+
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops emitting when the reader cancels', async () => {
+    const reader = (await streamRequest()).body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    // Give the producer time to reach its next send; it must not throw into a closed stream
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+describe('mock Google Docs import', () => {
+  it('reports an invalid link with the code the real API uses', async () => {
+    const response = await handleMockRequest({
+      method: 'POST',
+      path: '/google-docs/import',
+      searchParams: new URLSearchParams(),
+      body: { url: 'https://example.com/not-a-doc' },
+    });
+
+    const error = createApiError(response.status, await response.json());
+    expect(error.code).toBe('GOOGLE_DOCS_NOT_FOUND');
+    expect(getErrorMessage(error)).toBe(ERROR_MESSAGES.GOOGLE_DOCS_NOT_FOUND);
+  });
+});
@@ -0,0 +1,456 @@
+// In-browser mock backend used when VITE_MOCK_API=true
+// Implements the same routes as the real API with deterministic fake data
+
+import type { CorrectionLevel, GoogleDocsEdit, TextCorrection, ParagraphCorrectionResult } from '@/types';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  searchParams: URLSearchParams;
+  body: unknown;
+  // Aborting the request stops a streamed response, as it would over the network
+  signal?: AbortSignal | null;
+}
+
+interface CorrectionRule {
+  pattern: RegExp;
+  replacement: string;
+  type: TextCorrection['type'];
+}
+
+// Deterministic correction rules covering the mistakes used in demos
+const CORRECTION_RULES: CorrectionRule[] = [
+  { pattern: /一个/g, replacement: '一個', type: 'spelling' },
+  { pattern: /别/g, replacement: '別', type: 'spelling' },
+  { pattern: /够/g, replacement: '夠', type: 'spelling' },
+  { pattern: /这/g, replacement: '這', type: 'spelling' },
+  { pattern: /们/g, replacement: '們', type: 'spelling' },
+  { pattern: /说/g, replacement: '說', type: 'spelling' },
+  { pattern: /时/g, replacement: '時', type: 'spelling' },
+  { pattern: /在再/g, replacement: '再', type: 'grammar' },
+  { pattern: /的的/g, replacement: '的', type: 'grammar' },
+  { pattern: /人工智能/g, replacement: '人工智慧', type: 'style' },
+  { pattern: /(?<=[一-鿿]),(?=[一-鿿])/g, replacement: '，', type: 'punctuation' },
+  { pattern: /(?<=[一-鿿])\?/g, replacement: '？', type: 'punctuation' },
+];
+
+const MOCK_USER = {
+  id: 'mock-user',
+  email: 'demo@example.com',
+  name: 'Demo User',
+};
+
+const QUOTA_LIMITS = {
+  monthly_corrections: 500,
+  monthly_characters: 200000,
+  monthly_requests: 500,
+  daily_requests: 50,
+};
+
+// Mutable in-memory state so a session sees its own usage grow
+const usageState = {
+  dailyRequests: 3,
+  dailyCharacters: 1280,
+  monthlyRequests: 42,
+  monthlyCharacters: 18650,
+  totalRequests: 128,
+  totalCharacters: 64210,
+  totalTokens: 91540,
+  totalErrors: 2,
+  lastActivity: new Date().toISOString(),
+};
+
+let profilePreferences = {
+  language: 'zh-TW',
+  correctionLevel: 'standard',
+  notifications: true,
+  dictionary: { protectedTerms: [] as string[], preferredSpellings: [] as Array<{ variant: string; preferred: string }> },
+};
+let profileName = MOCK_USER.name;
+
+/**
+ * Produce deterministic corrections for a piece of text
+ */
+// Correction types each level reports, mirroring the level descriptions in the settings panel
+const LEVEL_TYPES: Record<CorrectionLevel, ReadonlyArray<TextCorrection['type']>> = {
+  basic: ['spelling', 'punctuation'],
+  standard: ['spelling', 'punctuation', 'grammar'],
+  advanced: ['spelling', 'punctuation', 'grammar', 'style'],
+};
+
+export function mockCorrect(
+  text: string,
+  level: CorrectionLevel = 'standard'
+): { correctedText: string; corrections: TextCorrection[] } {
+  const matches: TextCorrection[] = [];
+  const types = LEVEL_TYPES[level] ?? LEVEL_TYPES.standard;
+
+  for (const rule of CORRECTION_RULES) {
+    if (!types.includes(rule.type)) continue;
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // Skip matches overlapping a correction found by an earlier rule
+      if (matches.some(c => start < c.position.end && end > c.position.start)) continue;
+      matches.push({
+        original: match[0],
+        corrected: rule.replacement,
+        position: { start, end },
+        type: rule.type,
+        confidence: 0.95,
+      });
+    }
+  }
+
+  const corrections = matches.sort((a, b) => a.position.start - b.position.start);
+
+  let correctedText = '';
+  let lastIndex = 0;
+  for (const correction of corrections) {
+    correctedText += text.slice(lastIndex, correction.position.start) + correction.corrected;
+    lastIndex = correction.position.end;
+  }
+  correctedText += text.slice(lastIndex);
+
+  return { correctedText, corrections };
+}
+
+function recordUsage(characters: number) {
+  usageState.dailyRequests += 1;
+  usageState.monthlyRequests += 1;
+  usageState.totalRequests += 1;
+  usageState.dailyCharacters += characters;
+  usageState.monthlyCharacters += characters;
+  usageState.totalCharacters += characters;
+  usageState.totalTokens += Math.ceil(characters * 1.5);
+  usageState.lastActivity = new Date().toISOString();
+}
+
+function correctParagraph(paragraph: { id: string; text: string }, level?: CorrectionLevel): ParagraphCorrectionResult {
+  const { correctedText, corrections } = mockCorrect(paragraph.text, level);
+  return {
+    paragraphId: paragraph.id,
+    status: 'completed',
+    correctedText,
+    corrections,
+    processingTime: `${120 + paragraph.text.length}ms`,
+  };
+}
+
+function json(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return json({
+    success: false,
+    error: { code, message, timestamp: new Date().toISOString() },
+  }, status);
+}
+
+function startOfDay(offsetDays: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offsetDays);
+  return date;
+}
+
+function buildQuotaStatus() {
+  const monthReset = new Date();
+  monthReset.setMonth(monthReset.getMonth() + 1, 1);
+  monthReset.setHours(0, 0, 0, 0);
+
+  const usedByType = {
+    monthly_corrections: usageState.monthlyRequests,
+    monthly_characters: usageState.monthlyCharacters,
+    monthly_requests: usageState.monthlyRequests,
+    daily_requests: usageState.dailyRequests,
+  };
+
+  return (Object.keys(QUOTA_LIMITS) as Array<keyof typeof QUOTA_LIMITS>).map(type => {
+    const limit = QUOTA_LIMITS[type];
+    const used = usedByType[type];
+    return {
+      type,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetDate: (type === 'daily_requests' ? startOfDay(1) : monthReset).toISOString(),
+      tier: 'free',
+      percentageUsed: Math.min(100, (used / limit) * 100),
+      isExceeded: used >= limit,
+    };
+  });
+}
+
+function buildTrends(period: string) {
+  const days = period === 'day' ? 1 : period === 'week' ? 7 : 30;
+  return Array.from({ length: days }, (_, i) => {
+    const offset = i - days + 1;
+    // Simple repeating pattern keeps charts stable between reloads
+    const requests = offset === 0 ? usageState.dailyRequests : ((i * 7) % 11) + 1;
+    return {
+      period: startOfDay(offset).toISOString(),
+      totalRequests: requests,
+      totalCharacters: requests * 420,
+      totalTokens: requests * 630,
+      averageProcessingTime: 900 + ((i * 137) % 600),
+      errorCount: i % 9 === 0 ? 1 : 0,
+    };
+  });
+}
+
+function buildHistory(limit: number, offset: number) {
+  const total = 45;
+  const actionTypes = ['correction_request', 'text_processed', 'api_call'];
+  const data = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => {
+    const n = offset + i;
+    return {
+      id: `mock-history-${n + 1}`,
+      actionType: actionTypes[n % actionTypes.length],
+      textLength: 200 + ((n * 53) % 900),
+      tokensUsed: 300 + ((n * 71) % 1200),
+      createdAt: new Date(Date.now() - n * 3 * 60 * 60 * 1000).toISOString(),
+      processingTimeMs: 800 + ((n * 97) % 1500),
+      errorCode: n % 15 === 7 ? 'UPSTREAM_TIMEOUT' : undefined,
+      featureUsed: n % 4 === 0 ? 'google-docs' : 'direct-text',
+    };
+  });
+
+  return {
+    success: true,
+    data,
+    pagination: { total, limit, offset, hasMore: offset + limit < total },
+  };
+}
+
+function buildCorrectionStream(paragraphs: Array<{ id: string; text: string }>, level?: CorrectionLevel, signal?: AbortSignal | null): Response {
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: string, data: unknown) => {
+    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+  };
+
+  // Set once the reader cancels or the request is aborted; nothing is emitted after that
+  let stopped = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // An aborted fetch errors its body stream with an AbortError
+      const onAbort = () => {
+        if (stopped) return;
+        stopped = true;
+        controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        let totalCorrections = 0;
+        for (const paragraph of paragraphs) {
+          if (stopped) return;
+          send(controller, 'paragraph-start', { paragraphId: paragraph.id });
+          const result = correctParagraph(paragraph, level);
+          for (const correction of result.corrections || []) {
+            await new Promise(resolve => setTimeout(resolve, 80));
+            if (stopped) return;
+            send(controller, 'correction', { paragraphId: paragraph.id, correction });
+          }
+          totalCorrections += result.corrections?.length || 0;
+          send(controller, 'paragraph', result);
+        }
+        send(controller, 'done', {
+          summary: {
+            totalParagraphs: paragraphs.length,
+            completedCount: paragraphs.length,
+            totalCorrections,
+          },
+        });
+        stopped = true;
+        controller.close();
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    },
+    cancel() {
+      stopped = true;
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+// Documents handed out by the import route, so write-back can check ranges against them
+const importedDocuments = new Map<string, Array<{ id: string; text: string; style: string }>>();
+
+/**
+ * Stand-in for the Docs API batchUpdate: accept edits whose range still matches the imported text
+ */
+function applyGoogleDocsEdits(documentId: string, edits: GoogleDocsEdit[]) {
+  const paragraphs = importedDocuments.get(documentId) ?? [];
+  const skipped: Array<{ paragraphId: string; startIndex: number; reason: string }> = [];
+
+  for (const edit of edits) {
+    const paragraph = paragraphs.find(p => p.id === edit.paragraphId);
+    if (!paragraph) {
+      skipped.push({ paragraphId: edit.paragraphId, startIndex: edit.startIndex, reason: 'Paragraph not found' });
+    } else if (paragraph.text.slice(edit.startIndex, edit.endIndex) !== edit.original) {
+      skipped.push({ paragraphId: edit.paragraphId, startIndex: edit.startIndex, reason: 'Range no longer matches document text' });
+    }
+  }
+
+  return { documentId, applied: edits.length - skipped.length, skipped };
+}
+
+/**
+ * Route a request to the matching mock handler
+ */
+export async function handleMockRequest({ method, path, searchParams, body, signal }: MockRequest): Promise<Response> {
+  const payload = (body ?? {}) as Record<string, unknown>;
+  const level = (payload.options as { correctionLevel?: CorrectionLevel } | undefined)?.correctionLevel;
+
+  if (path === '/health') {
+    return json({ status: 'ok', timestamp: new Date().toISOString() });
+  }
+
+  if (method === 'POST' && path === '/text/correct') {
+    const text = String(payload.text ?? '');
+    const { correctedText, corrections } = mockCorrect(text, level);
+    recordUsage(text.length);
+    return json({
+      success: true,
+      data: {
+        correctedText,
+        corrections,
+        statistics: {
+          totalChars: text.length,
+          correctionCount: corrections.length,
+          processingTime: `${120 + text.length}ms`,
+        },
+      },
+    });
+  }
+
+  if (method === 'POST' && path === '/text/batch-correct') {
+    const paragraphs = (payload.paragraphs ?? []) as Array<{ id: string; text: string }>;
+    const results = paragraphs.map(p => correctParagraph(p, level));
+    recordUsage(paragraphs.reduce((sum, p) => sum + p.text.length, 0));
+    return json({
+      success: true,
+      data: {
+        results,
+        summary: {
+          totalParagraphs: paragraphs.length,
+          completedCount: results.length,
+          totalCorrections: results.reduce((sum, r) => sum + (r.corrections?.length || 0), 0),
+        },
+      },
+    });
+  }
+
+  if (method === 'POST' && path === '/text/correct/stream') {
+    const paragraphs = (payload.paragraphs ?? []) as Array<{ id: string; text: string }>;
+    recordUsage(paragraphs.reduce((sum, p) => sum + p.text.length, 0));
+    return buildCorrectionStream(paragraphs, level, signal);
+  }
+
+  if (method === 'POST' && path === '/google-docs/import') {
+    const url = String(payload.url ?? '');
+    if (!/docs\.google\.com\/document\/d\//.test(url)) {
+      return errorResponse(404, 'GOOGLE_DOCS_NOT_FOUND', 'Document not found');
+    }
+    const paragraphs = [
+      { id: 'p.title', text: '示範文件：AI 校正測試', style: 'HEADING_1' },
+      { id: 'p.1', text: '這是一个測試文檔，裡面有一些錯别字和語法問題。', style: 'NORMAL_TEXT' },
+      { id: 'p.2', text: '我們希望能够通過人工智能來檢查並修正這些錯誤。', style: 'NORMAL_TEXT' },
+      { id: 'p.h2', text: '人工智能的一个應用', style: 'HEADING_2' },
+      { id: 'p.3', text: '錯别字', style: 'LIST_ITEM' },
+      { id: 'p.4', text: '標點符號,全形與半形', style: 'LIST_ITEM' },
+    ];
+    importedDocuments.set(url.match(/\/document\/d\/([a-zA-Z0-9-_]+)/)?.[1] ?? '', paragraphs);
+    return json({
+      success: true,
+      data: {
+        title: '示範文件',
+        content: paragraphs.map(p => p.text).join('\n\n'),
+        paragraphs,
+        metadata: {
+          lastModified: startOfDay(-1).toISOString(),
+          wordCount: paragraphs.reduce((sum, p) => sum + p.text.length, 0),
+        },
+      },
+    });
+  }
+
+  if (method === 'POST' && path === '/google-docs/apply') {
+    const documentId = String(payload.documentId ?? '');
+    if (!importedDocuments.has(documentId)) {
+      return errorResponse(404, 'DOCUMENT_NOT_FOUND', 'Document not found');
+    }
+    const edits = (payload.edits ?? []) as GoogleDocsEdit[];
+    return json({ success: true, data: applyGoogleDocsEdits(documentId, edits) });
+  }
+
+  if (method === 'GET' && path === '/usage/current') {
+    return json({ success: true, data: { ...usageState, averageProcessingTime: 1180 } });
+  }
+
+  if (method === 'GET' && path === '/usage/history') {
+    const limit = Number(searchParams.get('limit') ?? 10);
+    const offset = Number(searchParams.get('offset') ?? 0);
+    return json(buildHistory(limit, offset));
+  }
+
+  if (method === 'GET' && path === '/usage/quota/status') {
+    return json({ success: true, data: buildQuotaStatus() });
+  }
+
+  if (method === 'GET' && path === '/usage/trends') {
+    return json({ success: true, data: buildTrends(searchParams.get('period') ?? 'month') });
+  }
+
+  if (path === '/user/profile') {
+    if (method === 'PUT') {
+      profileName = String(payload.name ?? profileName);
+      profilePreferences = { ...profilePreferences, ...(payload.preferences as object) };
+    }
+    return json({
+      success: true,
+      data: {
+        profile: {
+          ...MOCK_USER,
+          name: profileName,
+          provider: 'google',
+          createdAt: '2024-01-15T08:00:00.000Z',
+          lastSignIn: usageState.lastActivity,
+          emailConfirmed: true,
+          preferences: profilePreferences,
+        },
+        usage: {
+          currentMonth: {
+            tokensUsed: usageState.totalTokens,
+            totalRequests: usageState.monthlyRequests,
+            totalCorrections: usageState.monthlyRequests * 3,
+          },
+          quota: {
+            monthlyTokenLimit: 500000,
+            remaining: 500000 - usageState.totalTokens,
+          },
+          lastActivity: usageState.lastActivity,
+        },
+      },
+    });
+  }
+
+  return errorResponse(404, 'NOT_FOUND', `Mock API has no handler for ${method} ${path}`);
+}
+
+export { MOCK_USER };
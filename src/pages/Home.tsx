@@ -1,30 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Layout, TextInputComponent, TextComparison, ScrambledTextEffect, TypewriterEffect, DecryptedTextEffect, TextShuffleEffect } from '@/components';
+import { Layout, TextInputComponent, InlineEditor, QuotaPreflightDialog, CorrectionSettingsPanel, TextComparison, CorrectionReviewPanel, ExportMenu, GoogleDocsWriteBackPanel, StructuredDocumentView, LargeDocumentResultsView, ProgressIndicator, ScrambledTextEffect, TypewriterEffect, DecryptedTextEffect, TextShuffleEffect } from '@/components';
 import NeonButton, { PulseButton, ScanButton } from '@/components/NeonButton';
 import FloatingParticles from '@/components/FloatingParticles';
-import { useTextCorrectionStore, useInputText, useGoogleDocsUrl, useInputMethod, useIsCompleted, useParagraphs, useProcessingProgress } from '@/stores/textCorrectionStore';
+import { useTextCorrectionStore, useInputText, useGoogleDocsUrl, useInputMethod, useIsCompleted, useParagraphs, useProcessingProgress, useReviewMode, useIsProcessing, useIsStreaming, useGoogleDocsSource, useLastRunOptions, useLargeDocument, useQuotaPrompt } from '@/stores/textCorrectionStore';
+import type { QuotaDecision } from '@/stores/textCorrectionStore';
 import { apiService } from '@/services/api';
+import { createApiError } from '@/services/apiErrors';
+import { notify, notifyError } from '@/stores/notificationStore';
+import { largeDocumentProgress, type SavedLargeDocument } from '@/services/largeDocumentProgress';
+import { config } from '@/utils/config';
+import { formatCorrectionOptions } from '@/utils/correctionOptions';
+import { createParagraphsFromSource, reassembleDocument, validateTextInput } from '@/utils/textProcessor';
+import { renderCorrectedHtml } from '@/utils/richText';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/hooks/useAuth';
 import { LoginButton } from '@/components/auth';
+import { HistoryPanel } from '@/components/history';
+
+// The processing animation only shows the start of very long inputs
+const ANIMATION_TEXT_LIMIT = 2000;
 
 const Home: React.FC = () => {
   const { theme } = useTheme();
   const { user, isAuthenticated, loading: authLoading } = useAuth();
   const inputMethod = useInputMethod();
+  // Plain and formatted pasted text share the same processing flow; only Google Docs imports differ
+  const isTextInput = inputMethod !== 'google-docs';
   const inputText = useInputText();
   const googleDocsUrl = useGoogleDocsUrl();
   const isCompleted = useIsCompleted();
   const paragraphs = useParagraphs();
   const progress = useProcessingProgress();
-  const { startProcessing, resetState } = useTextCorrectionStore();
+  const reviewMode = useReviewMode();
+  const googleDocsSource = useGoogleDocsSource();
+  const lastRunOptions = useLastRunOptions();
+  const isProcessing = useIsProcessing();
+  const isStreaming = useIsStreaming();
+  const largeDocument = useLargeDocument();
+  const { startProcessing, confirmQuota, resolveQuotaPrompt, resetState, setReviewMode, loadUserPreferences, retryFailedParagraphs, resumeProcessing, resumeSavedLargeDocument } = useTextCorrectionStore();
 
   // Demo state for text comparison and animation
   const [showDemo, setShowDemo] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [showDifferences, setShowDifferences] = useState(false);
+  const [showWriteBack, setShowWriteBack] = useState(false);
+  // Inline editor mode checks while typing instead of on demand
+  const [editorMode, setEditorMode] = useState(false);
+  // Pre-flight result waiting for the user to decide, when a run would exceed or nearly exhaust the quota
+  const quotaPrompt = useQuotaPrompt();
   const [demoOriginal] = useState('這是一个測試文檔，裡面有一些錯别字和語法問題。我們希望能够通過人工智能來檢查並修正這些錯誤。');
   const [demoCorrected] = useState('這是一個測試文檔，裡面有一些錯別字和語法問題。我們希望能夠通過人工智慧來檢查並修正這些錯誤。');
   
@@ -40,6 +65,58 @@ const Home: React.FC = () => {
   // Results display state (no animation, direct display)
   const [resultsAnimationComplete, setResultsAnimationComplete] = useState(false);
 
+  // Results rebuilt around the original formatting; unfinished paragraphs keep their original text
+  const originalDocument = useMemo(() => reassembleDocument(inputText, paragraphs, p => p.text), [inputText, paragraphs]);
+  const correctedDocument = useMemo(() => reassembleDocument(inputText, paragraphs), [inputText, paragraphs]);
+  const richTextSource = useTextCorrectionStore(state => state.richTextSource);
+  const hasRichText = Boolean(richTextSource) && paragraphs.some(p => p.richText);
+
+  // Copy the corrected text with its pasted formatting; editors that only take plain text get the plain version
+  const handleCopyRichText = async () => {
+    if (!richTextSource) return;
+    const html = renderCorrectedHtml(richTextSource, paragraphs);
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/html': new Blob([html], { type: 'text/html' }),
+          'text/plain': new Blob([correctedDocument], { type: 'text/plain' }),
+        }),
+      ]);
+      console.log('📋 Copied formatted corrected text to clipboard');
+    } catch (error) {
+      console.warn('Failed to copy formatted text, copying plain text instead:', error);
+      await navigator.clipboard.writeText(correctedDocument);
+    }
+  };
+
+  // Large document left unfinished by a previous visit
+  const [savedLargeDocument, setSavedLargeDocument] = useState<SavedLargeDocument | null>(null);
+  const userId = user?.id;
+  useEffect(() => {
+    // Only the user who started the document is offered to resume it
+    setSavedLargeDocument(userId ? largeDocumentProgress.load(userId) : null);
+  }, [userId]);
+
+  const handleResumeSavedLargeDocument = () => {
+    if (!savedLargeDocument) return;
+    setSavedLargeDocument(null);
+    resumeSavedLargeDocument(savedLargeDocument).catch(error => {
+      console.error('❌ Failed to resume large document:', error);
+    });
+  };
+
+  const handleDiscardSavedLargeDocument = () => {
+    largeDocumentProgress.clear();
+    setSavedLargeDocument(null);
+  };
+
+  // Saved preferences (dictionary) apply to every correction request
+  useEffect(() => {
+    if (isAuthenticated && user) {
+      loadUserPreferences(user.id);
+    }
+  }, [isAuthenticated, user, loadUserPreferences]);
+
   // Trigger results display when processing completes (no animation)
   useEffect(() => {
     if (isCompleted && paragraphs.length > 0 && !resultsAnimationComplete && !showProcessingScramble && !showGoogleDocsAnimation) {
@@ -68,6 +145,39 @@ const Home: React.FC = () => {
     }
   }, [isCompleted, showProcessingScramble]);
 
+  // Show the scrambled text effect and start correcting immediately (don't wait for the animation)
+  const beginTextProcessing = (limitToQuota = false) => {
+    console.log('📱 Setting showProcessingScramble to TRUE');
+    console.log('📍 Current state:', { showProcessingScramble, showDemo });
+    setIsProcessingStarted(true);
+    setShowProcessingScramble(true);
+
+    console.log('🚀 Starting batch-correct request immediately');
+    startProcessing({ limitToQuota }).then(() => {
+      console.log('✅ Processing completed successfully');
+      setIsProcessingStarted(false);
+      // Cancelled before any paragraph finished: there are no results for the animation to hand over to
+      if (!useTextCorrectionStore.getState().isCompleted) {
+        setShowProcessingScramble(false);
+      }
+      console.groupEnd();
+    }).catch((error) => {
+      console.error('❌ Processing failed:', error);
+      setIsProcessingStarted(false);
+      console.groupEnd();
+    });
+
+    // Animation will continue until processing is complete
+  };
+
+  // The run waiting on the dialog continues from the store once a decision is made
+  const handleQuotaDecision = (decision: QuotaDecision) => {
+    if (quotaPrompt && decision === 'fitting') {
+      notify('info', `將處理前 ${quotaPrompt.fittingParagraphs} 個段落，其餘 ${quotaPrompt.usage.paragraphs - quotaPrompt.fittingParagraphs} 個段落待額度重置後可重試`);
+    }
+    resolveQuotaPrompt(decision);
+  };
+
   const handleStartProcessing = async () => {
     console.group(`%c🎬 User Started Processing`, 'color: #E91E63; font-weight: bold; font-size: 16px;');
     console.log('🎯 Input Method:', inputMethod);
@@ -75,12 +185,12 @@ const Home: React.FC = () => {
     // Check authentication first
     if (!isAuthenticated) {
       console.warn('❌ User not authenticated');
-      alert('請先登入才能使用文字校正功能');
+      notify('warning', '請先登入才能使用文字校正功能');
       console.groupEnd();
       return;
     }
     
-    if (inputMethod === 'direct') {
+    if (isTextInput) {
       console.log('📝 Direct Text Input:');
       console.log('  - Length:', inputText.trim().length);
       console.log('  - Preview:', inputText.trim().substring(0, 100) + (inputText.length > 100 ? '...' : ''));
@@ -103,26 +213,14 @@ const Home: React.FC = () => {
     console.log('🚀 Initiating text processing...');
     console.log('⏰ Timestamp:', new Date().toISOString());
     
-    // Show scrambled text effect for direct input and start processing immediately
-    if (inputMethod === 'direct' && inputText.trim()) {
-      console.log('📱 Setting showProcessingScramble to TRUE');
-      console.log('📍 Current state:', { showProcessingScramble, showDemo });
-      setIsProcessingStarted(true);
-      setShowProcessingScramble(true);
-      
-      // Start processing immediately (don't wait for animation)
-      console.log('🚀 Starting batch-correct request immediately');
-      startProcessing().then(() => {
-        console.log('✅ Processing completed successfully');
-        setIsProcessingStarted(false);
+    if (isTextInput && inputText.trim()) {
+      // Check the run against the remaining quota before anything is sent
+      const { proceed, limitToQuota } = await confirmQuota();
+      if (!proceed) {
         console.groupEnd();
-      }).catch((error) => {
-        console.error('❌ Processing failed:', error);
-        setIsProcessingStarted(false);
-        console.groupEnd();
-      });
-      
-      // Animation will continue until processing is complete
+        return;
+      }
+      beginTextProcessing(limitToQuota);
     } else {
       // For Google Docs, first fetch content then show animation
       console.log('🔗 Processing Google Docs - fetching content first');
@@ -139,13 +237,27 @@ const Home: React.FC = () => {
         console.log('📦 API response:', importResult);
         
         if (!importResult.success || !importResult.data) {
-          const errorMsg = importResult.error?.message || 'Failed to import Google Docs';
-          console.error('❌ Import failed:', errorMsg);
-          throw new Error(errorMsg);
+          console.error('❌ Import failed:', importResult.error);
+          throw createApiError(null, importResult);
         }
         
-        const fetchedText = importResult.data.content;
+        const importedDocument = importResult.data;
+        const fetchedText = importedDocument.content;
         console.log('✅ Google Docs content fetched, length:', fetchedText.length);
+
+        // Documents that cannot be corrected fail before the quota pre-flight check asks about them
+        const validation = validateTextInput(fetchedText, config.maxLargeDocumentLength);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        // Check the imported document against the remaining quota before the animation starts
+        const { proceed, limitToQuota } = await confirmQuota(createParagraphsFromSource(importedDocument.paragraphs));
+        if (!proceed) {
+          setIsGoogleDocsLoading(false);
+          console.groupEnd();
+          return;
+        }
         
         // Store the fetched text and show animation
         setGoogleDocsText(fetchedText);
@@ -159,13 +271,12 @@ const Home: React.FC = () => {
           setShowGoogleDocsAnimation(false);
           
           try {
-            // Now do the actual processing with the fetched text
-            const store = useTextCorrectionStore.getState();
-            store.setInputText(fetchedText);
-            await store.processDirectText();
+            // Now do the actual processing with the fetched document, keeping its structure
+            await useTextCorrectionStore.getState().processGoogleDocsImport(googleDocsUrl, importedDocument, { limitToQuota });
             console.log('✅ Google Docs processing completed successfully');
           } catch (processingError) {
             console.error('❌ Google Docs processing failed:', processingError);
+            notifyError(processingError, 'Google Docs 處理失敗');
           } finally {
             setIsProcessingStarted(false);
             console.groupEnd();
@@ -174,15 +285,7 @@ const Home: React.FC = () => {
         
       } catch (error) {
         console.error('❌ Google Docs fetch failed:', error);
-        
-        // Show detailed error to user
-        let userMessage = 'Google Docs 導入失敗';
-        if (error instanceof Error) {
-          userMessage = `Google Docs 導入失敗: ${error.message}`;
-        }
-        
-        // Use browser alert for now - in production you might want a proper notification system
-        alert(userMessage);
+        notifyError(error, 'Google Docs 導入失敗');
         
         // Reset all loading states
         setIsGoogleDocsLoading(false);
@@ -193,7 +296,7 @@ const Home: React.FC = () => {
     }
   };
 
-  const canStartProcessing = isAuthenticated && (inputMethod === 'direct' 
+  const canStartProcessing = isAuthenticated && (isTextInput 
     ? inputText.trim().length >= 10 
     : googleDocsUrl.trim().length > 0);
 
@@ -244,12 +347,34 @@ const Home: React.FC = () => {
               </p>
             </div>
 
+            {/* Check mode / inline editor switch */}
+            {!isProcessingActive && (
+              <div className="flex justify-center gap-2 mb-4">
+                {([[false, '檢查模式'], [true, '即時編輯']] as const).map(([mode, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => setEditorMode(mode)}
+                    aria-pressed={editorMode === mode}
+                    className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+                      editorMode === mode
+                        ? 'bg-[#111215] text-white'
+                        : theme === 'light'
+                          ? 'border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA]'
+                          : 'border border-gray-700 text-gray-300 hover:bg-gray-800'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Text Input / Processing Animation */}
             <div className="mb-8">
               <AnimatePresence mode="wait">
               {(() => {
                 const shouldShowProcessing = 
-                  (showProcessingScramble && inputMethod === 'direct') ||
+                  (showProcessingScramble && isTextInput) ||
                   (showGoogleDocsAnimation && inputMethod === 'google-docs');
                 console.log('🎯 Processing animation check:', { 
                   shouldShowProcessing, 
@@ -284,7 +409,8 @@ const Home: React.FC = () => {
                       }`}>
                         {(() => {
                           // Get the text to animate - either from direct input or Google Docs
-                          const animationText = inputMethod === 'google-docs' ? googleDocsText : inputText;
+                          const fullText = inputMethod === 'google-docs' ? googleDocsText : inputText;
+                          const animationText = fullText.length > ANIMATION_TEXT_LIMIT ? `${fullText.slice(0, ANIMATION_TEXT_LIMIT)}…` : fullText;
                           const textLength = animationText?.length || 0;
                           const lineCount = animationText?.split('\n').length || 1;
                           
@@ -389,59 +515,102 @@ const Home: React.FC = () => {
                   className="mb-8 w-full max-w-3xl mx-auto"
                   style={{position: 'relative'}}
                 >
-                  <TextInputComponent />
+                  {editorMode ? <InlineEditor /> : <TextInputComponent />}
+                  <CorrectionSettingsPanel className="mt-4" />
                 </motion.div>
               )}
             </AnimatePresence>
             </div>
 
-            {/* 【區塊 D：處理按鈕區】Processing Button */}
-            <div className="flex flex-col justify-center items-center w-full mb-8 gap-4">
-              {!isAuthenticated && !authLoading && (
-                <div className="text-center mb-4">
-                  <p className={`text-sm mb-3 ${
-                    theme === 'dark' ? 'text-gray-300' : 'text-[#6B6B6B]'
-                  }`}>
-                    請先登入以使用文字校正功能
-                  </p>
-                  <LoginButton />
+            {/* Unfinished large document from a previous visit */}
+            {!editorMode && savedLargeDocument && !isProcessing && !largeDocument && (
+              <div className="w-full max-w-3xl mx-auto p-4 border border-yellow-500/40 bg-yellow-500/10 rounded-lg mb-8 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-yellow-600 text-sm">
+                  上次的大型文件（{savedLargeDocument.largeDocument.totalCharacters.toLocaleString()} 字元）尚未處理完成，
+                  已完成 {savedLargeDocument.paragraphs.filter(p => p.status === 'completed').length} / {savedLargeDocument.paragraphs.length} 個段落
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleResumeSavedLargeDocument}
+                    disabled={!isAuthenticated}
+                    className="inline-flex items-center gap-2 rounded-lg border border-yellow-500/50 text-yellow-700 hover:bg-yellow-500/10 px-3 py-1.5 text-sm disabled:opacity-50"
+                  >
+                    繼續處理
+                  </button>
+                  <button
+                    onClick={handleDiscardSavedLargeDocument}
+                    className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-1.5 text-sm"
+                  >
+                    捨棄
+                  </button>
                 </div>
-              )}
+              </div>
+            )}
+
+            {/* 【區塊 D：處理按鈕區】Processing Button */}
+            {!editorMode && (
+              <div className="flex flex-col justify-center items-center w-full mb-8 gap-4">
+                {!isAuthenticated && !authLoading && (
+                  <div className="text-center mb-4">
+                    <p className={`text-sm mb-3 ${
+                      theme === 'dark' ? 'text-gray-300' : 'text-[#6B6B6B]'
+                    }`}>
+                      請先登入以使用文字校正功能
+                    </p>
+                    <LoginButton />
+                  </div>
+                )}
               
-              <PulseButton 
-                onClick={handleStartProcessing}
-                disabled={!canStartProcessing || isProcessingActive}
-                className="w-full sm:w-auto"
-              >
-                {isProcessingActive ? (
-                  inputMethod === 'google-docs' && isGoogleDocsLoading ? (
-                    <span className="flex items-center gap-2">
-                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      正在處理 Google Doc...
-                    </span>
-                  ) : showProcessingScramble || showGoogleDocsAnimation ? (
-                    <span className="flex items-center gap-2">
-                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      {inputMethod === 'google-docs' ? '分析 Google Docs 文字中...' : '分析文字中...'}
-                    </span>
+                <PulseButton 
+                  onClick={handleStartProcessing}
+                  disabled={!canStartProcessing || isProcessingActive}
+                  className="w-full sm:w-auto"
+                >
+                  {isProcessingActive ? (
+                    inputMethod === 'google-docs' && isGoogleDocsLoading ? (
+                      <span className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        正在處理 Google Doc...
+                      </span>
+                    ) : showProcessingScramble || showGoogleDocsAnimation ? (
+                      <span className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        {inputMethod === 'google-docs' ? '分析 Google Docs 文字中...' : '分析文字中...'}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        處理中...
+                      </span>
+                    )
+                  ) : !isAuthenticated ? (
+                    '請先登入'
                   ) : (
-                    <span className="flex items-center gap-2">
-                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      處理中...
-                    </span>
-                  )
-                ) : !isAuthenticated ? (
-                  '請先登入'
-                ) : (
-                  inputMethod === 'google-docs' ? '處理 Google Doc' : '檢查文字'
-                )}
-              </PulseButton>
+                    inputMethod === 'google-docs' ? '處理 Google Doc' : '檢查文字'
+                  )}
+                </PulseButton>
               
-            </div>
+              </div>
+            )}
+
+            {/* Live progress while paragraphs are being corrected */}
+            {isProcessing && !editorMode && <ProgressIndicator className="mb-8" />}
+
 
+            <AnimatePresence>
+              {quotaPrompt && (
+                <QuotaPreflightDialog
+                  check={quotaPrompt}
+                  onContinue={() => handleQuotaDecision('continue')}
+                  onProcessFitting={() => handleQuotaDecision('fitting')}
+                  onCancel={() => handleQuotaDecision('cancel')}
+                />
+              )}
+            </AnimatePresence>
 
             {/* 【區塊 E：結果顯示區】Results Display */}
-            {isCompleted && paragraphs.length > 0 && !showProcessingScramble && !showGoogleDocsAnimation && (
+            {!editorMode && ((isCompleted && paragraphs.length > 0 && !showProcessingScramble && !showGoogleDocsAnimation) ||
+              ((isStreaming || (isProcessing && largeDocument)) && paragraphs.some(p => p.status === 'completed'))) && (
               <div id="result-section" className="mb-8">
                 <div className="tech-card glass">
                   <div className="p-6" style={{
@@ -450,16 +619,19 @@ const Home: React.FC = () => {
                     <div className="flex items-center justify-between">
                       <h3 className="text-xl font-semibold flex items-center">
                         <div className="status-dot success mr-3"></div>
-                        <span style={{color: theme === 'light' ? '#111215' : 'var(--text-secondary)'}}>分析完成！以下展示校正結果</span>
+                        <span style={{color: theme === 'light' ? '#111215' : 'var(--text-secondary)'}}>
+                          {isStreaming || isProcessing ? '校正進行中，結果即時更新' : '分析完成！以下展示校正結果'}
+                        </span>
+                        {lastRunOptions && (
+                          <span className="ml-3 px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                            {formatCorrectionOptions(lastRunOptions)}
+                          </span>
+                        )}
                       </h3>
                       <div className="flex gap-3">
                         <button
                           onClick={() => {
-                            const correctedText = paragraphs
-                              .filter(p => p.status === 'completed')
-                              .map(p => p.correctedText || p.text)
-                              .join('\n\n');
-                            navigator.clipboard.writeText(correctedText);
+                            navigator.clipboard.writeText(correctedDocument);
                             console.log('📋 Copied corrected text to clipboard');
                           }}
                           className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm"
@@ -470,6 +642,40 @@ const Home: React.FC = () => {
                           </svg>
                           <span>複製結果</span>
                         </button>
+                        {hasRichText && !isStreaming && (
+                          <button
+                            onClick={handleCopyRichText}
+                            className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm"
+                          >
+                            <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor">
+                              <path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" />
+                            </svg>
+                            <span>複製格式文字</span>
+                          </button>
+                        )}
+                        {paragraphs.some(p => p.corrections.length > 0) && (
+                          <button
+                            onClick={() => setReviewMode(!reviewMode)}
+                            className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm"
+                          >
+                            <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                            <span>{reviewMode ? '結束審閱' : '逐項審閱'}</span>
+                          </button>
+                        )}
+                        {config.enableExportFeatures && !isStreaming && <ExportMenu />}
+                        {googleDocsSource && !isStreaming && (
+                          <button
+                            onClick={() => setShowWriteBack(!showWriteBack)}
+                            className="inline-flex items-center gap-2 rounded-lg border border-[#D0D7DE] bg-white text-[#1F2328] hover:bg-[#F6F8FA] px-3 py-2 text-sm"
+                          >
+                            <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor">
+                              <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
+                            </svg>
+                            <span>{showWriteBack ? '關閉寫回' : '寫回 Google Docs'}</span>
+                          </button>
+                        )}
                         <button
                           onClick={() => setShowDifferences(!showDifferences)}
                           className="inline-flex items-center gap-2 rounded-lg bg-[#111215] text-white hover:brightness-110 px-3 py-2 text-sm"
@@ -484,25 +690,62 @@ const Home: React.FC = () => {
                   </div>
                   <div className="p-6">
                     <div className="space-y-6">
+                      {!isProcessing && paragraphs.some(p => p.status === 'pending') && (
+                        <div className="p-4 border border-yellow-500/40 bg-yellow-500/10 rounded-lg mb-6 flex flex-wrap items-center justify-between gap-3">
+                          <p className="text-yellow-600 text-sm">
+                            {paragraphs.some(p => p.status === 'pending' && !p.skippedForQuota)
+                              ? `處理已取消，尚有 ${paragraphs.filter(p => p.status === 'pending').length} 個段落未處理，已完成的段落保留如下`
+                              : `已達剩餘配額，略過 ${paragraphs.filter(p => p.skippedForQuota).length} 個段落，配額重置後可繼續處理`}
+                          </p>
+                          <button
+                            onClick={() => resumeProcessing()}
+                            className="inline-flex items-center gap-2 rounded-lg border border-yellow-500/50 text-yellow-700 hover:bg-yellow-500/10 px-3 py-1.5 text-sm"
+                          >
+                            繼續處理
+                          </button>
+                        </div>
+                      )}
+
                       {paragraphs.some(p => p.status === 'error') && (
-                        <div className="p-4 bg-gradient-to-r from-danger-neon/10 to-transparent border border-danger-neon/30 rounded-lg mb-6">
+                        <div className="p-4 bg-gradient-to-r from-danger-neon/10 to-transparent border border-danger-neon/30 rounded-lg mb-6 flex flex-wrap items-center justify-between gap-3">
                           <p className="text-danger-neon text-sm">
                             <span>⚠</span> 系統檢測到部分段落處理異常，已顯示原始數據
                           </p>
+                          <button
+                            onClick={() => retryFailedParagraphs()}
+                            disabled={isProcessing}
+                            className="inline-flex items-center gap-2 rounded-lg border border-danger-neon/40 text-danger-neon hover:bg-danger-neon/10 px-3 py-1.5 text-sm disabled:opacity-50"
+                          >
+                            重試失敗段落（{paragraphs.filter(p => p.status === 'error').length}）
+                          </button>
                         </div>
                       )}
                       
+                      {/* Per-correction review */}
+                      {reviewMode && <CorrectionReviewPanel />}
+
+                      {/* Google Docs write-back preview */}
+                      {showWriteBack && googleDocsSource && !isStreaming && <GoogleDocsWriteBackPanel />}
+
                       {/* Direct results display - no animation */}
                       <div className="rounded-lg overflow-hidden">
+                        {largeDocument ? (
+                          // Large documents render only the rows on screen
+                          <LargeDocumentResultsView paragraphs={paragraphs} chunks={largeDocument.chunks} showDifferences={showDifferences} />
+                        ) : paragraphs.some(p => p.style) ? (
+                          // Imported documents keep their headings and lists
+                          <StructuredDocumentView paragraphs={paragraphs} showDifferences={showDifferences} />
+                        ) : (
                         <TextComparison
-                          originalText={paragraphs.map(p => p.text).join('\n\n')}
-                          correctedText={paragraphs.map(p => p.correctedText || p.text).join('\n\n')}
+                          originalText={originalDocument}
+                          correctedText={correctedDocument}
                           showDifferences={showDifferences}
                           onCopy={(text) => {
                             navigator.clipboard.writeText(text);
                             console.log('📋 Copied combined text');
                           }}
                         />
+                        )}
                       </div>
                     </div>
                   </div>
@@ -510,6 +753,9 @@ const Home: React.FC = () => {
               </div>
             )}
 
+            {/* Local correction history */}
+            {isAuthenticated && <HistoryPanel className="mb-8" />}
+
             {/* 【區塊 F：演示模式區】Demo Section */}
             <div className="tech-card glass">
               <div className="p-6" style={{
@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/config/supabase';
+import { useTextCorrectionStore } from '@/stores/textCorrectionStore';
+import {
+  EMPTY_USER_DICTIONARY,
+  formatPreferredSpellings,
+  normalizeUserDictionary,
+  parsePreferredSpellings,
+  parseTermList,
+} from '@/utils/userDictionary';
+import { CORRECTION_LEVEL_LABELS, LANGUAGE_LABELS, toCorrectionOptions } from '@/utils/correctionOptions';
+import type { UserDictionary } from '@/types';
 
 interface UserProfile {
   id: string;
@@ -15,6 +25,7 @@ interface UserProfile {
     language: string;
     correctionLevel: string;
     notifications: boolean;
+    dictionary?: UserDictionary;
   };
 }
 
@@ -41,6 +52,10 @@ const Profile: React.FC = () => {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   
   const [editMode, setEditMode] = useState(false);
+  const [editDictionary, setEditDictionary] = useState(false);
+  const [dictionaryDraft, setDictionaryDraft] = useState({ protectedTerms: '', preferredSpellings: '' });
+  const setUserDictionary = useTextCorrectionStore(state => state.setUserDictionary);
+  const setCorrectionOptions = useTextCorrectionStore(state => state.setCorrectionOptions);
   const [formData, setFormData] = useState({
     name: '',
     preferences: {
@@ -68,11 +83,14 @@ const Profile: React.FC = () => {
 
       if (response.ok) {
         const data = await response.json();
-        setProfile(data.data.profile);
+        const loadedProfile: UserProfile = data.data.profile;
+        // Older profiles stored English as 'en-US'; show and save the language the options list, as requests use
+        const preferences = { ...loadedProfile.preferences, ...toCorrectionOptions(loadedProfile.preferences) };
+        setProfile({ ...loadedProfile, preferences });
         setUsage(data.data.usage);
         setFormData({
-          name: data.data.profile.name,
-          preferences: data.data.profile.preferences
+          name: loadedProfile.name,
+          preferences
         });
       } else {
         const errorData = await response.json();
@@ -86,7 +104,7 @@ const Profile: React.FC = () => {
     }
   };
 
-  const handleSave = async () => {
+  const updateProfile = async (body: { name: string; preferences: UserProfile['preferences'] }): Promise<boolean> => {
     try {
       setSaving(true);
       setError(null);
@@ -98,30 +116,69 @@ const Profile: React.FC = () => {
           'Authorization': `Bearer ${session?.access_token}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          name: formData.name,
-          preferences: formData.preferences
-        })
+        body: JSON.stringify(body)
       });
 
       if (response.ok) {
         const data = await response.json();
         setProfile(prev => prev ? { ...prev, ...data.data.profile } : null);
-        setEditMode(false);
         setSuccessMessage('個人資料已成功更新！');
         setTimeout(() => setSuccessMessage(null), 3000);
+        return true;
       } else {
         const errorData = await response.json();
         setError(errorData.error?.message || 'Failed to update profile');
+        return false;
       }
     } catch (err) {
       setError('Network error occurred');
       console.error('Profile update error:', err);
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSave = async () => {
+    // Keep the dictionary when saving the basic preferences form
+    const saved = await updateProfile({
+      name: formData.name,
+      preferences: { ...formData.preferences, dictionary: profile?.preferences.dictionary }
+    });
+    if (saved) {
+      // New defaults for the correction settings on the Home page
+      setCorrectionOptions(toCorrectionOptions(formData.preferences));
+      setEditMode(false);
+    }
+  };
+
+  const startEditDictionary = () => {
+    const dictionary = normalizeUserDictionary(profile?.preferences.dictionary);
+    setDictionaryDraft({
+      protectedTerms: dictionary.protectedTerms.join('\n'),
+      preferredSpellings: formatPreferredSpellings(dictionary.preferredSpellings)
+    });
+    setEditDictionary(true);
+  };
+
+  const handleSaveDictionary = async () => {
+    if (!profile) return;
+    const dictionary: UserDictionary = {
+      protectedTerms: parseTermList(dictionaryDraft.protectedTerms),
+      preferredSpellings: parsePreferredSpellings(dictionaryDraft.preferredSpellings)
+    };
+
+    const saved = await updateProfile({
+      name: profile.name,
+      preferences: { ...profile.preferences, dictionary }
+    });
+    if (saved) {
+      // Apply to corrections on the Home page right away
+      setUserDictionary(dictionary);
+      setEditDictionary(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('zh-TW', {
       year: 'numeric',
@@ -248,9 +305,9 @@ const Profile: React.FC = () => {
                         }))}
                         className="select w-full"
                       >
-                        <option value="zh-TW">繁體中文</option>
-                        <option value="zh-CN">簡體中文</option>
-                        <option value="en-US">English</option>
+                        {Object.entries(LANGUAGE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
                       </select>
                     </div>
 
@@ -269,9 +326,9 @@ const Profile: React.FC = () => {
                         }))}
                         className="select w-full"
                       >
-                        <option value="basic">基本</option>
-                        <option value="standard">標準</option>
-                        <option value="advanced">進階</option>
+                        {Object.entries(CORRECTION_LEVEL_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
                       </select>
                     </div>
 
@@ -331,15 +388,13 @@ const Profile: React.FC = () => {
                       <div>
                         <label className="text-sm font-medium text-[#64748b]">偏好語言</label>
                         <p className="text-[#212121]">
-                          {profile.preferences.language === 'zh-TW' ? '繁體中文' :
-                           profile.preferences.language === 'zh-CN' ? '簡體中文' : 'English'}
+                          {LANGUAGE_LABELS[toCorrectionOptions(profile.preferences).language]}
                         </p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-[#64748b]">校正等級</label>
                         <p className="text-[#212121]">
-                          {profile.preferences.correctionLevel === 'basic' ? '基本' :
-                           profile.preferences.correctionLevel === 'standard' ? '標準' : '進階'}
+                          {CORRECTION_LEVEL_LABELS[toCorrectionOptions(profile.preferences).correctionLevel]}
                         </p>
                       </div>
                     </div>
@@ -347,6 +402,96 @@ const Profile: React.FC = () => {
                 )}
               </div>
             </div>
+
+            {/* Custom Dictionary */}
+            <div className="card mt-8">
+              <div className="card-header flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-[#212121]">自訂詞典</h2>
+                <button
+                  onClick={() => editDictionary ? setEditDictionary(false) : startEditDictionary()}
+                  className="btn btn-outline btn-sm"
+                >
+                  {editDictionary ? '取消' : '編輯'}
+                </button>
+              </div>
+              <div className="card-body">
+                {editDictionary ? (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-[#212121] mb-2">
+                        保留詞彙（每行一個，校正時不會被修改）
+                      </label>
+                      <textarea
+                        value={dictionaryDraft.protectedTerms}
+                        onChange={(e) => setDictionaryDraft(prev => ({ ...prev, protectedTerms: e.target.value }))}
+                        className="input w-full h-32 font-mono"
+                        placeholder={'品牌名稱\n產品代號'}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-[#212121] mb-2">
+                        偏好寫法（每行一組：原寫法 = 偏好寫法）
+                      </label>
+                      <textarea
+                        value={dictionaryDraft.preferredSpellings}
+                        onChange={(e) => setDictionaryDraft(prev => ({ ...prev, preferredSpellings: e.target.value }))}
+                        className="input w-full h-32 font-mono"
+                        placeholder={'人工智能 = 人工智慧\n軟件 = 軟體'}
+                      />
+                    </div>
+                    <div className="flex space-x-3 pt-2">
+                      <button
+                        onClick={handleSaveDictionary}
+                        disabled={saving}
+                        className="btn btn-primary"
+                      >
+                        {saving ? '儲存中...' : '儲存'}
+                      </button>
+                      <button
+                        onClick={() => setEditDictionary(false)}
+                        className="btn btn-outline"
+                      >
+                        取消
+                      </button>
+                    </div>
+                  </div>
+                ) : (() => {
+                  const dictionary = normalizeUserDictionary(profile.preferences.dictionary ?? EMPTY_USER_DICTIONARY);
+                  return (
+                    <div className="space-y-4">
+                      <div>
+                        <label className="text-sm font-medium text-[#64748b]">保留詞彙</label>
+                        {dictionary.protectedTerms.length > 0 ? (
+                          <div className="flex flex-wrap gap-2 mt-1">
+                            {dictionary.protectedTerms.map(term => (
+                              <span key={term} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-[#f1f5f9] text-[#212121]">
+                                {term}
+                              </span>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-[#64748b]">尚未設定</p>
+                        )}
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-[#64748b]">偏好寫法</label>
+                        {dictionary.preferredSpellings.length > 0 ? (
+                          <ul className="mt-1 space-y-1">
+                            {dictionary.preferredSpellings.map(spelling => (
+                              <li key={spelling.variant} className="text-sm text-[#212121]">
+                                {spelling.variant} → <span className="font-medium">{spelling.preferred}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-sm text-[#64748b]">尚未設定</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })()}
+              </div>
+            </div>
           </div>
 
           {/* Usage Statistics */}
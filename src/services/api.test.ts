@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useSessionStore } from '@/stores/sessionStore';
+
+const auth = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  refreshSession: vi.fn(),
+}));
+vi.mock('@/config/supabase', () => ({ supabase: { auth } }));
+
+const { apiService } = await import('./api');
+const { AuthError } = await import('./apiErrors');
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('APIService session expiry', () => {
+  let token: string;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    token = 'expired';
+    auth.getSession.mockImplementation(async () => ({ data: { session: { access_token: token } }, error: null }));
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      (init.headers as Record<string, string>).Authorization === 'Bearer fresh'
+        ? jsonResponse(200, { status: 'ok', timestamp: 'now' })
+        : jsonResponse(401, { success: false, error: { code: 'TOKEN_EXPIRED', message: 'jwt expired' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('refreshes the session and replays the request once', async () => {
+    auth.refreshSession.mockImplementation(async () => {
+      token = 'fresh';
+      return { data: { session: { access_token: token } }, error: null };
+    });
+
+    await expect(apiService.healthCheck()).resolves.toEqual({ status: 'ok', timestamp: 'now' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for the user to sign in again when the refresh fails, then continues', async () => {
+    auth.refreshSession.mockResolvedValue({ data: { session: null }, error: { message: 'refresh token revoked' } });
+
+    const request = apiService.healthCheck();
+    await vi.waitFor(() => expect(useSessionStore.getState().isReloginRequired).toBe(true));
+
+    token = 'fresh';
+    useSessionStore.getState().completeRelogin(true);
+    await expect(request).resolves.toEqual({ status: 'ok', timestamp: 'now' });
+    expect(useSessionStore.getState().isReloginRequired).toBe(false);
+  });
+
+  it('gives up with the auth error when re-login is cancelled', async () => {
+    auth.refreshSession.mockResolvedValue({ data: { session: null }, error: { message: 'refresh token revoked' } });
+
+    const request = apiService.healthCheck();
+    await vi.waitFor(() => expect(useSessionStore.getState().isReloginRequired).toBe(true));
+
+    useSessionStore.getState().completeRelogin(false);
+    await expect(request).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('APIService retries', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    auth.getSession.mockResolvedValue({ data: { session: { access_token: 'valid' } }, error: null });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('retries a 503 and returns the response that follows', async () => {
+    const unavailable = new Response(JSON.stringify({ success: false, error: { message: 'down' } }), {
+      status: 503,
+      // Retry at once instead of waiting for the backoff
+      headers: { 'Content-Type': 'application/json', 'Retry-After': '0' },
+    });
+    fetchMock
+      .mockResolvedValueOnce(unavailable)
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { usage: {} } }));
+
+    await expect(apiService.getUserProfile()).resolves.toEqual({ success: true, data: { usage: {} } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a client error', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(400, { success: false, error: { code: 'VALIDATION_ERROR', message: 'bad input' } }));
+
+    await expect(apiService.getUserProfile()).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,26 +1,76 @@
 // API service for text correction backend communication
 
 import { supabase } from '@/config/supabase';
+import { readEventStream } from '@/utils/sse';
+import { getRetryDelay, parseRetryAfter, wait } from '@/utils/retry';
+import { ApiError, AuthError, NetworkError, TimeoutError, createApiError } from '@/services/apiErrors';
+import { useSessionStore } from '@/stores/sessionStore';
 import type {
+  APIConfig,
   TextProcessingResult,
   BatchProcessingResult,
+  BatchSummary,
+  GoogleDocsApplyMode,
+  GoogleDocsApplyResult,
+  GoogleDocsEdit,
   GoogleDocsImport,
+  ParagraphContext,
+  ParagraphCorrectionResult,
+  QuotaInfo,
+  TextCorrection,
+  UserDictionary,
+  UserPreferences,
 } from '@/types';
 
+// Thrown when the backend does not offer the streaming endpoint, so callers can fall back to batches
+export class StreamingUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamingUnavailableError';
+  }
+}
+
+// Thrown when the caller aborts a request; named like a DOM AbortError so existing checks keep working
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+const API_CONFIG: APIConfig = {
+  // 使用相對路徑，交由本地開發代理與雲端反向代理轉發
+  // dev 由 vite.config.ts 的 server.proxy 處理，prod 由 Caddy/Nginx 處理
+  baseURL: '/api/v1',
+  timeout: 30000, // 30 seconds
+  retries: 3,
+  retryDelay: 1000,
+};
+
+export interface CorrectionStreamHandlers {
+  onParagraphStart?: (paragraphId: string) => void;
+  onCorrection?: (paragraphId: string, correction: TextCorrection) => void;
+  onParagraphResult?: (result: ParagraphCorrectionResult) => void;
+}
+
 class APIService {
   private baseURL: string;
   private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+  private refreshPromise: Promise<boolean> | null = null;
 
-  constructor() {
-    // 使用相對路徑，交由本地開發代理與雲端反向代理轉發
-    // dev 由 vite.config.ts 的 server.proxy 處理，prod 由 Caddy/Nginx 處理
-    this.baseURL = '/api/v1';
-    this.timeout = 30000; // 30 seconds
+  constructor(apiConfig: APIConfig = API_CONFIG) {
+    this.baseURL = apiConfig.baseURL;
+    this.timeout = apiConfig.timeout;
+    this.retries = apiConfig.retries;
+    this.retryDelay = apiConfig.retryDelay;
     
     console.log('🔧 API Service initialized:', {
       baseURL: this.baseURL,
       environment: import.meta.env.MODE,
-      timeout: this.timeout
+      timeout: this.timeout,
+      retries: this.retries,
     });
   }
 
@@ -48,16 +98,124 @@ class APIService {
     return headers;
   }
 
+  /**
+   * Combine the caller's cancellation signal with the request timeout
+   */
+  private createRequestSignal(callerSignal?: AbortSignal | null) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+
+    const onCallerAbort = () => controller.abort();
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+    }
+
+    return {
+      signal: controller.signal,
+      didTimeOut: () => timedOut,
+      // Stop the timeout but keep following the caller's signal (long-lived streams)
+      clearTimeout: () => clearTimeout(timeoutId),
+      dispose: () => {
+        clearTimeout(timeoutId);
+        callerSignal?.removeEventListener('abort', onCallerAbort);
+      },
+    };
+  }
+
+  /**
+   * Get a new access token with the refresh token
+   * Requests that fail with 401 at the same time share one refresh
+   */
+  private refreshSession(): Promise<boolean> {
+    this.refreshPromise ??= (async () => {
+      try {
+        const { data, error } = await supabase.auth.refreshSession();
+        if (error || !data.session) {
+          console.warn('🔐 Session refresh failed:', error?.message);
+          return false;
+        }
+        console.log('🔄 Session refreshed');
+        return true;
+      } catch (error) {
+        console.warn('🔐 Session refresh failed:', error);
+        return false;
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+    return this.refreshPromise;
+  }
+
+  /**
+   * Send a request; when the session has expired, refresh it and replay the request once
+   * If that fails as well, wait for the user to sign in again and continue, so the caller's run is not lost
+   * A 401 means the server did not act on the request, so replaying is safe even when retries = 0
+   */
   private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    retries: number = this.retries
+  ): Promise<T> {
+    const isExpiredSession = (error: unknown) => error instanceof AuthError && error.status === 401;
+
+    try {
+      return await this.sendWithRetries<T>(endpoint, options, retries);
+    } catch (error) {
+      if (!isExpiredSession(error)) throw error;
+
+      if (await this.refreshSession()) {
+        try {
+          return await this.sendWithRetries<T>(endpoint, options, retries);
+        } catch (replayError) {
+          if (!isExpiredSession(replayError)) throw replayError;
+        }
+      }
+
+      const signedIn = await useSessionStore.getState().requestRelogin(options.signal);
+      if (options.signal?.aborted) throw new RequestCancelledError();
+      if (!signedIn) throw error;
+      return this.sendWithRetries<T>(endpoint, options, retries);
+    }
+  }
+
+  /**
+   * Send a request, retrying transient failures with exponential backoff
+   * Pass retries = 0 for requests that must not be repeated
+   */
+  private async sendWithRetries<T>(
+    endpoint: string,
+    options: RequestInit,
+    retries: number
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendRequest<T>(endpoint, options);
+      } catch (error) {
+        if (!(error instanceof ApiError) || !error.retryable || attempt >= retries) throw error;
+
+        const delay = getRetryDelay(attempt, this.retryDelay, error.retryAfter);
+        console.warn(`🔁 ${error.message} - retrying ${endpoint} in ${delay}ms (${attempt + 1}/${retries})`);
+        await wait(delay, options.signal);
+        if (options.signal?.aborted) throw new RequestCancelledError();
+      }
+    }
+  }
+
+  private async sendRequest<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
-    const controller = new AbortController();
     const requestId = Math.random().toString(36).substr(2, 9);
     
-    // Set timeout
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    // Time out on our own, but also stop as soon as the caller cancels
+    const request = this.createRequestSignal(options.signal);
 
     console.group(`%c🚀 API Request [${requestId}]`, 'color: #4CAF50; font-weight: bold;');
     console.log('📤 URL:', url);
@@ -80,7 +238,7 @@ class APIService {
       
       const response = await fetch(url, {
         ...options,
-        signal: controller.signal,
+        signal: request.signal,
         headers: {
           ...authHeaders,
           ...options.headers, // Allow override if needed
@@ -88,7 +246,7 @@ class APIService {
       });
 
       const duration = Date.now() - startTime;
-      clearTimeout(timeoutId);
+      request.clearTimeout();
 
       console.log(`⏱️ Response Time: ${duration}ms`);
       console.log('📊 Status:', response.status, response.statusText);
@@ -96,25 +254,21 @@ class APIService {
 
       if (!response.ok) {
         console.error('❌ HTTP Error:', response.status, response.statusText);
-        
-        // Handle authentication errors
-        if (response.status === 401) {
-          console.warn('🔐 Authentication required - user needs to log in');
-          // You can add custom logic here to redirect to login or show a message
-          const errorData = await response.json().catch(() => ({ message: 'Authentication required' }));
-          console.groupEnd();
-          throw new Error(`Authentication required: ${errorData.message || 'Please log in to continue'}`);
-        }
-        
-        // Handle quota exceeded
+
+        // Rate limits that say when to come back are retried; anything else is a quota
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
         if (response.status === 429) {
-          const errorData = await response.json().catch(() => ({ message: 'Rate limit exceeded' }));
-          console.groupEnd();
-          throw new Error(`Usage limit exceeded: ${errorData.message || 'Please try again later'}`);
+          // Let schedulers slow down before the next request goes out
+          window.dispatchEvent(new CustomEvent('api:rate-limited', { detail: { endpoint, retryAfter } }));
+        }
+
+        const errorBody = await response.json().catch(() => null);
+        const apiError = createApiError(response.status, errorBody, retryAfter);
+        if (apiError instanceof AuthError) {
+          console.warn('🔐 Authentication required - user needs to log in');
         }
-        
         console.groupEnd();
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw apiError;
       }
 
       const responseData = await response.json();
@@ -132,19 +286,25 @@ class APIService {
       return responseData;
     } catch (error) {
       const duration = Date.now() - startTime;
-      clearTimeout(timeoutId);
       
       console.error(`❌ Request Failed after ${duration}ms:`, error);
       console.groupEnd();
       
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timeout');
+          if (!request.didTimeOut()) throw new RequestCancelledError();
+          throw new TimeoutError();
+        }
+        // fetch rejects with a TypeError when the network is unreachable
+        if (error instanceof TypeError) {
+          throw new NetworkError(error.message);
         }
         throw error;
       }
       
-      throw new Error('Unknown error occurred');
+      throw new NetworkError('Unknown error occurred');
+    } finally {
+      request.dispose();
     }
   }
 
@@ -153,9 +313,11 @@ class APIService {
     language?: string;
     preserveFormatting?: boolean;
     correctionLevel?: 'basic' | 'standard' | 'advanced';
-  }): Promise<TextProcessingResult> {
+    dictionary?: UserDictionary;
+  }, signal?: AbortSignal): Promise<TextProcessingResult> {
     return this.makeRequest<TextProcessingResult>('/text/correct', {
       method: 'POST',
+      signal,
       body: JSON.stringify({
         text,
         options: {
@@ -172,14 +334,19 @@ class APIService {
   async correctParagraphs(paragraphs: Array<{
     id: string;
     text: string;
+    style?: string;
+    context?: ParagraphContext;
   }>, options?: {
     language?: string;
+    correctionLevel?: 'basic' | 'standard' | 'advanced';
     concurrent?: number;
-  }): Promise<BatchProcessingResult> {
+    dictionary?: UserDictionary;
+  }, signal?: AbortSignal): Promise<BatchProcessingResult> {
     console.log(`%c📝 Starting batch correction for ${paragraphs.length} paragraphs`, 'color: #2196F3; font-weight: bold;');
     
     const result = await this.makeRequest<BatchProcessingResult>('/text/batch-correct', {
       method: 'POST',
+      signal,
       body: JSON.stringify({
         paragraphs,
         options: {
@@ -194,23 +361,159 @@ class APIService {
     return result;
   }
 
+  // Streaming paragraph correction API (text/event-stream)
+  async correctParagraphsStream(paragraphs: Array<{
+    id: string;
+    text: string;
+    style?: string;
+    context?: ParagraphContext;
+  }>, handlers: CorrectionStreamHandlers, options?: {
+    language?: string;
+    correctionLevel?: 'basic' | 'standard' | 'advanced';
+    dictionary?: UserDictionary;
+  }, signal?: AbortSignal): Promise<BatchSummary | null> {
+    const url = `${this.baseURL}/text/correct/stream`;
+    const request = this.createRequestSignal(signal);
+
+    console.log(`%c📡 Opening correction stream for ${paragraphs.length} paragraphs`, 'color: #2196F3; font-weight: bold;');
+
+    let response: Response;
+    try {
+      const authHeaders = await this.getAuthHeaders();
+      response = await fetch(url, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          ...authHeaders,
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify({
+          paragraphs,
+          options: {
+            language: 'zh-TW',
+            correctionLevel: 'standard',
+            ...options,
+          },
+        }),
+      });
+    } catch (error) {
+      request.dispose();
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw request.didTimeOut() ? new TimeoutError() : new RequestCancelledError();
+      }
+      throw error instanceof TypeError ? new NetworkError(error.message) : error;
+    }
+    // The timeout only guards the connection; once events flow the stream may stay open longer
+    request.clearTimeout();
+
+    const contentType = response.headers.get('content-type') || '';
+    if ([404, 405, 501].includes(response.status) || (response.ok && !contentType.includes('text/event-stream'))) {
+      request.dispose();
+      throw new StreamingUnavailableError(`Streaming not supported (status ${response.status})`);
+    }
+
+    if (!response.ok || !response.body) {
+      const errorBody = await response.json().catch(() => null);
+      request.dispose();
+      throw createApiError(response.status, errorBody, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    let summary: BatchSummary | null = null;
+    let streamError: ApiError | null = null;
+
+    try {
+      await readEventStream(response.body, ({ event, data }) => {
+        let payload;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          console.warn('⚠️ Ignoring malformed stream event:', event, data);
+          return;
+        }
+
+        switch (event) {
+          case 'paragraph-start':
+            handlers.onParagraphStart?.(payload.paragraphId);
+            break;
+          case 'correction':
+            handlers.onCorrection?.(payload.paragraphId, payload.correction);
+            break;
+          case 'paragraph':
+            handlers.onParagraphResult?.(payload as ParagraphCorrectionResult);
+            break;
+          case 'done':
+            summary = payload.summary ?? null;
+            break;
+          case 'error':
+            streamError = createApiError(null, payload);
+            break;
+        }
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new RequestCancelledError();
+      throw error;
+    } finally {
+      request.dispose();
+    }
+
+    // Keep usage widgets in sync just like the batch endpoint does
+    window.dispatchEvent(new CustomEvent('usage:changed'));
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    console.log('%c✅ Correction stream finished', 'color: #4CAF50; font-weight: bold;', summary);
+    return summary;
+  }
+
   // Google Docs import API
-  async importGoogleDoc(docUrl: string): Promise<GoogleDocsImport> {
+  async importGoogleDoc(docUrl: string, signal?: AbortSignal): Promise<GoogleDocsImport> {
     return this.makeRequest<GoogleDocsImport>('/google-docs/import', {
       method: 'POST',
+      signal,
       body: JSON.stringify({
         url: docUrl,
       }),
     });
   }
 
-  // Health check API
-  async healthCheck(): Promise<{ status: string; timestamp: string }> {
-    return this.makeRequest<{ status: string; timestamp: string }>('/health');
+  // Submit corrections to the source document as suggestions or comments
+  async applyGoogleDocsChanges(request: {
+    documentId: string;
+    mode: GoogleDocsApplyMode;
+    edits: GoogleDocsEdit[];
+  }, signal?: AbortSignal): Promise<GoogleDocsApplyResult> {
+    // Repeating a write that timed out could add the same suggestions twice
+    return this.makeRequest<GoogleDocsApplyResult>('/google-docs/apply', {
+      method: 'POST',
+      signal,
+      body: JSON.stringify(request),
+    }, 0);
+  }
+
+  // User profile API
+  async getUserProfile(signal?: AbortSignal): Promise<{
+    success: boolean;
+    data: {
+      profile: {
+        id: string;
+        email: string;
+        name: string;
+        preferences: UserPreferences;
+      };
+    };
+  }> {
+    return this.makeRequest('/user/profile', { signal });
+  }
+
+  // Health check API (reports the current state, so no retries)
+  async healthCheck(signal?: AbortSignal): Promise<{ status: string; timestamp: string }> {
+    return this.makeRequest<{ status: string; timestamp: string }>('/health', { signal }, 0);
   }
 
   // Usage tracking APIs
-  async getCurrentUsage(period: 'day' | 'week' | 'month' | 'all' = 'month'): Promise<{
+  async getCurrentUsage(period: 'day' | 'week' | 'month' | 'all' = 'month', signal?: AbortSignal): Promise<{
     success: boolean;
     data: {
       totalRequests: number;
@@ -225,7 +528,7 @@ class APIService {
       lastActivity?: Date;
     };
   }> {
-    return this.makeRequest(`/usage/current?period=${period}`);
+    return this.makeRequest(`/usage/current?period=${period}`, { signal });
   }
 
   async getUsageHistory(options: {
@@ -234,7 +537,7 @@ class APIService {
     startDate?: Date;
     endDate?: Date;
     actionType?: 'correction_request' | 'text_processed' | 'api_call';
-  } = {}): Promise<{
+  } = {}, signal?: AbortSignal): Promise<{
     success: boolean;
     data: Array<{
       id: string;
@@ -261,26 +564,21 @@ class APIService {
     if (options.endDate) params.append('endDate', options.endDate.toISOString());
     if (options.actionType) params.append('actionType', options.actionType);
 
-    return this.makeRequest(`/usage/history?${params.toString()}`);
+    return this.makeRequest(`/usage/history?${params.toString()}`, { signal });
   }
 
-  async getQuotaStatus(): Promise<{
+  async getQuotaStatus(signal?: AbortSignal): Promise<{
     success: boolean;
-    data: Array<{
-      type: 'monthly_corrections' | 'monthly_characters' | 'monthly_requests' | 'daily_requests';
-      limit: number;
-      used: number;
-      remaining: number;
-      resetDate: Date;
-      tier: 'free' | 'premium' | 'enterprise' | 'admin';
-      percentageUsed: number;
-      isExceeded: boolean;
-    }>;
+    data: QuotaInfo[];
   }> {
-    return this.makeRequest('/usage/quota/status');
+    return this.makeRequest('/usage/quota/status', { signal });
   }
 
-  async getUsageTrends(period: 'day' | 'week' | 'month' = 'month', groupBy: 'day' | 'week' | 'month' = 'day'): Promise<{
+  async getUsageTrends(
+    period: 'day' | 'week' | 'month' = 'month',
+    groupBy: 'day' | 'week' | 'month' = 'day',
+    signal?: AbortSignal
+  ): Promise<{
     success: boolean;
     data: Array<{
       period: string;
@@ -291,7 +589,7 @@ class APIService {
       errorCount: number;
     }>;
   }> {
-    return this.makeRequest(`/usage/trends?period=${period}&groupBy=${groupBy}`);
+    return this.makeRequest(`/usage/trends?period=${period}&groupBy=${groupBy}`, { signal });
   }
 }
 
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { AuthError, QuotaError, UpstreamError, ValidationError, createApiError, getErrorMessage } from './apiErrors';
+
+describe('createApiError', () => {
+  it('reads code, details and timestamp from a failed response body', () => {
+    const error = createApiError(400, {
+      success: false,
+      error: { code: 'TEXT_TOO_LONG', message: 'Text exceeds limit', details: { max: 5000 }, timestamp: '2024-01-01T00:00:00Z' },
+    });
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ code: 'TEXT_TOO_LONG', message: 'Text exceeds limit', details: { max: 5000 }, status: 400 });
+    expect(getErrorMessage(error)).toBe('文字過長，請分段後再送出');
+  });
+
+  it('classifies by status when the body has no code', () => {
+    expect(createApiError(401, { message: 'jwt expired' })).toBeInstanceOf(AuthError);
+    expect(createApiError(502, null)).toBeInstanceOf(UpstreamError);
+    expect(getErrorMessage(createApiError(502, null))).toBe('校正服務暫時無法使用，請稍後再試');
+  });
+
+  it('retries rate limits only when the server says when to come back', () => {
+    const rateLimited = createApiError(429, null, 2000);
+    const quota = createApiError(429, { error: { code: 'QUOTA_EXCEEDED', message: 'Monthly limit' } });
+    expect(rateLimited).toBeInstanceOf(QuotaError);
+    expect(rateLimited.code).toBe('RATE_LIMITED');
+    expect(rateLimited.retryable).toBe(true);
+    expect(quota.retryable).toBe(false);
+  });
+
+  it('recognizes Google Docs failures that are only described in the message', () => {
+    const error = createApiError(null, { success: false, error: { message: 'Permission denied for document' } });
+    expect(error.code).toBe('GOOGLE_DOCS_PERMISSION_DENIED');
+    expect(getErrorMessage(error)).toContain('知道連結的使用者可以檢視');
+  });
+});
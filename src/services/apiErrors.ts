@@ -0,0 +1,199 @@
+// Typed API errors parsed from the backend's error bodies, with localized messages for the UI
+
+import type { ApiErrorBody } from '@/types';
+import { isRetryableStatus } from '@/utils/retry';
+
+export type ApiErrorKind = 'auth' | 'quota' | 'validation' | 'timeout' | 'network' | 'upstream';
+
+export interface ApiErrorInit {
+  code?: string;
+  status?: number | null;
+  details?: ApiErrorBody['details'];
+  timestamp?: string;
+  // Milliseconds the server asked us to wait before trying again
+  retryAfter?: number | null;
+}
+
+// Code used when the backend does not send one
+const DEFAULT_CODES: Record<ApiErrorKind, string> = {
+  auth: 'UNAUTHORIZED',
+  quota: 'QUOTA_EXCEEDED',
+  validation: 'VALIDATION_ERROR',
+  timeout: 'TIMEOUT',
+  network: 'NETWORK_ERROR',
+  upstream: 'UPSTREAM_ERROR',
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly code: string;
+  readonly status: number | null;
+  readonly details?: ApiErrorBody['details'];
+  readonly timestamp: string;
+  readonly retryAfter: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, init: ApiErrorInit = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.code = init.code ?? DEFAULT_CODES[kind];
+    this.status = init.status ?? null;
+    this.details = init.details;
+    this.timestamp = init.timestamp ?? new Date().toISOString();
+    this.retryAfter = init.retryAfter ?? null;
+  }
+
+  /**
+   * Timeouts, network failures, 5xx responses and rate limits with Retry-After are worth another attempt
+   */
+  get retryable(): boolean {
+    switch (this.kind) {
+      case 'timeout':
+      case 'network':
+        return true;
+      case 'quota':
+        return this.retryAfter !== null;
+      case 'upstream':
+        return this.status === null || isRetryableStatus(this.status);
+      default:
+        return false;
+    }
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(message: string = 'Authentication required', init?: ApiErrorInit) {
+    super('auth', message, init);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends ApiError {
+  constructor(message: string = 'Usage limit exceeded', init?: ApiErrorInit) {
+    super('quota', message, init);
+    this.name = 'QuotaError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string = 'Invalid request', init?: ApiErrorInit) {
+    super('validation', message, init);
+    this.name = 'ValidationError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string = 'Request timeout', init?: ApiErrorInit) {
+    super('timeout', message, init);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network error', init?: ApiErrorInit) {
+    super('network', message, init);
+    this.name = 'NetworkError';
+  }
+}
+
+export class UpstreamError extends ApiError {
+  constructor(message: string = 'Upstream service error', init?: ApiErrorInit) {
+    super('upstream', message, init);
+    this.name = 'UpstreamError';
+  }
+}
+
+const ERROR_CLASSES: Record<ApiErrorKind, new (message?: string, init?: ApiErrorInit) => ApiError> = {
+  auth: AuthError,
+  quota: QuotaError,
+  validation: ValidationError,
+  timeout: TimeoutError,
+  network: NetworkError,
+  upstream: UpstreamError,
+};
+
+// Localized messages by error code
+export const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHORIZED: '請先登入才能使用文字校正功能',
+  TOKEN_EXPIRED: '登入已過期，請重新登入',
+  FORBIDDEN: '您沒有權限執行此操作',
+  QUOTA_EXCEEDED: '已達使用額度上限，請等待額度重置或升級方案',
+  RATE_LIMITED: '請求過於頻繁，請稍後再試',
+  VALIDATION_ERROR: '送出的內容有誤，請檢查後再試',
+  TEXT_TOO_LONG: '文字過長，請分段後再送出',
+  TIMEOUT: '請求超時，請檢查網路連線或稍後再試',
+  NETWORK_ERROR: '無法連線到伺服器，請檢查網路連線',
+  UPSTREAM_ERROR: '校正服務暫時無法使用，請稍後再試',
+  GOOGLE_DOCS_UNAVAILABLE: 'Google Docs 整合功能暫時無法使用，請聯繫系統管理員',
+  GOOGLE_DOCS_API_DISABLED: 'Google Docs API 尚未啟用，請聯繫系統管理員配置 API 權限',
+  GOOGLE_DOCS_MISCONFIGURED: 'Google Docs API 配置錯誤，請聯繫系統管理員',
+  GOOGLE_DOCS_PERMISSION_DENIED: '無法存取該 Google Docs 文件，請確認文件已設為「知道連結的使用者可以檢視」',
+  GOOGLE_DOCS_NOT_FOUND: '找不到該 Google Docs 文件，請檢查連結是否正確',
+};
+
+// Codes whose kind does not follow from the HTTP status alone
+const CODE_KINDS: Record<string, ApiErrorKind> = {
+  UNAUTHORIZED: 'auth',
+  TOKEN_EXPIRED: 'auth',
+  FORBIDDEN: 'auth',
+  GOOGLE_DOCS_PERMISSION_DENIED: 'auth',
+  QUOTA_EXCEEDED: 'quota',
+  RATE_LIMITED: 'quota',
+  VALIDATION_ERROR: 'validation',
+  TEXT_TOO_LONG: 'validation',
+  GOOGLE_DOCS_NOT_FOUND: 'validation',
+  TIMEOUT: 'timeout',
+};
+
+// Older backends only describe Google Docs failures in the message text
+const LEGACY_MESSAGE_CODES: Array<[string, string]> = [
+  ['Google Docs integration is not available', 'GOOGLE_DOCS_UNAVAILABLE'],
+  ['Google Docs API is not enabled', 'GOOGLE_DOCS_API_DISABLED'],
+  ['API is not properly configured', 'GOOGLE_DOCS_MISCONFIGURED'],
+  ['Permission denied', 'GOOGLE_DOCS_PERMISSION_DENIED'],
+  ['Document not found', 'GOOGLE_DOCS_NOT_FOUND'],
+];
+
+function getKindForStatus(status: number | null, retryAfter: number | null): ApiErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408) return 'timeout';
+  if (status !== null && status >= 400 && status < 500 && status !== 404 && retryAfter === null) return 'validation';
+  return 'upstream';
+}
+
+/**
+ * Build a typed error from a failed response
+ * `body` may be a full response ({ success: false, error: { code, message, ... } }), a bare error body or { message }
+ */
+export function createApiError(status: number | null, body: unknown, retryAfter: number | null = null): ApiError {
+  const payload: { error?: unknown } = body && typeof body === 'object' ? body : {};
+  const errorBody: Partial<ApiErrorBody> = payload.error && typeof payload.error === 'object' ? payload.error : payload;
+  const message = errorBody.message
+    || (typeof payload.error === 'string' ? payload.error : null)
+    || (status !== null ? `HTTP error! status: ${status}` : 'Request failed');
+
+  let code = typeof errorBody.code === 'string' ? errorBody.code : undefined;
+  code ??= LEGACY_MESSAGE_CODES.find(([text]) => message.includes(text))?.[1];
+  if (!code && status === 429 && retryAfter !== null) code = 'RATE_LIMITED';
+
+  const kind = (code && CODE_KINDS[code]) || getKindForStatus(status, retryAfter);
+  return new ERROR_CLASSES[kind](message, {
+    code,
+    status,
+    details: errorBody.details,
+    timestamp: errorBody.timestamp,
+    retryAfter,
+  });
+}
+
+/**
+ * Message to show the user for any error; messages of local errors are already written for users
+ */
+export function getErrorMessage(error: unknown, fallback: string = '發生未知錯誤，請稍後再試'): string {
+  if (error instanceof ApiError) {
+    return ERROR_MESSAGES[error.code] ?? ERROR_MESSAGES[DEFAULT_CODES[error.kind]];
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
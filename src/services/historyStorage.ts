@@ -0,0 +1,96 @@
+// IndexedDB-backed storage for completed correction sessions
+
+import type { HistoryEntry } from '@/types';
+
+const DB_NAME = 'text-correction-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// Oldest sessions beyond this count are pruned per user
+const MAX_ENTRIES_PER_USER = 50;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class HistoryStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  get isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('userId', 'userId', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  // List a user's sessions, newest first
+  async listEntries(userId: string): Promise<HistoryEntry[]> {
+    const store = await this.getStore('readonly');
+    const entries = await promisifyRequest<HistoryEntry[]>(store.index('userId').getAll(userId));
+    return entries.sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+  }
+
+  async getEntry(id: string): Promise<HistoryEntry | undefined> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest<HistoryEntry | undefined>(store.get(id));
+  }
+
+  async saveEntry(entry: HistoryEntry): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(entry));
+
+    const entries = await this.listEntries(entry.userId);
+    const stale = entries.slice(MAX_ENTRIES_PER_USER);
+    if (stale.length > 0) {
+      const pruneStore = await this.getStore('readwrite');
+      await Promise.all(stale.map(e => promisifyRequest(pruneStore.delete(e.id))));
+    }
+
+    window.dispatchEvent(new CustomEvent('history:changed'));
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+    window.dispatchEvent(new CustomEvent('history:changed'));
+  }
+
+  async clearUser(userId: string): Promise<void> {
+    const entries = await this.listEntries(userId);
+    const store = await this.getStore('readwrite');
+    await Promise.all(entries.map(e => promisifyRequest(store.delete(e.id))));
+    window.dispatchEvent(new CustomEvent('history:changed'));
+  }
+}
+
+// Export singleton instance
+export const historyStorage = new HistoryStorage();
+
+export default HistoryStorage;
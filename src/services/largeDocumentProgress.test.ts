@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Paragraph } from '@/types';
+import { DEFAULT_CORRECTION_OPTIONS } from '@/utils/correctionOptions';
+import { largeDocumentProgress } from './largeDocumentProgress';
+
+const progress = (documentId: string) => ({
+  userId: 'user-1',
+  inputText: '第一章\n\n內容',
+  options: DEFAULT_CORRECTION_OPTIONS,
+  largeDocument: { id: documentId, totalCharacters: 9, chunks: [] },
+  paragraphs: [{ id: 'p1', text: '內容', status: 'pending', corrections: [] }] as Paragraph[],
+});
+
+describe('largeDocumentProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('gives saved progress back only to the user who saved it', () => {
+    largeDocumentProgress.save(progress('doc-1'));
+
+    expect(largeDocumentProgress.load('user-1')).toMatchObject({ version: 2, userId: 'user-1', largeDocument: { id: 'doc-1' } });
+    expect(largeDocumentProgress.load('user-2')).toBeNull();
+  });
+
+  it('clears only the document it is asked to', () => {
+    largeDocumentProgress.save(progress('doc-1'));
+
+    largeDocumentProgress.clearDocument('doc-2');
+    expect(largeDocumentProgress.load('user-1')).not.toBeNull();
+    largeDocumentProgress.clearDocument('doc-1');
+    expect(largeDocumentProgress.load('user-1')).toBeNull();
+  });
+
+  it('drops progress saved by an older version', () => {
+    // Version 1 entries were saved without the user they belong to
+    const saved = { ...progress('doc-1'), userId: undefined, version: 1, savedAt: new Date().toISOString() };
+    localStorage.setItem('large-document-progress', JSON.stringify(saved));
+
+    expect(largeDocumentProgress.load('user-1')).toBeNull();
+    expect(localStorage.getItem('large-document-progress')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+// localStorage-backed progress for large documents, so a refresh can resume where processing stopped
+// The saved manuscript belongs to the user who started it and is only offered back to them
+
+import type { CorrectionOptions, LargeDocumentInfo, Paragraph } from '@/types';
+
+const STORAGE_KEY = 'large-document-progress';
+const STORAGE_VERSION = 2;
+
+export interface SavedLargeDocument {
+  version: number;
+  savedAt: string;
+  userId: string;
+  inputText: string;
+  options: CorrectionOptions;
+  largeDocument: LargeDocumentInfo;
+  paragraphs: Paragraph[];
+}
+
+class LargeDocumentProgress {
+  get isAvailable(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  /**
+   * Progress saved by the given user, or null when there is none or it belongs to someone else
+   */
+  load(userId: string): SavedLargeDocument | null {
+    const saved = this.read();
+    return saved?.userId === userId ? saved : null;
+  }
+
+  private read(): SavedLargeDocument | null {
+    if (!this.isAvailable) return null;
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return null;
+      const saved = JSON.parse(raw) as SavedLargeDocument;
+      if (saved.version !== STORAGE_VERSION || !saved.userId || !Array.isArray(saved.paragraphs)) {
+        this.clear();
+        return null;
+      }
+      return saved;
+    } catch (error) {
+      console.warn('Failed to read saved large document progress:', error);
+      return null;
+    }
+  }
+
+  save(progress: Omit<SavedLargeDocument, 'version' | 'savedAt'>): void {
+    if (!this.isAvailable) return;
+    try {
+      const saved: SavedLargeDocument = {
+        ...progress,
+        version: STORAGE_VERSION,
+        savedAt: new Date().toISOString(),
+      };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    } catch (error) {
+      // Most likely the storage quota; processing continues, it just cannot survive a refresh
+      console.warn('Failed to save large document progress:', error);
+    }
+  }
+
+  clear(): void {
+    if (!this.isAvailable) return;
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * Clear the saved progress only if it belongs to the given document
+   */
+  clearDocument(documentId: string): void {
+    if (this.read()?.largeDocument.id === documentId) {
+      this.clear();
+    }
+  }
+}
+
+export const largeDocumentProgress = new LargeDocumentProgress();
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QueryClient } from './queryClient';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+describe('QueryClient', () => {
+  it('shares one request between concurrent callers and serves fresh data from the cache', async () => {
+    const client = new QueryClient();
+    const fetch = vi.fn(async () => ({ used: 1 }));
+    const query = { key: 'usage/quota', fetch };
+
+    const [a, b] = await Promise.all([client.fetch(query), client.fetch(query)]);
+    expect(a).toBe(b);
+    await client.fetch(query, { staleTime: 60_000 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await client.fetch(query, { staleTime: 0 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps stale data visible while revalidating', async () => {
+    const client = new QueryClient();
+    const next = deferred<number>();
+    const fetch = vi.fn().mockResolvedValueOnce(1).mockReturnValueOnce(next.promise);
+    const query = { key: 'usage/current/day', fetch };
+
+    await client.fetch(query);
+    const refresh = client.refetch(query);
+    expect(client.getState(query.key)).toMatchObject({ data: 1, isFetching: true });
+
+    next.resolve(2);
+    await refresh;
+    expect(client.getState(query.key)).toMatchObject({ data: 2, isFetching: false });
+  });
+
+  it('refreshes observed queries on invalidation, once more if a request was in flight', async () => {
+    const client = new QueryClient();
+    const first = deferred<number>();
+    const fetch = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue(2);
+    const observed = { key: 'usage/trends/month/day', fetch };
+    const unobserved = { key: 'usage/history/{}', fetch: vi.fn(async () => []) };
+
+    const unsubscribe = client.subscribe(observed, () => {});
+    const request = client.fetch(observed);
+    await client.fetch(unobserved);
+    client.invalidate('usage/');
+
+    first.resolve(1);
+    await request;
+    await vi.waitFor(() => expect(client.getState(observed.key).data).toBe(2));
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(unobserved.fetch).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('drops cached data and results from before a clear, and reloads observed queries', async () => {
+    const client = new QueryClient();
+    const previousAccount = deferred<number>();
+    const fetch = vi.fn().mockReturnValueOnce(previousAccount.promise).mockResolvedValue(2);
+    const observed = { key: 'usage/quota', fetch };
+    const unobserved = { key: 'usage/current/month', fetch: vi.fn(async () => 1) };
+
+    const unsubscribe = client.subscribe(observed, () => {});
+    const request = client.fetch(observed);
+    await client.fetch(unobserved);
+    client.clear();
+
+    previousAccount.resolve(1);
+    await request;
+    await vi.waitFor(() => expect(client.getState(observed.key)).toMatchObject({ data: 2, isFetching: false }));
+    expect(client.getState(unobserved.key).data).toBeUndefined();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,225 @@
+// Shared cache for API reads: callers asking for the same key share one request, cached data
+// is served while it is refreshed in the background, and polled queries refresh on one shared timer
+
+export interface Query<T> {
+  key: string;
+  fetch: () => Promise<T>;
+}
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface FetchOptions {
+  // Cached data younger than this is returned without a request
+  staleTime?: number;
+}
+
+interface QueryEntry {
+  query: Query<unknown>;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  // Invalidated while a request was in flight, so its result may already be out of date
+  refetchQueued: boolean;
+  listeners: Set<() => void>;
+  pollers: number;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+export const POLL_INTERVAL = 60 * 1000;
+
+const IDLE_STATE: QueryState = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+// Keep the previous reference when a refresh returns the same data, so observers do not re-render
+const sameData = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+export class QueryClient {
+  private entries = new Map<string, QueryEntry>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private pollingEnabled = true;
+  // Bumped by clear(), so requests started before it cannot write into the cache
+  private generation = 0;
+
+  getState<T>(key: string): QueryState<T> {
+    return (this.entries.get(key)?.state ?? IDLE_STATE) as QueryState<T>;
+  }
+
+  /**
+   * Cached data while it is fresh, otherwise the result of a request shared with every concurrent caller
+   */
+  fetch<T>(query: Query<T>, { staleTime = DEFAULT_STALE_TIME }: FetchOptions = {}): Promise<T> {
+    const entry = this.getEntry(query);
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    const { state } = entry;
+    if (state.updatedAt > 0 && !state.error && Date.now() - state.updatedAt < staleTime) {
+      return Promise.resolve(state.data as T);
+    }
+    return this.run(entry) as Promise<T>;
+  }
+
+  refetch<T>(query: Query<T>): Promise<T> {
+    return this.fetch(query, { staleTime: 0 });
+  }
+
+  /**
+   * Listen for state changes of a query; polled subscriptions keep the shared timer running
+   */
+  subscribe<T>(query: Query<T>, listener: () => void, { poll = false }: { poll?: boolean } = {}): () => void {
+    const entry = this.getEntry(query);
+    entry.listeners.add(listener);
+    if (poll) {
+      entry.pollers += 1;
+      this.updatePollTimer();
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (poll) {
+        entry.pollers -= 1;
+        this.updatePollTimer();
+      }
+    };
+  }
+
+  /**
+   * Mark every query whose key starts with the prefix as stale and refresh the ones on screen
+   */
+  invalidate(prefix = ''): void {
+    this.entries.forEach((entry, key) => {
+      if (!key.startsWith(prefix)) return;
+      entry.state = { ...entry.state, updatedAt: 0 };
+      // Only refresh queries that are on screen and were loaded before
+      if (entry.listeners.size === 0 || (entry.state.data === undefined && !entry.state.error && !entry.promise)) return;
+
+      if (entry.promise) {
+        entry.refetchQueued = true;
+      } else {
+        this.run(entry).catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * Pause polling while updates are pushed some other way; polled queries keep their subscriptions
+   */
+  setPollingEnabled(enabled: boolean): void {
+    this.pollingEnabled = enabled;
+    this.updatePollTimer();
+  }
+
+  /**
+   * Forget every cached result, e.g. when another account signs in; queries on screen load again
+   */
+  clear(): void {
+    this.generation += 1;
+    this.entries.forEach((entry, key) => {
+      entry.promise = null;
+      entry.refetchQueued = false;
+      if (entry.listeners.size === 0) {
+        this.entries.delete(key);
+        return;
+      }
+      this.setState(entry, IDLE_STATE);
+      this.run(entry).catch(() => {});
+    });
+    this.updatePollTimer();
+  }
+
+  private getEntry(query: Query<unknown>): QueryEntry {
+    let entry = this.entries.get(query.key);
+    if (!entry) {
+      entry = { query, state: IDLE_STATE, promise: null, refetchQueued: false, listeners: new Set(), pollers: 0 };
+      this.entries.set(query.key, entry);
+    } else {
+      // The latest fetcher wins; callers build the same request for the same key
+      entry.query = query;
+    }
+    return entry;
+  }
+
+  private run(entry: QueryEntry): Promise<unknown> {
+    const generation = this.generation;
+    const promise = (async () => {
+      this.setState(entry, { isFetching: true });
+      try {
+        const data = await entry.query.fetch();
+        if (generation !== this.generation) return data;
+        this.setState(entry, {
+          data: sameData(entry.state.data, data) ? entry.state.data : data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+        });
+        return data;
+      } catch (error) {
+        if (generation === this.generation) {
+          console.warn(`⚠️ Query ${entry.query.key} failed:`, error);
+          this.setState(entry, { error, isFetching: false });
+        }
+        throw error;
+      } finally {
+        // After clear() the entry belongs to a newer request
+        if (generation === this.generation) {
+          entry.promise = null;
+        }
+        if (generation === this.generation && entry.refetchQueued) {
+          entry.refetchQueued = false;
+          this.run(entry).catch(() => {});
+        }
+      }
+    })();
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  private setState(entry: QueryEntry, patch: Partial<QueryState>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private updatePollTimer(): void {
+    const polling = this.pollingEnabled && Array.from(this.entries.values()).some(entry => entry.pollers > 0);
+    if (polling && !this.pollTimer) {
+      this.pollTimer = setInterval(this.poll, POLL_INTERVAL);
+      if (typeof document !== 'undefined') document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    } else if (!polling && this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private poll = (): void => {
+    // Hidden tabs skip their rounds and catch up when they become visible again
+    if (typeof document !== 'undefined' && document.hidden) return;
+    this.entries.forEach(entry => {
+      if (entry.pollers > 0 && !entry.promise) {
+        this.run(entry).catch(() => {});
+      }
+    });
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) return;
+    this.entries.forEach(entry => {
+      if (entry.pollers > 0 && !entry.promise && Date.now() - entry.state.updatedAt >= POLL_INTERVAL) {
+        this.run(entry).catch(() => {});
+      }
+    });
+  };
+}
+
+// Export singleton instance
+export const queryClient = new QueryClient();
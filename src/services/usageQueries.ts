@@ -0,0 +1,35 @@
+// Usage reads shared by the dashboard widgets and the quota pre-flight check
+
+import { apiService } from '@/services/api';
+import { queryClient, type Query } from '@/services/queryClient';
+
+export const USAGE_KEY_PREFIX = 'usage/';
+
+type UsagePeriod = Parameters<typeof apiService.getCurrentUsage>[0];
+type TrendPeriod = Parameters<typeof apiService.getUsageTrends>[0];
+type HistoryOptions = NonNullable<Parameters<typeof apiService.getUsageHistory>[0]>;
+
+export const usageQueries = {
+  quota: (): Query<Awaited<ReturnType<typeof apiService.getQuotaStatus>>> => ({
+    key: `${USAGE_KEY_PREFIX}quota`,
+    fetch: () => apiService.getQuotaStatus(),
+  }),
+
+  current: (period: UsagePeriod = 'month'): Query<Awaited<ReturnType<typeof apiService.getCurrentUsage>>> => ({
+    key: `${USAGE_KEY_PREFIX}current/${period}`,
+    fetch: () => apiService.getCurrentUsage(period),
+  }),
+
+  trends: (period: TrendPeriod = 'month', groupBy: TrendPeriod = 'day'): Query<Awaited<ReturnType<typeof apiService.getUsageTrends>>> => ({
+    key: `${USAGE_KEY_PREFIX}trends/${period}/${groupBy}`,
+    fetch: () => apiService.getUsageTrends(period, groupBy),
+  }),
+
+  history: (options: HistoryOptions = {}): Query<Awaited<ReturnType<typeof apiService.getUsageHistory>>> => ({
+    key: `${USAGE_KEY_PREFIX}history/${JSON.stringify(options)}`,
+    fetch: () => apiService.getUsageHistory(options),
+  }),
+};
+
+// Every correction request changes usage; refresh whatever is on screen
+window.addEventListener('usage:changed', () => queryClient.invalidate(USAGE_KEY_PREFIX));
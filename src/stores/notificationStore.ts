@@ -0,0 +1,104 @@
+// Zustand store for toast notifications, replacing alert() and confirm()
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+
+import type { AppNotification, NotificationType } from '@/types';
+import { getErrorMessage } from '@/services/apiErrors';
+
+const DEFAULT_DURATION = 5000;
+// Older toasts are dropped beyond this, so a burst of failures does not cover the page
+const MAX_NOTIFICATIONS = 5;
+
+type NotifyOptions = Partial<Pick<AppNotification, 'title' | 'duration' | 'actions'>>;
+
+interface ConfirmOptions {
+  title?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+interface NotificationStore {
+  notifications: AppNotification[];
+  notify: (type: NotificationType, message: string, options?: NotifyOptions) => string;
+  notifyError: (error: unknown, title?: string) => string;
+  confirm: (message: string, options?: ConfirmOptions) => Promise<boolean>;
+  dismiss: (id: string) => void;
+  clear: () => void;
+}
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+// Confirmations still waiting for an answer; closing one counts as cancelling
+const pendingConfirms = new Map<string, (confirmed: boolean) => void>();
+
+export const useNotificationStore = create<NotificationStore>()(
+  devtools((set, get) => ({
+    notifications: [],
+
+    notify: (type, message, options = {}) => {
+      const id = `notification-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+      const notification: AppNotification = {
+        id,
+        type,
+        message,
+        title: options.title,
+        actions: options.actions,
+        duration: options.duration ?? (options.actions ? 0 : DEFAULT_DURATION),
+      };
+
+      const overflow = get().notifications.length - (MAX_NOTIFICATIONS - 1);
+      get().notifications.slice(0, Math.max(0, overflow)).forEach(old => get().dismiss(old.id));
+      set(state => ({ notifications: [...state.notifications, notification] }));
+
+      if (notification.duration > 0) {
+        timers.set(id, setTimeout(() => get().dismiss(id), notification.duration));
+      }
+      return id;
+    },
+
+    notifyError: (error, title) => {
+      console.error('🔔 Showing error notification:', error);
+      return get().notify('error', getErrorMessage(error), { title });
+    },
+
+    confirm: (message, options = {}) => new Promise<boolean>(resolve => {
+      const answer = (confirmed: boolean) => {
+        pendingConfirms.delete(id);
+        resolve(confirmed);
+        get().dismiss(id);
+      };
+      const id = get().notify('warning', message, {
+        title: options.title,
+        actions: [
+          { label: options.confirmLabel ?? '確定', onClick: () => answer(true), primary: true },
+          { label: options.cancelLabel ?? '取消', onClick: () => answer(false) },
+        ],
+      });
+      pendingConfirms.set(id, resolve);
+    }),
+
+    dismiss: (id) => {
+      clearTimeout(timers.get(id));
+      timers.delete(id);
+      pendingConfirms.get(id)?.(false);
+      pendingConfirms.delete(id);
+      set(state => ({ notifications: state.notifications.filter(n => n.id !== id) }));
+    },
+
+    clear: () => get().notifications.forEach(n => get().dismiss(n.id)),
+  }),
+  {
+    name: 'notification-store',
+  })
+);
+
+// Selector hooks
+export const useNotifications = () => useNotificationStore(state => state.notifications);
+
+// Shorthands for code outside React components
+export const notify = (type: NotificationType, message: string, options?: NotifyOptions) =>
+  useNotificationStore.getState().notify(type, message, options);
+export const notifyError = (error: unknown, title?: string) =>
+  useNotificationStore.getState().notifyError(error, title);
+export const confirmAction = (message: string, options?: ConfirmOptions) =>
+  useNotificationStore.getState().confirm(message, options);
@@ -0,0 +1,51 @@
+// Zustand store for the re-login prompt shown when the session can no longer be refreshed
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+
+interface SessionStore {
+  isReloginRequired: boolean;
+  // Resolves true once the user has signed in again, false if they give up
+  requestRelogin: (signal?: AbortSignal | null) => Promise<boolean>;
+  completeRelogin: (signedIn: boolean) => void;
+}
+
+// Requests that hit an expired session together all wait on the same prompt
+let pendingRelogin: { promise: Promise<boolean>; resolve: (signedIn: boolean) => void } | null = null;
+
+export const useSessionStore = create<SessionStore>()(
+  devtools((set) => ({
+    isReloginRequired: false,
+
+    requestRelogin: (signal) => {
+      if (!pendingRelogin) {
+        let resolve!: (signedIn: boolean) => void;
+        const promise = new Promise<boolean>(r => { resolve = r; });
+        pendingRelogin = { promise, resolve };
+        set({ isReloginRequired: true });
+        console.warn('🔐 Session expired - asking the user to sign in again');
+      }
+
+      const { promise } = pendingRelogin;
+      if (!signal) return promise;
+      // A cancelled request stops waiting, but the prompt stays for anyone else
+      return new Promise<boolean>(resolve => {
+        if (signal.aborted) return resolve(false);
+        signal.addEventListener('abort', () => resolve(false), { once: true });
+        promise.then(resolve);
+      });
+    },
+
+    completeRelogin: (signedIn) => {
+      pendingRelogin?.resolve(signedIn);
+      pendingRelogin = null;
+      set({ isReloginRequired: false });
+      console.log(signedIn ? '🔓 Signed in again - resuming interrupted requests' : '🔒 Re-login cancelled');
+    },
+  }),
+  {
+    name: 'session-store',
+  })
+);
+
+export const useIsReloginRequired = () => useSessionStore(state => state.isReloginRequired);
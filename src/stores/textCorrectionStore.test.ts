@@ -0,0 +1,344 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { HistoryEntry, QuotaInfo } from '@/types';
+import { createParagraphsFromSource } from '@/utils/textProcessor';
+import { DEFAULT_CORRECTION_OPTIONS } from '@/utils/correctionOptions';
+import { EMPTY_USER_DICTIONARY } from '@/utils/userDictionary';
+import { config } from '@/utils/config';
+
+const api = vi.hoisted(() => ({
+  getQuotaStatus: vi.fn(),
+  getCurrentUsage: vi.fn(),
+  getUserProfile: vi.fn(),
+  importGoogleDoc: vi.fn(),
+  correctParagraphs: vi.fn(),
+  correctParagraphsStream: vi.fn(),
+  applyGoogleDocsChanges: vi.fn(),
+}));
+vi.mock('@/services/api', () => ({
+  apiService: api,
+  StreamingUnavailableError: class StreamingUnavailableError extends Error {},
+}));
+vi.mock('@/config/supabase', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null }, error: null }) } },
+}));
+
+const { useTextCorrectionStore } = await import('./textCorrectionStore');
+const { queryClient } = await import('@/services/queryClient');
+const { usageQueries } = await import('@/services/usageQueries');
+
+const quota = (type: QuotaInfo['type'], remaining: number, limit = 1000): QuotaInfo => ({
+  type,
+  limit,
+  used: limit - remaining,
+  remaining,
+  resetDate: new Date('2024-02-01'),
+  tier: 'free',
+  percentageUsed: 0,
+  isExceeded: remaining <= 0,
+});
+
+const importedDocument = {
+  title: '示範文件',
+  content: '第一段落的文字內容。\n\n第二段落的文字內容。',
+  paragraphs: [
+    { id: 'p.1', text: '第一段落的文字內容。', style: 'NORMAL_TEXT' },
+    { id: 'p.2', text: '第二段落的文字內容。', style: 'NORMAL_TEXT' },
+  ],
+  metadata: { lastModified: '2024-01-01', wordCount: 20 },
+};
+
+describe('textCorrectionStore', () => {
+  beforeEach(() => {
+    Object.values(api).forEach(fn => fn.mockReset());
+    api.getCurrentUsage.mockResolvedValue({ success: true, data: {} });
+    queryClient.clear();
+    useTextCorrectionStore.getState().resetState();
+    useTextCorrectionStore.setState({
+      quota: null,
+      quotaPrompt: null,
+      preferencesUserId: null,
+      correctionOptions: DEFAULT_CORRECTION_OPTIONS,
+      userDictionary: EMPTY_USER_DICTIONARY,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'group').mockImplementation(() => {});
+    vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+  });
+
+  describe('quota pre-flight for Google Docs', () => {
+    it('checks the imported paragraphs and stops when the user cancels', async () => {
+      api.importGoogleDoc.mockResolvedValue({ success: true, data: importedDocument });
+      api.getQuotaStatus.mockResolvedValue({ success: true, data: [quota('monthly_characters', 5)] });
+      useTextCorrectionStore.setState({
+        inputMethod: 'google-docs',
+        googleDocsUrl: 'https://docs.google.com/document/d/abc123/edit',
+      });
+
+      const run = useTextCorrectionStore.getState().startProcessing();
+      await vi.waitFor(() => expect(useTextCorrectionStore.getState().quotaPrompt?.status).toBe('exceeded'));
+      expect(useTextCorrectionStore.getState().quotaPrompt?.usage.paragraphs).toBe(2);
+
+      useTextCorrectionStore.getState().resolveQuotaPrompt('cancel');
+      await run;
+      expect(useTextCorrectionStore.getState().quotaPrompt).toBeNull();
+      expect(useTextCorrectionStore.getState().isProcessing).toBe(false);
+      expect(api.correctParagraphs).not.toHaveBeenCalled();
+      expect(api.correctParagraphsStream).not.toHaveBeenCalled();
+    });
+
+    it('accepts documents past the regular limit and rejects oversized ones before asking', async () => {
+      const longText = '長文件的段落內容。'.repeat(1200);
+      const longDocument = { ...importedDocument, content: longText, paragraphs: [{ id: 'p.1', text: longText, style: 'NORMAL_TEXT' }] };
+      api.importGoogleDoc.mockResolvedValue({ success: true, data: longDocument });
+      api.getQuotaStatus.mockResolvedValue({ success: true, data: [quota('monthly_characters', 5)] });
+      useTextCorrectionStore.setState({
+        inputMethod: 'google-docs',
+        googleDocsUrl: 'https://docs.google.com/document/d/abc123/edit',
+      });
+
+      const run = useTextCorrectionStore.getState().startProcessing();
+      await vi.waitFor(() => expect(useTextCorrectionStore.getState().quotaPrompt).not.toBeNull());
+      useTextCorrectionStore.getState().resolveQuotaPrompt('cancel');
+      await run;
+      expect(useTextCorrectionStore.getState().error).toBeNull();
+
+      const oversized = 'x'.repeat(config.maxLargeDocumentLength + 1);
+      api.importGoogleDoc.mockResolvedValue({ success: true, data: { ...longDocument, content: oversized } });
+      api.getQuotaStatus.mockClear();
+      await useTextCorrectionStore.getState().startProcessing();
+      expect(useTextCorrectionStore.getState().error).toBeTruthy();
+      expect(useTextCorrectionStore.getState().quotaPrompt).toBeNull();
+      expect(api.getQuotaStatus).not.toHaveBeenCalled();
+    });
+
+    it('goes ahead without asking when the document fits', async () => {
+      api.getQuotaStatus.mockResolvedValue({ success: true, data: [quota('monthly_characters', 1000)] });
+
+      const decision = await useTextCorrectionStore.getState().confirmQuota(createParagraphsFromSource(importedDocument.paragraphs));
+      expect(decision).toEqual({ proceed: true, limitToQuota: false });
+      expect(useTextCorrectionStore.getState().quotaPrompt).toBeNull();
+    });
+  });
+
+  describe('quota', () => {
+    it('is fetched again after usage changes only when a check needs it', async () => {
+      api.getQuotaStatus.mockResolvedValue({ success: true, data: [quota('monthly_characters', 1000)] });
+      // A fresh copy of the store, so nothing it set up on import was cleared by earlier tests
+      vi.resetModules();
+      const { useTextCorrectionStore: freshStore } = await import('./textCorrectionStore');
+      const { loadQuota } = freshStore.getState();
+
+      await loadQuota();
+      await loadQuota();
+      expect(api.getQuotaStatus).toHaveBeenCalledTimes(1);
+
+      window.dispatchEvent(new Event('usage:changed'));
+      await Promise.resolve();
+      expect(api.getQuotaStatus).toHaveBeenCalledTimes(1);
+
+      await loadQuota();
+      expect(api.getQuotaStatus).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('batch tuning', () => {
+    it('does not fetch or wait for usage on a cancelled run, and shares the cached usage', async () => {
+      let resolveUsage: (value: unknown) => void = () => {};
+      api.getCurrentUsage.mockImplementation(() => new Promise(resolve => { resolveUsage = resolve; }));
+      api.correctParagraphs.mockRejectedValue(new DOMException('Aborted', 'AbortError'));
+      const paragraphs = createParagraphsFromSource(importedDocument.paragraphs);
+      useTextCorrectionStore.setState({ paragraphs });
+      const { processParagraphBatches } = useTextCorrectionStore.getState();
+
+      const cancelled = new AbortController();
+      cancelled.abort();
+      await processParagraphBatches(paragraphs, DEFAULT_CORRECTION_OPTIONS, cancelled.signal).catch(() => {});
+      expect(api.getCurrentUsage).not.toHaveBeenCalled();
+
+      const cancelledWhileLoading = new AbortController();
+      const run = processParagraphBatches(paragraphs, DEFAULT_CORRECTION_OPTIONS, cancelledWhileLoading.signal).catch(() => {});
+      cancelledWhileLoading.abort();
+      await run;
+      expect(api.getCurrentUsage).toHaveBeenCalledTimes(1);
+
+      resolveUsage({ success: true, data: { averageProcessingTime: 900 } });
+      await processParagraphBatches(paragraphs, DEFAULT_CORRECTION_OPTIONS, new AbortController().signal).catch(() => {});
+      expect(api.getCurrentUsage).toHaveBeenCalledTimes(1);
+      expect(queryClient.getState(usageQueries.current('day').key).data).toEqual({ success: true, data: { averageProcessingTime: 900 } });
+    });
+  });
+
+  describe('processing only what fits in the quota', () => {
+    it('leaves the rest pending instead of failed, and retrying failures does not send it', async () => {
+      api.correctParagraphsStream.mockResolvedValue(undefined);
+      api.correctParagraphs.mockImplementation(async (batch: Array<{ id: string; text: string }>) => ({
+        success: true,
+        data: { results: batch.map(p => ({ paragraphId: p.id, status: 'completed', corrections: [], correctedText: p.text })) },
+      }));
+      const paragraphs = createParagraphsFromSource(importedDocument.paragraphs);
+      useTextCorrectionStore.setState({ limitToQuota: true, quota: [quota('monthly_characters', 12)] });
+
+      await useTextCorrectionStore.getState().processParagraphs(paragraphs);
+      const [sent, skipped] = useTextCorrectionStore.getState().paragraphs;
+      expect(sent).toMatchObject({ status: 'completed' });
+      expect(skipped).toMatchObject({ status: 'pending', skippedForQuota: true });
+
+      api.correctParagraphs.mockClear();
+      await useTextCorrectionStore.getState().retryFailedParagraphs();
+      expect(api.correctParagraphs).not.toHaveBeenCalled();
+
+      await useTextCorrectionStore.getState().resumeProcessing();
+      expect(useTextCorrectionStore.getState().paragraphs[1]).toMatchObject({ status: 'completed', skippedForQuota: false });
+    });
+  });
+
+  describe('user preferences', () => {
+    const profile = (correctionLevel: string, protectedTerms: string[]) => ({
+      success: true,
+      data: { profile: { id: 'user-1', email: 'a@example.com', name: 'A', preferences: { correctionLevel, dictionary: { protectedTerms } } } },
+    });
+
+    it('loads once per user and keeps settings changed afterwards', async () => {
+      api.getUserProfile.mockResolvedValue(profile('advanced', ['雲端原生']));
+      const store = useTextCorrectionStore.getState();
+
+      await store.loadUserPreferences('user-1');
+      expect(useTextCorrectionStore.getState().correctionOptions.correctionLevel).toBe('advanced');
+
+      store.setCorrectionOptions({ correctionLevel: 'basic' });
+      await store.loadUserPreferences('user-1');
+      expect(api.getUserProfile).toHaveBeenCalledTimes(1);
+      expect(useTextCorrectionStore.getState().correctionOptions.correctionLevel).toBe('basic');
+
+      await store.loadUserPreferences('user-2');
+      expect(api.getUserProfile).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not overwrite settings changed while the profile loads', async () => {
+      let respond: (value: unknown) => void = () => {};
+      api.getUserProfile.mockReturnValue(new Promise(resolve => { respond = resolve; }));
+      const store = useTextCorrectionStore.getState();
+
+      const loading = store.loadUserPreferences('user-1');
+      store.setCorrectionOptions({ correctionLevel: 'basic' });
+      respond(profile('advanced', ['雲端原生']));
+      await loading;
+
+      expect(useTextCorrectionStore.getState().correctionOptions.correctionLevel).toBe('basic');
+      expect(useTextCorrectionStore.getState().userDictionary.protectedTerms).toEqual(['雲端原生']);
+    });
+
+    it('tries again after a failed load', async () => {
+      api.getUserProfile.mockRejectedValueOnce(new Error('offline')).mockResolvedValue(profile('advanced', []));
+      const store = useTextCorrectionStore.getState();
+
+      await store.loadUserPreferences('user-1');
+      await store.loadUserPreferences('user-1');
+      expect(api.getUserProfile).toHaveBeenCalledTimes(2);
+      expect(useTextCorrectionStore.getState().correctionOptions.correctionLevel).toBe('advanced');
+    });
+  });
+
+  describe('replacing paragraph corrections', () => {
+    const text = '這是一个測試，有錯别字。';
+    const correction = (original: string, corrected: string) => {
+      const start = text.indexOf(original);
+      return { original, corrected, position: { start, end: start + original.length }, type: 'spelling' as const };
+    };
+
+    beforeEach(() => {
+      useTextCorrectionStore.setState({
+        paragraphs: [{ id: 'p1', text, corrections: [correction('一个', '一個')], status: 'completed', correctedText: '這是一個測試，有錯别字。' }],
+        correctionDecisions: { 'p1:0': 'accepted' },
+      });
+    });
+
+    it('keeps the text to accepted corrections in review mode', () => {
+      useTextCorrectionStore.setState({ reviewMode: true });
+      useTextCorrectionStore.getState().updateParagraphCorrections('p1', [correction('别', '別'), correction('一个', '一個')]);
+
+      const state = useTextCorrectionStore.getState();
+      expect(state.paragraphs[0].correctedText).toBe(text);
+      expect(state.correctionDecisions).toEqual({ 'p1:0': 'pending', 'p1:1': 'pending' });
+    });
+
+    it('drops decisions made on the replaced corrections', () => {
+      useTextCorrectionStore.setState({ correctionDecisions: { 'p1:0': 'rejected' } });
+      useTextCorrectionStore.getState().updateParagraphCorrections('p1', [correction('别', '別')]);
+
+      const state = useTextCorrectionStore.getState();
+      expect(state.paragraphs[0].correctedText).toBe('這是一个測試，有錯別字。');
+      expect(state.correctionDecisions).toEqual({});
+    });
+
+    it('moves decisions along when a streamed correction sorts before them', () => {
+      useTextCorrectionStore.setState({
+        reviewMode: true,
+        paragraphs: [{ id: 'p1', text, corrections: [correction('别', '別')], status: 'processing', correctedText: '這是一个測試，有錯別字。' }],
+        correctionDecisions: { 'p1:0': 'accepted' },
+      });
+      useTextCorrectionStore.getState().appendParagraphCorrection('p1', correction('一个', '一個'));
+
+      const state = useTextCorrectionStore.getState();
+      expect(state.paragraphs[0].corrections.map(c => c.original)).toEqual(['一个', '别']);
+      expect(state.correctionDecisions).toEqual({ 'p1:0': 'pending', 'p1:1': 'accepted' });
+      expect(state.paragraphs[0].correctedText).toBe('這是一个測試，有錯別字。');
+    });
+  });
+
+  describe('history', () => {
+    const googleDocsEntry: HistoryEntry = {
+      id: 'entry-1',
+      userId: 'user-1',
+      title: '示範文件',
+      inputText: importedDocument.content,
+      inputMethod: 'google-docs',
+      googleDocsUrl: 'https://docs.google.com/document/d/abc123/edit',
+      googleDocsSource: {
+        documentId: 'abc123',
+        url: 'https://docs.google.com/document/d/abc123/edit',
+        title: importedDocument.title,
+        paragraphs: importedDocument.paragraphs,
+      },
+      options: useTextCorrectionStore.getState().correctionOptions,
+      paragraphs: createParagraphsFromSource(importedDocument.paragraphs),
+      correctionCount: 0,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      completedAt: '2024-01-01T00:01:00.000Z',
+    };
+
+    it('restores the input method and source of the session', () => {
+      useTextCorrectionStore.getState().restoreHistoryEntry(googleDocsEntry);
+
+      const state = useTextCorrectionStore.getState();
+      expect(state.inputMethod).toBe('google-docs');
+      expect(state.googleDocsUrl).toBe(googleDocsEntry.googleDocsUrl);
+      expect(state.googleDocsSource?.documentId).toBe('abc123');
+      expect(state.isCompleted).toBe(true);
+    });
+
+    it('restores sessions saved without their source as direct text', () => {
+      const legacyEntry: HistoryEntry = { ...googleDocsEntry, googleDocsUrl: undefined, googleDocsSource: undefined };
+      useTextCorrectionStore.getState().restoreHistoryEntry(legacyEntry);
+
+      expect(useTextCorrectionStore.getState().inputMethod).toBe('direct');
+      expect(useTextCorrectionStore.getState().inputText).toBe(importedDocument.content);
+    });
+
+    it('runs the quota check before re-running a session', async () => {
+      api.getQuotaStatus.mockResolvedValue({ success: true, data: [quota('monthly_characters', 5)] });
+      const directEntry: HistoryEntry = { ...googleDocsEntry, inputMethod: 'direct', googleDocsUrl: undefined, googleDocsSource: null };
+
+      const run = useTextCorrectionStore.getState().rerunHistoryEntry(directEntry);
+      await vi.waitFor(() => expect(useTextCorrectionStore.getState().quotaPrompt?.status).toBe('exceeded'));
+
+      useTextCorrectionStore.getState().resolveQuotaPrompt('cancel');
+      await run;
+      expect(useTextCorrectionStore.getState().isProcessing).toBe(false);
+      expect(api.correctParagraphs).not.toHaveBeenCalled();
+      expect(api.correctParagraphsStream).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,28 +3,129 @@
 import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 
-import type { AppState, Paragraph, TextCorrection } from '@/types';
-import { apiService } from '@/services/api';
-import { splitIntoParagraphs, createParagraphs, validateTextInput, validateGoogleDocsUrl } from '@/utils/textProcessor';
+import type { AppState, QuotaInfo, CorrectionDecision, CorrectionOptions, UserDictionary, GoogleDocsApplyMode, GoogleDocsImport, GoogleDocsApplyResult, HistoryEntry, InputMethod, Paragraph, RichTextDocument, TextCorrection, UploadedFile } from '@/types';
+import { apiService, StreamingUnavailableError } from '@/services/api';
+import { createApiError, getErrorMessage } from '@/services/apiErrors';
+import { historyStorage } from '@/services/historyStorage';
+import { largeDocumentProgress } from '@/services/largeDocumentProgress';
+import { queryClient } from '@/services/queryClient';
+import { usageQueries } from '@/services/usageQueries';
+import type { SavedLargeDocument } from '@/services/largeDocumentProgress';
+import { supabase } from '@/config/supabase';
+import { DEFAULT_CORRECTION_OPTIONS, toCorrectionOptions } from '@/utils/correctionOptions';
+import { createParagraphsFromBlocks, createParagraphsFromSegments, validateTextInput, validateGoogleDocsUrl, getCorrectionKey, applyReviewedCorrections, extractGoogleDocsId, createParagraphsFromSource, createParagraphsFromChunks } from '@/utils/textProcessor';
+import { splitIntoChunks } from '@/utils/documentChunker';
+import { segmentText } from '@/utils/segmenter';
+import { createParagraphsFromRichText, getRichTextPlainText } from '@/utils/richText';
+import { getUploadedFileText } from '@/utils/fileImport';
+import { filterCorrectionsForParagraph } from '@/utils/paragraphStyles';
+import { applyCorrectionsAccurately } from '@/utils/correctionEngine';
+import { EMPTY_USER_DICTIONARY, applyUserDictionary, normalizeUserDictionary } from '@/utils/userDictionary';
+import { buildGoogleDocsWriteBackPlan } from '@/utils/googleDocsWriteBack';
+import { convertChinese, getConversionTarget } from '@/utils/chineseConversion';
+import { config } from '@/utils/config';
+import { AdaptiveBatchScheduler } from '@/utils/batchScheduler';
+import { checkQuota, type QuotaCheck } from '@/utils/quotaCheck';
+
+// Server-side average processing time tunes batch scheduling; the shared copy is reused for a few minutes
+const USAGE_TUNING_TTL = 5 * 60 * 1000;
+
+async function getAverageProcessingTime(signal?: AbortSignal): Promise<number | null> {
+  if (signal?.aborted) return null;
+  // The shared request keeps going for other readers; a cancelled run just stops waiting for it
+  const cancelled = new Promise<null>(resolve => signal?.addEventListener('abort', () => resolve(null), { once: true }));
+  try {
+    const usage = await Promise.race([
+      queryClient.fetch(usageQueries.current('day'), { staleTime: USAGE_TUNING_TTL }),
+      cancelled,
+    ]);
+    return usage?.data?.averageProcessingTime ?? null;
+  } catch (error) {
+    // Tuning is optional; the run goes ahead with the default schedule
+    console.warn('Failed to load usage for batch tuning:', error);
+    return null;
+  }
+}
+
+// Quota is fetched again before a run once the shared cached copy is this old
+const QUOTA_TTL = 60 * 1000;
+
+export type QuotaDecision = 'continue' | 'fitting' | 'cancel';
+
+// Input method and source of a saved session; sessions saved without their source come back as direct text
+function getHistorySource(entry: HistoryEntry): Pick<AppState, 'inputMethod' | 'googleDocsUrl' | 'googleDocsSource' | 'richTextSource' | 'uploadedFile'> {
+  const source = {
+    googleDocsUrl: entry.googleDocsUrl ?? '',
+    googleDocsSource: entry.googleDocsSource ?? null,
+    richTextSource: entry.richTextSource ?? null,
+    uploadedFile: entry.uploadedFile ?? null,
+  };
+  const hasSource = entry.inputMethod === 'google-docs' ? Boolean(source.googleDocsUrl)
+    : entry.inputMethod === 'rich-text' ? Boolean(source.richTextSource)
+    : entry.inputMethod === 'file' ? Boolean(source.uploadedFile)
+    : true;
+  return { ...source, inputMethod: hasSource ? entry.inputMethod : 'direct' };
+}
+
+// The run waiting on the quota pre-flight dialog
+let pendingQuotaDecision: ((decision: QuotaDecision) => void) | null = null;
 
 interface TextCorrectionStore extends AppState {
   // Actions
-  setInputMethod: (method: 'direct' | 'google-docs') => void;
+  setInputMethod: (method: InputMethod) => void;
   setInputText: (text: string) => void;
   setGoogleDocsUrl: (url: string) => void;
+  setRichTextSource: (document: RichTextDocument | null) => void;
+  setUploadedFile: (file: UploadedFile | null) => void;
+  setCorrectionOptions: (options: Partial<CorrectionOptions>) => void;
+  setUserDictionary: (dictionary: UserDictionary) => void;
+  // The user whose saved preferences were loaded; they load once per user, so later changes in this session are kept
+  preferencesUserId: string | null;
+  loadUserPreferences: (userId: string) => Promise<void>;
   setShowAnimation: (show: boolean) => void;
   setAnimationSpeed: (speed: number) => void;
   
+  // Quota
+  // Check shown in the pre-flight dialog while a run waits for the user's decision
+  quotaPrompt: QuotaCheck | null;
+  loadQuota: (force?: boolean) => Promise<QuotaInfo[] | null>;
+  checkQuota: (paragraphs?: Paragraph[]) => Promise<QuotaCheck | null>;
+  confirmQuota: (paragraphs?: Paragraph[]) => Promise<{ proceed: boolean; limitToQuota: boolean }>;
+  resolveQuotaPrompt: (decision: QuotaDecision) => void;
+
   // Core processing actions
-  startProcessing: () => Promise<void>;
+  startProcessing: (options?: { limitToQuota?: boolean }) => Promise<void>;
   processWithGoogleDocs: () => Promise<void>;
+  processGoogleDocsImport: (url: string, document: NonNullable<GoogleDocsImport['data']>, options?: { limitToQuota?: boolean }) => Promise<void>;
   processDirectText: () => Promise<void>;
+  processRichText: () => Promise<void>;
+  processUploadedFile: () => Promise<void>;
+  processParagraphs: (paragraphs: Paragraph[]) => Promise<void>;
+  processParagraphsStreaming: (paragraphs: Paragraph[], signal?: AbortSignal) => Promise<void>;
+  processParagraphBatches: (paragraphs: Paragraph[], options: CorrectionOptions, signal?: AbortSignal) => Promise<void>;
+  resumeProcessing: () => Promise<void>;
+  retryFailedParagraphs: () => Promise<void>;
+  resumeSavedLargeDocument: (saved: SavedLargeDocument) => Promise<void>;
   resetState: () => void;
   cancelProcessing: () => void;
   
+  // Google Docs write-back
+  writeBackToGoogleDocs: (mode: GoogleDocsApplyMode) => Promise<GoogleDocsApplyResult>;
+  
+  // History
+  saveToHistory: (startedAt: string) => Promise<void>;
+  restoreHistoryEntry: (entry: HistoryEntry) => void;
+  rerunHistoryEntry: (entry: HistoryEntry, options?: Partial<CorrectionOptions>) => Promise<void>;
+  
   // Paragraph management
   updateParagraphStatus: (id: string, status: Paragraph['status']) => void;
   updateParagraphCorrections: (id: string, corrections: TextCorrection[], correctedText?: string) => void;
+  appendParagraphCorrection: (id: string, correction: TextCorrection) => void;
+  
+  // Review mode
+  setReviewMode: (enabled: boolean) => void;
+  setCorrectionDecision: (paragraphId: string, correctionIndex: number, decision: CorrectionDecision) => void;
+  setAllCorrectionDecisions: (decision: CorrectionDecision) => void;
   
   // Error handling
   setError: (error: string | null) => void;
@@ -35,13 +136,26 @@ const initialState: AppState = {
   inputMethod: 'direct',
   inputText: '',
   googleDocsUrl: '',
+  richTextSource: null,
+  uploadedFile: null,
+  correctionOptions: DEFAULT_CORRECTION_OPTIONS,
+  lastRunOptions: null,
+  userDictionary: EMPTY_USER_DICTIONARY,
+  googleDocsSource: null,
   isProcessing: false,
+  isStreaming: false,
   processingProgress: 0,
   currentParagraphIndex: 0,
   paragraphs: [],
   isCompleted: false,
+  historyEntryId: null,
+  largeDocument: null,
+  quota: null,
+  limitToQuota: false,
   showAnimation: true,
   animationSpeed: 80, // ms per character
+  reviewMode: false,
+  correctionDecisions: {},
   error: null,
   currentAbortController: null,
 };
@@ -50,11 +164,26 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
   devtools(
     subscribeWithSelector((set, get) => ({
       ...initialState,
+      quotaPrompt: null,
+      preferencesUserId: null,
 
       // Basic setters
       setInputMethod: (method) => set({ inputMethod: method }),
       setInputText: (text) => set({ inputText: text }),
       setGoogleDocsUrl: (url) => set({ googleDocsUrl: url }),
+      // The plain text drives validation, counters and history; the formatted blocks are what gets corrected
+      setRichTextSource: (document) => set({
+        richTextSource: document,
+        inputText: document ? getRichTextPlainText(document) : '',
+      }),
+      setUploadedFile: (file) => set({
+        uploadedFile: file,
+        inputText: file ? getUploadedFileText(file) : '',
+      }),
+      setCorrectionOptions: (options) => set(state => ({
+        correctionOptions: { ...state.correctionOptions, ...options },
+      })),
+      setUserDictionary: (dictionary) => set({ userDictionary: normalizeUserDictionary(dictionary) }),
       setShowAnimation: (show) => set({ showAnimation: show }),
       setAnimationSpeed: (speed) => set({ animationSpeed: speed }),
       setError: (error) => set({ error }),
@@ -67,25 +196,136 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
         if (state.currentAbortController) {
           state.currentAbortController.abort();
         }
-        set(initialState);
+        // An explicit reset abandons the large document, so it is not offered for resuming later
+        if (state.largeDocument) {
+          largeDocumentProgress.clearDocument(state.largeDocument.id);
+        }
+        // Correction settings and the dictionary are user preferences, and the quota belongs to the account, not the session
+        set({ ...initialState, correctionOptions: state.correctionOptions, userDictionary: state.userDictionary, quota: state.quota });
+      },
+
+      // Load the signed-in user's saved preferences from their profile, once per user
+      loadUserPreferences: async (userId) => {
+        if (get().preferencesUserId === userId) return;
+        set({ preferencesUserId: userId });
+
+        // Settings changed while the profile loads win over the saved ones
+        const { correctionOptions, userDictionary } = get();
+        try {
+          const response = await apiService.getUserProfile();
+          if (get().preferencesUserId !== userId) return;
+          if (!response.success) {
+            set({ preferencesUserId: null });
+            return;
+          }
+
+          const { preferences } = response.data.profile;
+          set(state => ({
+            correctionOptions: state.correctionOptions === correctionOptions ? toCorrectionOptions(preferences) : state.correctionOptions,
+            userDictionary: state.userDictionary === userDictionary ? normalizeUserDictionary(preferences.dictionary) : state.userDictionary,
+          }));
+          console.log('📖 Loaded user preferences:', {
+            ...get().correctionOptions,
+            protectedTerms: get().userDictionary.protectedTerms.length,
+            preferredSpellings: get().userDictionary.preferredSpellings.length,
+          });
+        } catch (error) {
+          console.warn('Failed to load user preferences:', error);
+          // Try again the next time they are needed
+          if (get().preferencesUserId === userId) set({ preferencesUserId: null });
+        }
       },
 
-      // Cancel current processing
+      // Cancel current processing; finished paragraphs are kept and unfinished ones can be resumed
       cancelProcessing: () => {
         const state = get();
         if (state.currentAbortController) {
           state.currentAbortController.abort();
         }
+        const paragraphs = state.paragraphs.map(p =>
+          p.status === 'processing' ? { ...p, status: 'pending' as const } : p
+        );
         set({
+          paragraphs,
           isProcessing: false,
+          isStreaming: false,
+          isCompleted: paragraphs.some(p => p.status === 'completed'),
           processingProgress: 0,
           currentAbortController: null,
           error: 'Processing cancelled by user'
         });
+        console.log(`🛑 Processing cancelled, ${paragraphs.filter(p => p.status === 'pending').length} paragraphs left pending`);
+      },
+
+      // Fetch the quota status when a run needs it, reusing the shared cached copy while it is fresh
+      // Usage changes mark that copy stale, so the next check after a run asks the server again
+      loadQuota: async (force = false) => {
+        try {
+          const result = await queryClient.fetch(usageQueries.quota(), { staleTime: force ? 0 : QUOTA_TTL });
+          set({ quota: result.data ?? [] });
+          return get().quota;
+        } catch (error) {
+          console.warn('Failed to load quota status:', error);
+          return get().quota;
+        }
+      },
+
+      // Estimate what correcting the current input, or the given paragraphs, will use and compare it with the remaining quota
+      // Returns null when nothing is sent to the API or the quota is unknown, so the run just goes ahead
+      checkQuota: async (paragraphs) => {
+        const { inputMethod, inputText, richTextSource, uploadedFile, correctionOptions } = get();
+        // Conversion runs locally; Google Docs content is only known once imported, and is checked with its paragraphs then
+        if (correctionOptions.mode === 'conversion') return null;
+        if (!paragraphs && (inputMethod === 'google-docs' || !inputText.trim())) return null;
+
+        const quota = await get().loadQuota();
+        if (!quota || quota.length === 0) return null;
+
+        // Split the input the same way the run will
+        const isLargeDocument = !paragraphs && inputMethod === 'direct' && inputText.length > config.maxTextLength;
+        const runParagraphs = paragraphs ?? (inputMethod === 'rich-text' && richTextSource
+          ? createParagraphsFromRichText(richTextSource)
+          : inputMethod === 'file' && uploadedFile
+            ? createParagraphsFromBlocks(uploadedFile.blocks)
+            : isLargeDocument
+              ? createParagraphsFromChunks(inputText, splitIntoChunks(inputText))
+              : createParagraphsFromSegments(segmentText(inputText)));
+        const pendingCount = runParagraphs.filter(p => p.status === 'pending').length;
+
+        const result = checkQuota(runParagraphs, quota, {
+          streaming: config.enableStreaming && !isLargeDocument && pendingCount <= config.maxParagraphs,
+          maxBatchParagraphs: config.maxParagraphs,
+        });
+        console.log('📏 Quota pre-flight check:', result);
+        return result;
+      },
+
+      // Run the pre-flight check and, when the run would exceed or nearly exhaust the quota, wait for the user's decision
+      confirmQuota: async (paragraphs) => {
+        const check = await get().checkQuota(paragraphs);
+        if (!check || check.status === 'ok') {
+          return { proceed: true, limitToQuota: false };
+        }
+
+        console.warn('📏 Run would exceed or nearly exhaust the remaining quota:', check);
+        // A newer run replaces a prompt that is still open
+        pendingQuotaDecision?.('cancel');
+        const decision = await new Promise<QuotaDecision>(resolve => {
+          pendingQuotaDecision = resolve;
+          set({ quotaPrompt: check });
+        });
+        return { proceed: decision !== 'cancel', limitToQuota: decision === 'fitting' };
+      },
+
+      resolveQuotaPrompt: (decision) => {
+        const resolve = pendingQuotaDecision;
+        pendingQuotaDecision = null;
+        set({ quotaPrompt: null });
+        resolve?.(decision);
       },
 
       // Main processing function
-      startProcessing: async () => {
+      startProcessing: async (options = {}) => {
         const state = get();
         
         // Cancel any existing request
@@ -98,15 +338,25 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
         
         set({ 
           error: null,
-          currentAbortController: abortController 
+          currentAbortController: abortController,
+          limitToQuota: options.limitToQuota ?? false,
         });
 
         try {
           if (state.inputMethod === 'google-docs') {
             console.log('🔗 Processing Google Docs URL');
             await get().processWithGoogleDocs();
+          } else if (state.inputMethod === 'file') {
+            console.log('📎 Processing Uploaded File');
+            set({ googleDocsSource: null });
+            await get().processUploadedFile();
+          } else if (state.inputMethod === 'rich-text') {
+            console.log('🖋️ Processing Rich Text Input');
+            set({ googleDocsSource: null });
+            await get().processRichText();
           } else {
             console.log('📝 Processing Direct Text Input');
+            set({ googleDocsSource: null });
             await get().processDirectText();
           }
           console.log('✅ Processing completed successfully');
@@ -116,9 +366,8 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
             return;
           }
           
-          const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
           set({
-            error: errorMessage,
+            error: getErrorMessage(error),
             isProcessing: false,
             processingProgress: 0,
             currentAbortController: null,
@@ -144,13 +393,12 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
           set({ processingProgress: 10 });
           console.log('🔗 Attempting to import Google Docs:', googleDocsUrl);
           
-          const importResult = await apiService.importGoogleDoc(googleDocsUrl);
+          const importResult = await apiService.importGoogleDoc(googleDocsUrl, get().currentAbortController?.signal);
           console.log('📥 Google Docs import result:', importResult);
           
           if (!importResult.success || !importResult.data) {
-            const errorMessage = importResult.error?.message || 'Failed to import Google Docs';
-            console.error('❌ Google Docs import failed:', errorMessage);
-            throw new Error(errorMessage);
+            console.error('❌ Google Docs import failed:', importResult.error);
+            throw createApiError(null, importResult);
           }
 
           console.log('✅ Google Docs content imported successfully:', {
@@ -158,44 +406,63 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
             contentLength: importResult.data.content.length
           });
 
-          // Set the imported text and process it
-          set({ inputText: importResult.data.content });
-          await get().processDirectText();
+          // Documents that cannot be corrected fail before the quota pre-flight check asks about them
+          const validation = validateTextInput(importResult.data.content, config.maxLargeDocumentLength);
+          if (!validation.isValid) {
+            throw new Error(validation.error);
+          }
+
+          // Check the imported document against the remaining quota before any of it is sent
+          const { proceed, limitToQuota } = await get().confirmQuota(createParagraphsFromSource(importResult.data.paragraphs));
+          if (!proceed) {
+            set({ isProcessing: false, processingProgress: 0 });
+            console.log('🚫 Run cancelled at the quota pre-flight check');
+            return;
+          }
+
+          await get().processGoogleDocsImport(googleDocsUrl, importResult.data, { limitToQuota });
           
         } catch (error) {
+          // Typed API errors carry their code; startProcessing turns them into the message shown
           console.error('❌ processWithGoogleDocs failed:', error);
-          
-          // Enhanced error handling for common issues
-          if (error instanceof Error) {
-            if (error.message.includes('Request timeout')) {
-              throw new Error('Google Docs 請求超時，請檢查網路連線或稍後再試');
-            } else if (error.message.includes('Google Docs integration is not available')) {
-              throw new Error('Google Docs 整合功能暫時無法使用，請聯繫系統管理員');
-            } else if (error.message.includes('Google Docs API is not enabled')) {
-              throw new Error('Google Docs API 尚未啟用，請聯繫系統管理員配置 API 權限');
-            } else if (error.message.includes('API is not properly configured')) {
-              throw new Error('Google Docs API 配置錯誤，請聯繫系統管理員');
-            } else if (error.message.includes('Permission denied')) {
-              throw new Error('無法存取該 Google Docs 文件，請確認文件已設為「知道連結的使用者可以檢視」');
-            } else if (error.message.includes('Document not found')) {
-              throw new Error('找不到該 Google Docs 文件，請檢查連結是否正確');
-            } else {
-              throw error;
-            }
-          }
-          
           throw error;
         }
       },
 
+      // Correct an imported Google Docs document, keeping its structure for write-back and per-style handling
+      processGoogleDocsImport: async (url, document, options = {}) => {
+        // Long documents are sent in paced batches, as large pasted text is
+        const validation = validateTextInput(document.content, config.maxLargeDocumentLength);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        set({
+          inputText: document.content,
+          limitToQuota: options.limitToQuota ?? false,
+          largeDocument: null,
+          googleDocsSource: {
+            documentId: extractGoogleDocsId(url) ?? '',
+            url,
+            title: document.title,
+            paragraphs: document.paragraphs,
+          },
+        });
+
+        // Headings, list items and body text stay separate paragraphs with their source id and style
+        const paragraphs = createParagraphsFromSource(document.paragraphs);
+        console.log(`📄 Imported ${paragraphs.length} paragraphs:`, paragraphs.map(p => ({ id: p.id, sourceId: p.sourceId, style: p.style })));
+        await get().processParagraphs(paragraphs);
+      },
+
       // Process direct text input
       processDirectText: async () => {
         console.group(`%c📝 Processing Direct Text`, 'color: #FF9800; font-weight: bold;');
         const { inputText } = get();
         console.log('📄 Input text length:', inputText.length);
         
-        // Validate text input
-        const validation = validateTextInput(inputText);
+        // Validate text input; anything past the regular limit goes through large-document mode
+        const validation = validateTextInput(inputText, config.maxLargeDocumentLength);
         if (!validation.isValid) {
           console.error('❌ Text validation failed:', validation.error);
           set({ error: validation.error });
@@ -204,63 +471,213 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
         }
         console.log('✅ Text validation passed');
 
-        set({ isProcessing: true, processingProgress: 0, currentParagraphIndex: 0 });
+        try {
+          let paragraphs: Paragraph[];
+          if (inputText.length > config.maxTextLength) {
+            // Split on chapter and section boundaries first so paragraphs keep their place in the document
+            const chunks = splitIntoChunks(inputText);
+            paragraphs = createParagraphsFromChunks(inputText, chunks);
+            set({
+              largeDocument: {
+                id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                totalCharacters: inputText.length,
+                chunks,
+              },
+            });
+            console.log(`📚 Large document: ${chunks.length} chunks, ${paragraphs.length} paragraphs`);
+          } else {
+            // Split into paragraphs, list items and code blocks; long paragraphs are broken at sentence boundaries
+            paragraphs = createParagraphsFromSegments(segmentText(inputText));
+            set({ largeDocument: null });
+            console.log(`📄 Text split into ${paragraphs.length} paragraphs:`, paragraphs.map(p => ({ id: p.id, length: p.text.length })));
+          }
+
+          await get().processParagraphs(paragraphs);
+        } catch (error) {
+          console.error('❌ processDirectText failed:', error);
+          throw error;
+        } finally {
+          console.groupEnd();
+        }
+      },
+
+      // Correct pasted formatted text block by block; the runs ride along on each paragraph for rebuilding the output
+      processRichText: async () => {
+        const { inputText, richTextSource } = get();
+
+        const validation = validateTextInput(inputText, config.maxTextLength);
+        if (!richTextSource || !validation.isValid) {
+          set({ error: validation.error ?? '請貼上需要校正的文字' });
+          return;
+        }
+
+        set({ largeDocument: null });
+        const paragraphs = createParagraphsFromRichText(richTextSource);
+        console.log(`🖋️ Rich text split into ${paragraphs.length} paragraphs:`, paragraphs.map(p => ({ id: p.id, style: p.style, runs: p.richText?.length })));
+        await get().processParagraphs(paragraphs);
+      },
+
+      // Correct an uploaded file block by block; block ids let the corrected text be written back into the file
+      processUploadedFile: async () => {
+        const { inputText, uploadedFile } = get();
+
+        const validation = validateTextInput(inputText, config.maxTextLength);
+        if (!uploadedFile || !validation.isValid) {
+          set({ error: validation.error ?? '請先上傳檔案' });
+          return;
+        }
+
+        set({ largeDocument: null });
+        const paragraphs = createParagraphsFromBlocks(uploadedFile.blocks);
+        console.log(`📎 ${uploadedFile.format} file split into ${paragraphs.length} paragraphs:`, paragraphs.map(p => ({ id: p.id, sourceId: p.sourceId, style: p.style })));
+        await get().processParagraphs(paragraphs);
+      },
+
+      // Correct a prepared set of paragraphs, streaming first and falling back to batches
+      processParagraphs: async (paragraphs) => {
+        const startedAt = new Date().toISOString();
+        // Settings changed mid-run must not mix into this run's requests
+        const runOptions = get().correctionOptions;
+        // Runs started outside startProcessing still need something for cancelProcessing to abort
+        const abortController = get().currentAbortController ?? new AbortController();
+        const { signal } = abortController;
+
+        set({
+          currentAbortController: abortController,
+          lastRunOptions: runOptions,
+          historyEntryId: null,
+          isProcessing: true,
+          processingProgress: 0,
+          currentParagraphIndex: 0,
+          reviewMode: false,
+          correctionDecisions: {},
+        });
         console.log('🔄 Set processing state to true, progress: 0%');
 
-        try {
-          // Split text into paragraphs
-          const paragraphTexts = splitIntoParagraphs(inputText);
-          const paragraphs = createParagraphs(paragraphTexts);
-          console.log(`📄 Text split into ${paragraphs.length} paragraphs:`, paragraphs.map(p => ({ id: p.id, length: p.text.length })));
-          
-          set({ paragraphs, processingProgress: 20 });
-          console.log('📊 Progress updated to 20%');
+        set({ paragraphs, processingProgress: 20 });
+        console.log('📊 Progress updated to 20%');
+
+        // Code blocks arrive already completed and are never sent
+        let pendingParagraphs = paragraphs.filter(p => p.status === 'pending');
+        if (runOptions.mode !== 'conversion' && get().limitToQuota && get().quota) {
+          // Only what fits in the remaining quota is sent; the rest stays pending, apart from failures, to be sent once the quota resets
+          const { fittingParagraphs } = checkQuota(pendingParagraphs, get().quota!, {
+            streaming: config.enableStreaming && !get().largeDocument && pendingParagraphs.length <= config.maxParagraphs,
+            maxBatchParagraphs: config.maxParagraphs,
+          });
+          const skipped = pendingParagraphs.slice(fittingParagraphs);
+          const skippedIds = new Set(skipped.map(p => p.id));
+          set({ paragraphs: get().paragraphs.map(p => skippedIds.has(p.id) ? { ...p, skippedForQuota: true } : p) });
+          pendingParagraphs = pendingParagraphs.slice(0, fittingParagraphs);
+          // The limit applies to this run only, not to retries and resumes
+          set({ limitToQuota: false });
+          console.log(`📏 Limited to quota: sending ${pendingParagraphs.length} paragraphs, skipping ${skipped.length}`);
+        }
+
+        if (runOptions.mode === 'conversion') {
+          // Conversion is table driven and runs locally; nothing is sent to the API
+          const target = getConversionTarget(runOptions.language);
+          console.log(`🈶 Converting ${pendingParagraphs.length} paragraphs to ${target} locally`);
+          pendingParagraphs.forEach(p => {
+            const { correctedText, corrections } = convertChinese(p.text, target);
+            get().updateParagraphCorrections(p.id, corrections, correctedText);
+            get().updateParagraphStatus(p.id, 'completed');
+          });
+          pendingParagraphs = [];
+        } else if (config.enableStreaming && !get().largeDocument && pendingParagraphs.length <= config.maxParagraphs) {
+          // A stream is a single request, so it is limited to maxParagraphs; larger inputs and
+          // large documents go straight to batches, which the scheduler paces and which resume cleanly
+          // Prefer streaming so results appear paragraph by paragraph
+          try {
+            await get().processParagraphsStreaming(pendingParagraphs, signal);
+          } catch (error) {
+            if (signal.aborted) {
+              console.log('🛑 Stream stopped by cancellation');
+            } else if (error instanceof StreamingUnavailableError) {
+              console.warn('📡 Streaming unavailable, falling back to batch processing:', error.message);
+            } else {
+              console.error('❌ Streaming failed, continuing unfinished paragraphs in batches:', error);
+            }
+          }
+          // Anything the stream did not finish goes through the batch path
+          pendingParagraphs = get().paragraphs.filter(p => (p.status === 'pending' || p.status === 'processing') && !p.skippedForQuota);
+        }
+
+        // Process remaining paragraphs in batches
+        await get().processParagraphBatches(pendingParagraphs, runOptions, signal);
+
+        // cancelProcessing already settled the state
+        if (signal.aborted) return;
+
+        // Mark as completed
+        console.log('🎉 All batches processed, marking as completed');
+        set({
+          isCompleted: true,
+          isProcessing: false,
+          processingProgress: 100,
+          currentAbortController: null,
+        });
+        console.log('✅ Final state: completed=true, processing=false, progress=100%');
+
+        // Keep a local copy of the session so it survives resetState()
+        void get().saveToHistory(startedAt);
+      },
 
-          // Process paragraphs in batches
-          const batchSize = 3;
-          const totalParagraphs = paragraphs.length;
-          let completedCount = 0;
+      // Correct paragraphs through the batch endpoint; progress counts every paragraph in the session
+      processParagraphBatches: async (pendingParagraphs, options, signal) => {
+        const totalParagraphs = get().paragraphs.length;
+        let completedCount = totalParagraphs - pendingParagraphs.length;
+        if (pendingParagraphs.length === 0) return;
 
-          for (let i = 0; i < paragraphs.length; i += batchSize) {
-            const batch = paragraphs.slice(i, i + batchSize);
-            const batchData = batch.map(p => ({ id: p.id, text: p.text }));
-            console.group(`%c📦 Processing Batch ${Math.floor(i/batchSize) + 1}`, 'color: #3F51B5; font-weight: bold;');
-            console.log('📋 Batch paragraphs:', batch.map(p => ({ id: p.id, text: p.text.substring(0, 50) + '...' })));
+        // Batches are sized by estimated tokens and run in parallel; the scheduler adapts as responses come in
+        // No request carries more than config.maxParagraphs paragraphs
+        const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: config.maxParagraphs });
+        const averageProcessingTime = await getAverageProcessingTime(signal);
+        if (averageProcessingTime) scheduler.tuneFromAverageProcessingTime(averageProcessingTime);
+
+        const onRateLimited = (event: Event) => {
+          scheduler.reportRateLimit((event as CustomEvent<{ retryAfter: number | null }>).detail?.retryAfter);
+        };
+        window.addEventListener('api:rate-limited', onRateLimited);
+
+        try {
+          await scheduler.run(pendingParagraphs, async (batch, batchNumber) => {
+            const batchData = batch.map(p => ({ id: p.id, text: p.text, style: p.style, context: p.context }));
+            console.log(`%c📦 Processing Batch ${batchNumber}`, 'color: #3F51B5; font-weight: bold;', {
+              paragraphs: batch.map(p => ({ id: p.id, text: p.text.substring(0, 50) + '...' })),
+              scheduler: scheduler.state,
+            });
 
             // Update status to processing for current batch
             batch.forEach(p => {
               get().updateParagraphStatus(p.id, 'processing');
             });
-            console.log('🔄 Updated paragraphs status to "processing"');
-
-            set({ currentParagraphIndex: i });
+            set({ currentParagraphIndex: get().paragraphs.findIndex(p => p.id === batch[0].id) });
 
             try {
               // Call batch processing API
-              console.log('🚀 Calling API for batch correction...');
-              const result = await apiService.correctParagraphs(batchData);
-              console.log('📥 API Response received:', result);
+              const result = await apiService.correctParagraphs(batchData, {
+                ...options,
+                concurrent: Math.min(batch.length, 3),
+                dictionary: get().userDictionary,
+              }, signal);
+              console.log(`📥 Batch ${batchNumber} response received:`, result);
               
               if (!result.success || !result.data) {
                 console.error('❌ API returned error:', result.error);
-                throw new Error(result.error?.message || 'Processing failed');
+                throw createApiError(null, result);
               }
 
               // Update paragraphs with results
-              console.log('🔄 Updating paragraphs with API results...');
-              result.data.results.forEach((paragraphResult, index) => {
-                console.log(`📝 Processing result ${index + 1}:`, paragraphResult);
+              result.data.results.forEach((paragraphResult) => {
                 if (paragraphResult.status === 'completed') {
                   get().updateParagraphStatus(paragraphResult.paragraphId, 'completed');
-                  console.log(`✅ Updated paragraph ${paragraphResult.paragraphId} to completed`);
                   if (paragraphResult.corrections) {
                     get().updateParagraphCorrections(
                       paragraphResult.paragraphId, 
                       paragraphResult.corrections,
                       paragraphResult.correctedText
                     );
-                    console.log(`📝 Applied ${paragraphResult.corrections.length} corrections to paragraph ${paragraphResult.paragraphId}`);
-                    console.log(`📝 Corrected text: "${paragraphResult.correctedText}"`);
                   }
                 } else {
                   get().updateParagraphStatus(paragraphResult.paragraphId, 'error');
@@ -272,43 +689,245 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
               const progress = 20 + (completedCount / totalParagraphs) * 70; // 20% to 90%
               set({ processingProgress: progress });
               console.log(`📊 Progress updated: ${completedCount}/${totalParagraphs} completed (${Math.round(progress)}%)`);
+              return true;
 
             } catch (error) {
-              console.error('❌ Batch processing failed:', error);
+              // Cancelled requests are not failures; cancelProcessing puts the batch back to pending
+              if (signal?.aborted) return false;
+              console.error(`❌ Batch ${batchNumber} failed:`, error);
               // Mark batch as error
               batch.forEach(p => {
                 get().updateParagraphStatus(p.id, 'error');
               });
-              console.log('🚫 Marked batch paragraphs as error');
+              return false;
             }
-            
-            console.groupEnd();
+          }, signal);
+        } finally {
+          window.removeEventListener('api:rate-limited', onRateLimited);
+        }
 
-            // Small delay between batches to prevent overwhelming the API
-            if (i + batchSize < paragraphs.length) {
-              console.log('⏱️ Waiting 500ms before next batch...');
-              await new Promise(resolve => setTimeout(resolve, 500));
-            }
+        if (signal?.aborted) {
+          console.log('🛑 Batch processing cancelled, remaining paragraphs stay pending');
+        }
+      },
+
+      // Send the paragraphs still pending (e.g. after a cancel) and merge their results into the current session
+      resumeProcessing: async () => {
+        const { paragraphs, isProcessing, lastRunOptions, correctionOptions } = get();
+        const pendingParagraphs = paragraphs.filter(p => p.status === 'pending');
+        if (isProcessing || pendingParagraphs.length === 0) return;
+
+        const abortController = new AbortController();
+        console.log(`▶️ Processing ${pendingParagraphs.length} pending paragraphs`);
+        set({
+          // Paragraphs skipped for quota are sent now as well
+          paragraphs: paragraphs.map(p => p.skippedForQuota ? { ...p, skippedForQuota: false } : p),
+          isProcessing: true,
+          processingProgress: 20 + ((paragraphs.length - pendingParagraphs.length) / paragraphs.length) * 70,
+          currentAbortController: abortController,
+          error: null,
+        });
+
+        await get().processParagraphBatches(pendingParagraphs, lastRunOptions ?? correctionOptions, abortController.signal);
+        if (abortController.signal.aborted) return;
+
+        set({ isProcessing: false, isCompleted: true, processingProgress: 100, currentAbortController: null });
+        const failed = get().paragraphs.filter(p => p.status === 'error').length;
+        console.log(`✅ Pending paragraphs processed, ${failed} paragraphs failing`);
+
+        // Update the saved session rather than adding a second one
+        void get().saveToHistory(new Date().toISOString());
+      },
+
+      // Restore a large document saved before a refresh and continue with its unfinished paragraphs
+      resumeSavedLargeDocument: async (saved) => {
+        if (get().isProcessing) return;
+
+        const paragraphs = saved.paragraphs.map(p =>
+          p.status === 'processing' ? { ...p, status: 'pending' as const } : p
+        );
+        console.log(`📚 Restoring large document with ${paragraphs.filter(p => p.status === 'pending').length} pending paragraphs`);
+        set({
+          ...initialState,
+          correctionOptions: get().correctionOptions,
+          userDictionary: get().userDictionary,
+          inputText: saved.inputText,
+          lastRunOptions: saved.options,
+          largeDocument: saved.largeDocument,
+          paragraphs,
+          isCompleted: paragraphs.some(p => p.status === 'completed'),
+        });
+
+        await get().resumeProcessing();
+      },
+
+      // Re-send only the paragraphs that failed
+      retryFailedParagraphs: async () => {
+        const { paragraphs, isProcessing } = get();
+        const failedParagraphs = paragraphs.filter(p => p.status === 'error');
+        if (isProcessing || failedParagraphs.length === 0) return;
+
+        console.log(`🔁 Retrying ${failedParagraphs.length} failed paragraphs`);
+        failedParagraphs.forEach(p => get().updateParagraphStatus(p.id, 'pending'));
+        await get().resumeProcessing();
+      },
+
+      // Process paragraphs over the streaming endpoint, updating the store as events arrive
+      processParagraphsStreaming: async (paragraphs, signal) => {
+        const totalParagraphs = get().paragraphs.length;
+        let completedCount = totalParagraphs - paragraphs.length;
+
+        set({ isStreaming: true });
+
+        try {
+          await apiService.correctParagraphsStream(
+            paragraphs.map(p => ({ id: p.id, text: p.text, style: p.style, context: p.context })),
+            {
+              onParagraphStart: (paragraphId) => {
+                get().updateParagraphStatus(paragraphId, 'processing');
+                const index = get().paragraphs.findIndex(p => p.id === paragraphId);
+                if (index !== -1) set({ currentParagraphIndex: index });
+              },
+              onCorrection: (paragraphId, correction) => {
+                get().appendParagraphCorrection(paragraphId, correction);
+              },
+              onParagraphResult: (paragraphResult) => {
+                if (paragraphResult.status === 'completed') {
+                  get().updateParagraphCorrections(
+                    paragraphResult.paragraphId,
+                    paragraphResult.corrections || [],
+                    paragraphResult.correctedText
+                  );
+                  get().updateParagraphStatus(paragraphResult.paragraphId, 'completed');
+                } else {
+                  get().updateParagraphStatus(paragraphResult.paragraphId, 'error');
+                }
+
+                completedCount += 1;
+                set({ processingProgress: 20 + (completedCount / totalParagraphs) * 70 });
+              },
+            },
+            { ...(get().lastRunOptions ?? get().correctionOptions), dictionary: get().userDictionary },
+            signal
+          );
+        } finally {
+          set({ isStreaming: false });
+        }
+      },
+
+      // Submit the applied corrections to the imported Google Docs document
+      writeBackToGoogleDocs: async (mode) => {
+        const { paragraphs, googleDocsSource, correctionDecisions, reviewMode } = get();
+        if (!googleDocsSource) {
+          throw new Error('目前的結果並非來自 Google Docs 匯入');
+        }
+
+        const { edits, unmappedParagraphIds } = buildGoogleDocsWriteBackPlan(
+          paragraphs,
+          googleDocsSource,
+          correctionDecisions,
+          reviewMode
+        );
+        if (unmappedParagraphIds.length > 0) {
+          console.warn('⚠️ Paragraphs not found in the source document:', unmappedParagraphIds);
+        }
+
+        console.log(`📝 Writing ${edits.length} edits back to Google Docs as ${mode}s`);
+        const result = await apiService.applyGoogleDocsChanges({
+          documentId: googleDocsSource.documentId,
+          mode,
+          edits,
+        });
+
+        if (!result.success) {
+          throw createApiError(null, result);
+        }
+        console.log('✅ Google Docs write-back result:', result.data);
+        return result;
+      },
+
+      // Save the finished session to the signed-in user's local history
+      saveToHistory: async (startedAt) => {
+        if (!historyStorage.isAvailable) return;
+
+        try {
+          const { data: { session } } = await supabase.auth.getSession();
+          if (!session?.user) {
+            console.log('ℹ️ Skipping history save - no signed-in user');
+            return;
           }
 
-          // Mark as completed
-          console.log('🎉 All batches processed, marking as completed');
-          set({
-            isCompleted: true,
-            isProcessing: false,
-            processingProgress: 100,
-            currentAbortController: null,
-          });
-          console.log('✅ Final state: completed=true, processing=false, progress=100%');
+          const { inputText, inputMethod, googleDocsUrl, googleDocsSource, richTextSource, uploadedFile, lastRunOptions, correctionOptions, paragraphs, historyEntryId } = get();
+          // Re-saving a session (e.g. after retrying failed paragraphs) keeps its id and start time
+          const existing = historyEntryId ? await historyStorage.getEntry(historyEntryId) : undefined;
+          const entry: HistoryEntry = {
+            id: existing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            userId: session.user.id,
+            title: inputText.trim().slice(0, 40),
+            inputText,
+            inputMethod,
+            googleDocsUrl: inputMethod === 'google-docs' ? googleDocsUrl : undefined,
+            googleDocsSource,
+            richTextSource: inputMethod === 'rich-text' ? richTextSource : null,
+            uploadedFile: inputMethod === 'file' ? uploadedFile : null,
+            options: lastRunOptions ?? correctionOptions,
+            paragraphs,
+            correctionCount: paragraphs.reduce((sum, p) => sum + p.corrections.length, 0),
+            startedAt: existing?.startedAt ?? startedAt,
+            completedAt: new Date().toISOString(),
+          };
 
+          await historyStorage.saveEntry(entry);
+          set({ historyEntryId: entry.id });
+          console.log('💾 Session saved to local history:', entry.id);
         } catch (error) {
-          console.error('❌ processDirectText failed:', error);
-          throw error;
-        } finally {
-          console.groupEnd();
+          console.warn('Failed to save session to history:', error);
         }
       },
 
+      // Load a past session back into the store
+      restoreHistoryEntry: (entry) => {
+        const state = get();
+        if (state.currentAbortController) {
+          state.currentAbortController.abort();
+        }
+
+        set({
+          ...initialState,
+          userDictionary: state.userDictionary,
+          quota: state.quota,
+          ...getHistorySource(entry),
+          inputText: entry.inputText,
+          correctionOptions: entry.options,
+          lastRunOptions: entry.options,
+          historyEntryId: entry.id,
+          paragraphs: entry.paragraphs,
+          // Chunking is deterministic, so large documents get their chunks back for the virtualized view
+          largeDocument: entry.paragraphs.some(p => p.chunkId) ? {
+            id: entry.id,
+            totalCharacters: entry.inputText.length,
+            chunks: splitIntoChunks(entry.inputText),
+          } : null,
+          isCompleted: true,
+          processingProgress: 100,
+        });
+        console.log('📂 Restored session from history:', entry.id);
+      },
+
+      // Process a past document again, optionally with different options, through the same quota check as any run
+      rerunHistoryEntry: async (entry, options) => {
+        get().resetState();
+        set({
+          ...getHistorySource(entry),
+          inputText: entry.inputText,
+          correctionOptions: { ...entry.options, ...options },
+        });
+
+        const { proceed, limitToQuota } = await get().confirmQuota();
+        if (!proceed) return;
+        await get().startProcessing({ limitToQuota });
+      },
+
       // Update paragraph status
       updateParagraphStatus: (id, status) => {
         console.log(`%c🔄 Updating paragraph ${id} status to: ${status}`, 'color: #607D8B; font-weight: bold;');
@@ -331,20 +950,37 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
           console.log('📄 Original text:', paragraph.text);
         }
         
-        const updatedParagraphs = state.paragraphs.map(p =>
-          p.id === id 
-            ? { 
-                ...p, 
-                corrections,
-                // Use provided correctedText if available, otherwise try to apply corrections
-                correctedText: correctedText || 
-                  (corrections.length > 0 ? 
-                    corrections.reduce((text, correction) => 
-                      text.replace(correction.original, correction.corrected), p.text) : 
-                    p.text)
-              } 
-            : p
-        );
+        const decisions = { ...state.correctionDecisions };
+        const updatedParagraphs = state.paragraphs.map(p => {
+          if (p.id !== id) return p;
+
+          // Headings only take a subset of correction types, and dictionary terms are never changed
+          const applicable = applyUserDictionary(p.text, filterCorrectionsForParagraph(p, corrections), state.userDictionary);
+          const result = applyCorrectionsAccurately(p.text, applicable);
+          if (result.skipped.length > 0) {
+            console.warn(`⚠️ ${result.skipped.length} corrections could not be applied to paragraph ${id}:`, result.skipped);
+          }
+
+          // Decisions are keyed by correction index, so those made on the replaced corrections no longer apply
+          p.corrections.forEach((_, index) => delete decisions[getCorrectionKey(p.id, index)]);
+          // Stored positions are re-anchored so review, export and write-back line up with the text
+          const updated = { ...p, corrections: result.applied };
+
+          if (state.reviewMode) {
+            // New corrections start undecided, as when review mode is turned on
+            result.applied.forEach((_, index) => {
+              decisions[getCorrectionKey(p.id, index)] = 'pending';
+            });
+            return { ...updated, correctedText: applyReviewedCorrections(updated, decisions) };
+          }
+
+          // When anything was dropped the server's corrected text no longer matches, so use the rebuilt one
+          const unchanged = result.skipped.length === 0 &&
+            applicable.length === corrections.length &&
+            applicable.every((c, i) => c === corrections[i]);
+
+          return { ...updated, correctedText: (unchanged && correctedText) || result.correctedText };
+        });
         
         const updatedParagraph = updatedParagraphs.find(p => p.id === id);
         if (updatedParagraph) {
@@ -352,10 +988,106 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
           console.log('📊 Applied corrections:', updatedParagraph.corrections.length);
         }
         
-        set({ paragraphs: updatedParagraphs });
+        set({ paragraphs: updatedParagraphs, correctionDecisions: decisions });
         console.log('✅ Paragraph corrections updated successfully');
         console.groupEnd();
       },
+
+      // Add a single partial correction received while a paragraph is still streaming
+      appendParagraphCorrection: (id, correction) => {
+        const state = get();
+        const decisions = { ...state.correctionDecisions };
+        set({
+          paragraphs: state.paragraphs.map(p => {
+            if (p.id !== id) return p;
+            const [applicable] = applyUserDictionary(p.text, filterCorrectionsForParagraph(p, [correction]), state.userDictionary);
+            if (!applicable) return p;
+            const result = applyCorrectionsAccurately(p.text, [...p.corrections, applicable]);
+
+            // Applied corrections come back sorted by position, so decisions follow their correction to its new index
+            p.corrections.forEach((_, index) => delete decisions[getCorrectionKey(p.id, index)]);
+            result.resolved.forEach((resolved, index) => {
+              const previous = state.correctionDecisions[getCorrectionKey(p.id, resolved.index)];
+              const decision = resolved.index < p.corrections.length ? previous : undefined;
+              if (decision) {
+                decisions[getCorrectionKey(p.id, index)] = decision;
+              } else if (state.reviewMode) {
+                decisions[getCorrectionKey(p.id, index)] = 'pending';
+              }
+            });
+
+            const updated = { ...p, corrections: result.applied };
+            // In review mode partial corrections stay out of the text until they are accepted
+            return { ...updated, correctedText: applyReviewedCorrections(updated, decisions, !state.reviewMode) };
+          }),
+          correctionDecisions: decisions,
+        });
+      },
+
+      // Enter or leave per-correction review mode
+      setReviewMode: (enabled) => {
+        const { paragraphs, correctionDecisions } = get();
+        const decisions = { ...correctionDecisions };
+
+        if (enabled) {
+          // Every correction starts undecided so the reviewer opts in to each change
+          paragraphs.forEach(p => {
+            p.corrections.forEach((_, index) => {
+              const key = getCorrectionKey(p.id, index);
+              if (!decisions[key]) decisions[key] = 'pending';
+            });
+          });
+        }
+
+        // In review mode only accepted corrections apply; outside it anything not rejected does
+        const rebuilt = paragraphs.map(p =>
+          p.corrections.length > 0
+            ? { ...p, correctedText: applyReviewedCorrections(p, decisions, !enabled) }
+            : p
+        );
+
+        console.log(`%c🧐 Review mode ${enabled ? 'enabled' : 'disabled'}`, 'color: #795548; font-weight: bold;');
+        set({ reviewMode: enabled, correctionDecisions: decisions, paragraphs: rebuilt });
+      },
+
+      // Record a decision for one correction and rebuild its paragraph
+      setCorrectionDecision: (paragraphId, correctionIndex, decision) => {
+        const { paragraphs, correctionDecisions, reviewMode } = get();
+        const decisions = {
+          ...correctionDecisions,
+          [getCorrectionKey(paragraphId, correctionIndex)]: decision,
+        };
+
+        set({
+          correctionDecisions: decisions,
+          paragraphs: paragraphs.map(p =>
+            p.id === paragraphId
+              ? { ...p, correctedText: applyReviewedCorrections(p, decisions, !reviewMode) }
+              : p
+          ),
+        });
+      },
+
+      // Apply the same decision to every correction in the session
+      setAllCorrectionDecisions: (decision) => {
+        const { paragraphs, reviewMode } = get();
+        const decisions: Record<string, CorrectionDecision> = {};
+
+        paragraphs.forEach(p => {
+          p.corrections.forEach((_, index) => {
+            decisions[getCorrectionKey(p.id, index)] = decision;
+          });
+        });
+
+        set({
+          correctionDecisions: decisions,
+          paragraphs: paragraphs.map(p =>
+            p.corrections.length > 0
+              ? { ...p, correctedText: applyReviewedCorrections(p, decisions, !reviewMode) }
+              : p
+          ),
+        });
+      },
     })),
     {
       name: 'text-correction-store',
@@ -363,11 +1095,42 @@ export const useTextCorrectionStore = create<TextCorrectionStore>()(
   )
 );
 
+// Save large-document progress as paragraphs finish so a refresh can resume; writes are throttled to once a second
+const LARGE_DOCUMENT_SAVE_INTERVAL = 1000;
+let largeDocumentSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function saveLargeDocumentProgress() {
+  largeDocumentSaveTimer = null;
+  const { largeDocument, paragraphs, inputText, lastRunOptions, correctionOptions } = useTextCorrectionStore.getState();
+  if (!largeDocument) return;
+
+  const unfinished = paragraphs.some(p => p.status === 'pending' || p.status === 'processing');
+  if (unfinished) {
+    // Progress is kept for the signed-in user only; after sign-out there is nobody to resume it
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return;
+    largeDocumentProgress.save({ userId: session.user.id, inputText, options: lastRunOptions ?? correctionOptions, largeDocument, paragraphs });
+  } else {
+    largeDocumentProgress.clearDocument(largeDocument.id);
+  }
+}
+
+useTextCorrectionStore.subscribe(
+  state => state.paragraphs,
+  () => {
+    if (!useTextCorrectionStore.getState().largeDocument || largeDocumentSaveTimer) return;
+    largeDocumentSaveTimer = setTimeout(() => {
+      saveLargeDocumentProgress().catch(error => console.warn('Failed to save large document progress:', error));
+    }, LARGE_DOCUMENT_SAVE_INTERVAL);
+  }
+);
+
 // Selector hooks for better performance
 export const useInputMethod = () => useTextCorrectionStore(state => state.inputMethod);
 export const useInputText = () => useTextCorrectionStore(state => state.inputText);
 export const useGoogleDocsUrl = () => useTextCorrectionStore(state => state.googleDocsUrl);
 export const useIsProcessing = () => useTextCorrectionStore(state => state.isProcessing);
+export const useIsStreaming = () => useTextCorrectionStore(state => state.isStreaming);
 export const useProcessingProgress = () => useTextCorrectionStore(state => state.processingProgress);
 export const useProgress = useProcessingProgress; // Alias for compatibility
 export const useCurrentParagraphIndex = () => useTextCorrectionStore(state => state.currentParagraphIndex);
@@ -375,4 +1138,11 @@ export const useParagraphs = () => useTextCorrectionStore(state => state.paragra
 export const useIsCompleted = () => useTextCorrectionStore(state => state.isCompleted);
 export const useError = () => useTextCorrectionStore(state => state.error);
 export const useShowAnimation = () => useTextCorrectionStore(state => state.showAnimation);
-export const useAnimationSpeed = () => useTextCorrectionStore(state => state.animationSpeed);
\ No newline at end of file
+export const useAnimationSpeed = () => useTextCorrectionStore(state => state.animationSpeed);
+export const useCorrectionOptions = () => useTextCorrectionStore(state => state.correctionOptions);
+export const useLastRunOptions = () => useTextCorrectionStore(state => state.lastRunOptions);
+export const useGoogleDocsSource = () => useTextCorrectionStore(state => state.googleDocsSource);
+export const useReviewMode = () => useTextCorrectionStore(state => state.reviewMode);
+export const useCorrectionDecisions = () => useTextCorrectionStore(state => state.correctionDecisions);
+export const useQuotaPrompt = () => useTextCorrectionStore(state => state.quotaPrompt);
+export const useLargeDocument = () => useTextCorrectionStore(state => state.largeDocument);
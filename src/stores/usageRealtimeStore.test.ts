@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const realtime = vi.hoisted(() => {
+  const state = {
+    handlers: [] as Array<() => void>,
+    onStatus: null as ((status: string, error?: Error) => void) | null,
+  };
+  const channel = {
+    on: vi.fn((_type: string, _filter: unknown, handler: () => void) => {
+      state.handlers.push(handler);
+      return channel;
+    }),
+    subscribe: vi.fn((callback: (status: string, error?: Error) => void) => {
+      state.onStatus = callback;
+      return channel;
+    }),
+  };
+  return { state, channel };
+});
+
+vi.mock('@/config/supabase', () => ({
+  supabaseConfigured: true,
+  realtimeConfig: { schema: 'public', usageTable: 'usage_logs', quotaTable: 'user_quotas', userColumn: 'user_id' },
+  supabase: {
+    channel: vi.fn(() => realtime.channel),
+    removeChannel: vi.fn(async () => 'ok'),
+  },
+}));
+
+const { useUsageRealtimeStore } = await import('./usageRealtimeStore');
+const { queryClient } = await import('@/services/queryClient');
+
+describe('usageRealtimeStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    realtime.state.handlers = [];
+    realtime.state.onStatus = null;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    useUsageRealtimeStore.getState().disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('listens to the user\'s usage and quota rows and stops polling while live', () => {
+    const setPollingEnabled = vi.spyOn(queryClient, 'setPollingEnabled');
+    useUsageRealtimeStore.getState().connect('user-1');
+
+    expect(realtime.channel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'usage_logs', filter: 'user_id=eq.user-1' },
+      expect.any(Function)
+    );
+    expect(useUsageRealtimeStore.getState().status).toBe('connecting');
+
+    realtime.state.onStatus?.('SUBSCRIBED');
+    expect(useUsageRealtimeStore.getState().status).toBe('live');
+    expect(setPollingEnabled).toHaveBeenLastCalledWith(false);
+  });
+
+  it('refreshes usage queries once per burst of changes', () => {
+    const invalidate = vi.spyOn(queryClient, 'invalidate');
+    useUsageRealtimeStore.getState().connect('user-1');
+    realtime.state.onStatus?.('SUBSCRIBED');
+
+    realtime.state.handlers.forEach(handler => handler());
+    realtime.state.handlers.forEach(handler => handler());
+    expect(invalidate).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith('usage/');
+  });
+
+  it('falls back to polling when the channel fails and catches up once it is back', () => {
+    const setPollingEnabled = vi.spyOn(queryClient, 'setPollingEnabled');
+    const invalidate = vi.spyOn(queryClient, 'invalidate');
+    useUsageRealtimeStore.getState().connect('user-1');
+    realtime.state.onStatus?.('SUBSCRIBED');
+
+    realtime.state.onStatus?.('CHANNEL_ERROR', new Error('socket closed'));
+    expect(useUsageRealtimeStore.getState().status).toBe('polling');
+    expect(setPollingEnabled).toHaveBeenLastCalledWith(true);
+
+    realtime.state.onStatus?.('SUBSCRIBED');
+    expect(useUsageRealtimeStore.getState().status).toBe('live');
+    expect(invalidate).toHaveBeenCalledWith('usage/');
+  });
+});
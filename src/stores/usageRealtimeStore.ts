@@ -0,0 +1,89 @@
+// Zustand store for live usage updates over Supabase Realtime, falling back to polling when the channel is down
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { REALTIME_SUBSCRIBE_STATES, type RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, supabaseConfigured, realtimeConfig } from '@/config/supabase';
+import { queryClient } from '@/services/queryClient';
+import { USAGE_KEY_PREFIX } from '@/services/usageQueries';
+
+// idle: not signed in; polling: Realtime unavailable or reconnecting; live: changes are pushed
+export type UsageRealtimeStatus = 'idle' | 'connecting' | 'live' | 'polling';
+
+interface UsageRealtimeStore {
+  status: UsageRealtimeStatus;
+  connect: (userId: string) => void;
+  disconnect: () => void;
+}
+
+// A correction writes a usage row and updates the quota row; refresh once for the whole burst
+const CHANGE_DEBOUNCE = 500;
+
+let channel: RealtimeChannel | null = null;
+let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const refreshUsage = () => {
+  if (changeTimer) clearTimeout(changeTimer);
+  changeTimer = setTimeout(() => {
+    changeTimer = null;
+    queryClient.invalidate(USAGE_KEY_PREFIX);
+  }, CHANGE_DEBOUNCE);
+};
+
+export const useUsageRealtimeStore = create<UsageRealtimeStore>()(
+  devtools((set, get) => ({
+    status: 'idle',
+
+    connect: (userId) => {
+      get().disconnect();
+
+      // The offline and not-configured clients have no Realtime; the widgets keep polling
+      if (!supabaseConfigured || typeof supabase.channel !== 'function') {
+        set({ status: 'polling' });
+        return;
+      }
+
+      set({ status: 'connecting' });
+      const filter = `${realtimeConfig.userColumn}=eq.${userId}`;
+      const current: RealtimeChannel = supabase.channel(`usage:${userId}`);
+      [realtimeConfig.usageTable, realtimeConfig.quotaTable].forEach(table => {
+        current.on('postgres_changes', { event: '*', schema: realtimeConfig.schema, table, filter }, refreshUsage);
+      });
+      channel = current;
+
+      // Realtime rejoins on its own after an error, so this can move between live and polling
+      current.subscribe((status, error) => {
+        if (channel !== current) return;
+
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          console.log('📡 Live usage updates connected');
+          queryClient.setPollingEnabled(false);
+          // Catch up on changes made while the channel was down
+          if (get().status === 'polling') queryClient.invalidate(USAGE_KEY_PREFIX);
+          set({ status: 'live' });
+        } else {
+          console.warn(`📡 Live usage updates ${status.toLowerCase()}, falling back to polling`, error?.message ?? '');
+          queryClient.setPollingEnabled(true);
+          set({ status: 'polling' });
+        }
+      });
+    },
+
+    disconnect: () => {
+      if (changeTimer) clearTimeout(changeTimer);
+      changeTimer = null;
+      if (channel) {
+        const current = channel;
+        channel = null;
+        void supabase.removeChannel(current);
+      }
+      queryClient.setPollingEnabled(true);
+      set({ status: 'idle' });
+    },
+  }),
+  {
+    name: 'usage-realtime-store',
+  })
+);
+
+export const useUsageRealtimeStatus = () => useUsageRealtimeStore(state => state.status);
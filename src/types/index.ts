@@ -1,8 +1,10 @@
 // Core application types for AI Text Correction
 
+export type InputMethod = 'direct' | 'google-docs' | 'rich-text' | 'file';
+
 export interface TextInput {
   content: string;
-  type: 'direct' | 'google-docs';
+  type: InputMethod;
   url?: string;
 }
 
@@ -13,10 +15,12 @@ export interface TextCorrection {
     start: number;
     end: number;
   };
-  type: 'spelling' | 'grammar' | 'punctuation' | 'style';
+  type: 'spelling' | 'grammar' | 'punctuation' | 'style' | 'conversion';
   confidence?: number;
 }
 
+export type CorrectionDecision = 'pending' | 'accepted' | 'rejected';
+
 export interface Paragraph {
   id: string;
   text: string;
@@ -25,6 +29,35 @@ export interface Paragraph {
   status: 'pending' | 'processing' | 'completed' | 'error';
   processingTime?: string;
   error?: string;
+  // Set for paragraphs imported from Google Docs
+  sourceId?: string;
+  style?: string;
+  // Set for paragraphs of a large document: the chapter or section chunk they belong to
+  chunkId?: string;
+  // Surrounding text when the paragraph is a piece of a longer one; sent along for the backend to read, never corrected
+  context?: ParagraphContext;
+  // Exact span of the paragraph in the input text, used to rebuild the document around corrected paragraphs
+  sourceRange?: {
+    start: number;
+    end: number;
+  };
+  // Formatted runs of a rich-text block; their text joined is the paragraph text
+  richText?: RichTextRun[];
+  // Left pending because the run only sent what fit in the remaining quota
+  skippedForQuota?: boolean;
+}
+
+export interface ParagraphContext {
+  before: string;
+  after: string;
+}
+
+// Error body the backend sends with failed responses
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  details?: Record<string, any>;
+  timestamp: string;
 }
 
 export interface TextProcessingResult {
@@ -38,37 +71,31 @@ export interface TextProcessingResult {
       processingTime: string;
     };
   };
-  error?: {
-    code: string;
-    message: string;
-    details?: Record<string, any>;
-    timestamp: string;
-  };
+  error?: ApiErrorBody;
+}
+
+export interface ParagraphCorrectionResult {
+  paragraphId: string;
+  status: 'completed' | 'error';
+  correctedText?: string;
+  corrections?: TextCorrection[];
+  processingTime?: string;
+  error?: string;
+}
+
+export interface BatchSummary {
+  totalParagraphs: number;
+  completedCount: number;
+  totalCorrections: number;
 }
 
 export interface BatchProcessingResult {
   success: boolean;
   data?: {
-    results: Array<{
-      paragraphId: string;
-      status: 'completed' | 'error';
-      correctedText?: string;
-      corrections?: TextCorrection[];
-      processingTime?: string;
-      error?: string;
-    }>;
-    summary: {
-      totalParagraphs: number;
-      completedCount: number;
-      totalCorrections: number;
-    };
-  };
-  error?: {
-    code: string;
-    message: string;
-    details?: Record<string, any>;
-    timestamp: string;
+    results: ParagraphCorrectionResult[];
+    summary: BatchSummary;
   };
+  error?: ApiErrorBody;
 }
 
 export interface GoogleDocsImport {
@@ -86,34 +113,216 @@ export interface GoogleDocsImport {
       wordCount: number;
     };
   };
-  error?: {
-    code: string;
-    message: string;
-    details?: Record<string, any>;
-    timestamp: string;
+  error?: ApiErrorBody;
+}
+
+// Imported Google Docs document kept so corrections can be written back
+export interface GoogleDocsSource {
+  documentId: string;
+  url: string;
+  title: string;
+  paragraphs: NonNullable<GoogleDocsImport['data']>['paragraphs'];
+}
+
+export type GoogleDocsApplyMode = 'suggestion' | 'comment';
+
+// One change to a Google Docs paragraph; offsets are relative to that paragraph's imported text
+export interface GoogleDocsEdit {
+  paragraphId: string;
+  startIndex: number;
+  endIndex: number;
+  original: string;
+  corrected: string;
+  type: TextCorrection['type'];
+}
+
+export interface GoogleDocsApplyResult {
+  success: boolean;
+  data?: {
+    documentId: string;
+    applied: number;
+    // Edits the backend rejected because the document changed since import
+    skipped: Array<{ paragraphId: string; startIndex: number; reason: string }>;
   };
+  error?: ApiErrorBody;
+}
+
+// Rich text pasted from Word, Notion or web pages, reduced to blocks of formatted runs
+export interface RichTextMarks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export interface RichTextRun {
+  text: string;
+  marks: RichTextMarks;
+}
+
+export interface RichTextBlock {
+  id: string;
+  // Same named styles as Google Docs paragraphs (HEADING_2, BULLET_LIST, NORMAL_TEXT, ...), plus CODE
+  style: string;
+  runs: RichTextRun[];
+}
+
+export interface RichTextDocument {
+  blocks: RichTextBlock[];
+}
+
+export type UploadedFileFormat = 'txt' | 'md' | 'docx' | 'odt' | 'srt' | 'vtt';
+
+// A paragraph, heading, list item or subtitle cue of an uploaded file
+export interface FileBlock {
+  id: string;
+  text: string;
+  // Google Docs named style (NORMAL_TEXT, HEADING_2, BULLET_LIST, ...) or CODE
+  style: string;
+}
+
+export interface UploadedFile {
+  name: string;
+  format: UploadedFileFormat;
+  // The upload itself, read again when writing the corrected file in the same format
+  file: File;
+  blocks: FileBlock[];
+}
+
+// Large documents are split on chapter and section boundaries
+export interface DocumentChunk {
+  id: string;
+  // Heading that opens the chunk, when it starts at a chapter or section boundary
+  title?: string;
+  start: number;
+  end: number;
+  characterCount: number;
+}
+
+export interface LargeDocumentInfo {
+  id: string;
+  totalCharacters: number;
+  chunks: DocumentChunk[];
+}
+
+// Usage quotas reported by the backend; a limit of 0 or less means unlimited
+export type QuotaType = 'monthly_corrections' | 'monthly_characters' | 'monthly_requests' | 'daily_requests';
+
+export interface QuotaInfo {
+  type: QuotaType;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetDate: Date;
+  tier: 'free' | 'premium' | 'enterprise' | 'admin';
+  percentageUsed: number;
+  isExceeded: boolean;
+}
+
+// Correction request options
+export type CorrectionLanguage = 'zh-TW' | 'zh-CN' | 'zh-HK' | 'en';
+export type CorrectionLevel = 'basic' | 'standard' | 'advanced';
+// 'conversion' converts script and regional vocabulary locally instead of calling the correction API
+export type ProcessingMode = 'correction' | 'conversion';
+
+export interface CorrectionOptions {
+  language: CorrectionLanguage;
+  correctionLevel: CorrectionLevel;
+  mode?: ProcessingMode;
+}
+
+// Terms the corrector must leave alone, plus the team's preferred spellings
+export interface PreferredSpelling {
+  variant: string;
+  preferred: string;
+}
+
+export interface UserDictionary {
+  protectedTerms: string[];
+  preferredSpellings: PreferredSpelling[];
+}
+
+export interface UserPreferences {
+  language: string;
+  correctionLevel: string;
+  notifications: boolean;
+  dictionary?: UserDictionary;
+}
+
+// Locally stored correction session
+export interface HistoryEntry {
+  id: string;
+  userId: string;
+  title: string;
+  inputText: string;
+  inputMethod: InputMethod;
+  // Source of a Google Docs, rich-text or file run, so a restored session can still be written back or exported with its structure
+  // Missing on sessions saved before they were kept
+  googleDocsUrl?: string;
+  googleDocsSource?: GoogleDocsSource | null;
+  richTextSource?: RichTextDocument | null;
+  uploadedFile?: UploadedFile | null;
+  options: CorrectionOptions;
+  paragraphs: Paragraph[];
+  correctionCount: number;
+  startedAt: string;
+  completedAt: string;
 }
 
 // Application state types
+export type ExportFormat = 'docx' | 'markdown' | 'html' | 'pdf';
+
+export interface ExportOptions {
+  title: string;
+  // Review decisions decide which corrections end up in the exported file
+  decisions: Record<string, CorrectionDecision>;
+  reviewMode: boolean;
+}
+
 export interface AppState {
   // Input state
-  inputMethod: 'direct' | 'google-docs';
+  inputMethod: InputMethod;
   inputText: string;
   googleDocsUrl: string;
+  // Pasted formatted text for the rich-text input method
+  richTextSource: RichTextDocument | null;
+  // Parsed file for the file input method
+  uploadedFile: UploadedFile | null;
+  correctionOptions: CorrectionOptions;
+  // Options the current results were produced with
+  lastRunOptions: CorrectionOptions | null;
+  userDictionary: UserDictionary;
+  googleDocsSource: GoogleDocsSource | null;
   
   // Processing state
   isProcessing: boolean;
+  isStreaming: boolean;
   processingProgress: number;
   currentParagraphIndex: number;
   
   // Results state
   paragraphs: Paragraph[];
   isCompleted: boolean;
+  // Local history entry the current results are saved under
+  historyEntryId: string | null;
+  // Set when the input was processed in large-document mode
+  largeDocument: LargeDocumentInfo | null;
+
+  // Quota state, cached between runs and refreshed when usage changes
+  quota: QuotaInfo[] | null;
+  // The current run only sends the paragraphs that fit in the remaining quota
+  limitToQuota: boolean;
   
   // UI state
   showAnimation: boolean;
   animationSpeed: number;
   
+  // Review state
+  reviewMode: boolean;
+  correctionDecisions: Record<string, CorrectionDecision>;
+  
   // Error state
   error: string | null;
   
@@ -121,6 +330,25 @@ export interface AppState {
   currentAbortController: AbortController | null;
 }
 
+// Toast notifications; a notification with actions stays until one is chosen
+export type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+  primary?: boolean;
+}
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title?: string;
+  message: string;
+  // Milliseconds before it closes by itself; 0 keeps it open
+  duration: number;
+  actions?: NotificationAction[];
+}
+
 // Component props types
 export interface TextInputProps {
   value: string;
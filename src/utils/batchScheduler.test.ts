@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveBatchScheduler, INITIAL_BATCH_TOKENS, estimateTokens } from './batchScheduler';
+
+const items = (count: number) => Array.from({ length: count }, (_, i) => ({ text: `段落${i}` }));
+// A paragraph of exactly this many estimated tokens
+const paragraph = (tokens: number) => ({ text: '字'.repeat(tokens) });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('AdaptiveBatchScheduler', () => {
+  it('grows batches and concurrency after fast successful batches', async () => {
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 1 });
+    await scheduler.run(items(2), async () => true);
+
+    expect(scheduler.state.concurrency).toBeGreaterThan(2);
+    expect(scheduler.state.batchTokens).toBeGreaterThan(INITIAL_BATCH_TOKENS);
+  });
+
+  it('does not tune on failed batches', async () => {
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 1 });
+    await scheduler.run(items(2), async () => false);
+
+    expect(scheduler.state).toEqual({ batchTokens: INITIAL_BATCH_TOKENS, concurrency: 2 });
+  });
+
+  it('estimates one token per CJK character and one per four other characters', () => {
+    expect(estimateTokens('今天天氣很好')).toBe(6);
+    expect(estimateTokens('hello world')).toBe(3);
+    expect(estimateTokens('今天 good')).toBe(3);
+  });
+
+  it('packs batches up to the estimated token budget', async () => {
+    const sizes: number[] = [];
+    const scheduler = new AdaptiveBatchScheduler();
+    await scheduler.run([paragraph(500), paragraph(500), paragraph(500), paragraph(500), paragraph(2000), paragraph(100)], async batch => {
+      sizes.push(batch.reduce((sum, item) => sum + estimateTokens(item.text), 0));
+      return false;
+    });
+
+    // Two 500-token paragraphs fit in the initial budget, an oversized one goes alone
+    expect(sizes).toEqual([1000, 1000, 2000, 100]);
+  });
+
+  it('caps the number of paragraphs in a batch', async () => {
+    const sizes: number[] = [];
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 3 });
+    await scheduler.run(items(7), async batch => {
+      sizes.push(batch.length);
+      return false;
+    });
+
+    expect(sizes).toEqual([3, 3, 1]);
+  });
+
+  it('never runs more batches at once than the concurrency allows', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 1, maxConcurrency: 3 });
+    await scheduler.run(items(20), async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(1);
+      inFlight--;
+      return true;
+    });
+
+    expect(maxInFlight).toBe(3);
+    expect(scheduler.state.concurrency).toBe(3);
+  });
+
+  it('backs off to one smaller batch at a time and pauses after a rate limit', async () => {
+    const startedAt: number[] = [];
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 1 });
+    await scheduler.run(items(3), async (_batch, batchNumber) => {
+      startedAt.push(Date.now());
+      if (batchNumber === 1) scheduler.reportRateLimit(50);
+      return false;
+    });
+
+    expect(scheduler.state).toEqual({ batchTokens: INITIAL_BATCH_TOKENS / 2, concurrency: 1 });
+    // The second batch was already running; the third waits out the pause
+    expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(45);
+  });
+
+  it('does not go below the minimum batch size on repeated rate limits', () => {
+    const scheduler = new AdaptiveBatchScheduler({ minBatchTokens: 400 });
+    scheduler.reportRateLimit(0);
+    scheduler.reportRateLimit(0);
+
+    expect(scheduler.state).toEqual({ batchTokens: 400, concurrency: 1 });
+  });
+
+  it('shrinks batches and concurrency after slow responses', async () => {
+    const scheduler = new AdaptiveBatchScheduler({ maxBatchParagraphs: 1, slowResponseMs: 20 });
+    await scheduler.run(items(1), async () => {
+      await sleep(30);
+      return true;
+    });
+
+    expect(scheduler.state).toEqual({ batchTokens: Math.floor(INITIAL_BATCH_TOKENS * 0.6), concurrency: 1 });
+  });
+
+  it.each([
+    [1000, { batchTokens: 3000, concurrency: 4 }],
+    [3000, { batchTokens: 2400, concurrency: 3 }],
+    [8000, { batchTokens: INITIAL_BATCH_TOKENS, concurrency: 2 }],
+    [15000, { batchTokens: 600, concurrency: 1 }],
+    [0, { batchTokens: INITIAL_BATCH_TOKENS, concurrency: 2 }],
+  ])('tunes the starting point from a %ims average processing time', (averageProcessingTime, expected) => {
+    const scheduler = new AdaptiveBatchScheduler();
+    scheduler.tuneFromAverageProcessingTime(averageProcessingTime);
+
+    expect(scheduler.state).toEqual(expected);
+  });
+});
@@ -0,0 +1,166 @@
+// Adaptive client-side scheduler for paragraph batches
+// Sizes batches by estimated tokens, runs several in parallel and backs off on rate limits or slow responses
+
+import { wait } from '@/utils/retry';
+
+export interface BatchSchedulerOptions {
+  // Batch size bounds, in estimated tokens
+  minBatchTokens?: number;
+  maxBatchTokens?: number;
+  maxBatchParagraphs?: number;
+  maxConcurrency?: number;
+  // Responses slower than this shrink batches and concurrency; faster than fastResponseMs grows them
+  slowResponseMs?: number;
+  fastResponseMs?: number;
+  // Pause after a rate limit that did not say how long to wait
+  rateLimitPauseMs?: number;
+}
+
+export interface BatchSchedulerState {
+  batchTokens: number;
+  concurrency: number;
+}
+
+const DEFAULT_OPTIONS: Required<BatchSchedulerOptions> = {
+  minBatchTokens: 300,
+  maxBatchTokens: 3000,
+  maxBatchParagraphs: 12,
+  maxConcurrency: 4,
+  slowResponseMs: 12000,
+  fastResponseMs: 4000,
+  rateLimitPauseMs: 5000,
+};
+
+// Batch size a run starts with, before responses tune it
+export const INITIAL_BATCH_TOKENS = 1200;
+
+const DEFAULT_STATE: BatchSchedulerState = {
+  batchTokens: INITIAL_BATCH_TOKENS,
+  concurrency: 2,
+};
+
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Rough token estimate: one token per CJK character, one per four other non-space characters
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const other = text.replace(CJK_PATTERN, '').replace(/\s+/g, '').length;
+  return cjk + Math.ceil(other / 4);
+}
+
+export class AdaptiveBatchScheduler {
+  private options: Required<BatchSchedulerOptions>;
+  private batchTokens: number;
+  private concurrency: number;
+  private pausedUntil = 0;
+
+  constructor(options: BatchSchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.batchTokens = DEFAULT_STATE.batchTokens;
+    this.concurrency = Math.min(DEFAULT_STATE.concurrency, this.options.maxConcurrency);
+  }
+
+  get state(): BatchSchedulerState {
+    return { batchTokens: this.batchTokens, concurrency: this.concurrency };
+  }
+
+  /**
+   * Pick a starting point from the server's average processing time per request
+   */
+  tuneFromAverageProcessingTime(averageProcessingTime: number): void {
+    const { fastResponseMs, slowResponseMs, maxBatchTokens, minBatchTokens, maxConcurrency } = this.options;
+    if (!(averageProcessingTime > 0)) return;
+
+    if (averageProcessingTime <= fastResponseMs / 2) {
+      this.batchTokens = maxBatchTokens;
+      this.concurrency = maxConcurrency;
+    } else if (averageProcessingTime >= slowResponseMs) {
+      this.batchTokens = Math.max(minBatchTokens, Math.floor(DEFAULT_STATE.batchTokens / 2));
+      this.concurrency = 1;
+    } else if (averageProcessingTime <= fastResponseMs) {
+      this.batchTokens = Math.min(maxBatchTokens, DEFAULT_STATE.batchTokens * 2);
+      this.concurrency = Math.min(maxConcurrency, DEFAULT_STATE.concurrency + 1);
+    }
+    console.log(`⚙️ Scheduler tuned from ${Math.round(averageProcessingTime)}ms average:`, this.state);
+  }
+
+  /**
+   * Drop to a single, smaller batch at a time and pause before sending more
+   */
+  reportRateLimit(retryAfter?: number | null): void {
+    this.concurrency = 1;
+    this.batchTokens = Math.max(this.options.minBatchTokens, Math.floor(this.batchTokens / 2));
+    this.pausedUntil = Date.now() + (retryAfter ?? this.options.rateLimitPauseMs);
+    console.warn('🐢 Rate limited, scheduler backing off:', this.state);
+  }
+
+  private recordResponse(durationMs: number): void {
+    const { slowResponseMs, fastResponseMs, minBatchTokens, maxBatchTokens, maxConcurrency } = this.options;
+    if (durationMs >= slowResponseMs) {
+      this.concurrency = Math.max(1, this.concurrency - 1);
+      this.batchTokens = Math.max(minBatchTokens, Math.floor(this.batchTokens * 0.6));
+    } else if (durationMs <= fastResponseMs && Date.now() >= this.pausedUntil) {
+      this.concurrency = Math.min(maxConcurrency, this.concurrency + 1);
+      this.batchTokens = Math.min(maxBatchTokens, Math.floor(this.batchTokens * 1.25));
+    }
+  }
+
+  /**
+   * Take the next batch off the queue; a single oversized paragraph still forms its own batch
+   */
+  private takeBatch<T extends { text: string }>(queue: T[]): T[] {
+    let tokens = 0;
+    let count = 0;
+    while (count < queue.length && count < this.options.maxBatchParagraphs) {
+      const next = estimateTokens(queue[count].text);
+      if (count > 0 && tokens + next > this.batchTokens) break;
+      tokens += next;
+      count++;
+    }
+    return queue.splice(0, count);
+  }
+
+  /**
+   * Run the worker over every item in adaptive batches
+   * The worker handles its own errors and resolves to whether the batch succeeded; only successful responses tune the batches
+   * Cancelling stops new batches and waits for running ones
+   */
+  async run<T extends { text: string }>(
+    items: T[],
+    worker: (batch: T[], batchNumber: number) => Promise<boolean>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const queue = [...items];
+    const running = new Set<Promise<void>>();
+    let batchNumber = 0;
+
+    while (queue.length > 0 && !signal?.aborted) {
+      if (running.size >= this.concurrency) {
+        await Promise.race(running);
+        continue;
+      }
+
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await (running.size > 0 ? Promise.race([...running, wait(pause, signal)]) : wait(pause, signal));
+        continue;
+      }
+
+      const batch = this.takeBatch(queue);
+      const startedAt = Date.now();
+      batchNumber += 1;
+      const task: Promise<void> = worker(batch, batchNumber)
+        .then(succeeded => {
+          // A quick error or a cancelled request says nothing about how much the server can take
+          if (succeeded) this.recordResponse(Date.now() - startedAt);
+        })
+        .catch(error => console.error('❌ Batch worker failed:', error))
+        .finally(() => running.delete(task));
+      running.add(task);
+    }
+
+    await Promise.all(running);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { convertCharacters, convertChinese } from './chineseConversion';
+
+const toTaiwan = (text: string) => convertChinese(text, 'zh-TW').correctedText;
+
+describe('convertChinese', () => {
+  it.each([
+    ['头发很长', '頭髮很長'],
+    ['复杂的问题', '複雜的問題'],
+    ['日历', '日曆'],
+    ['批准', '批准'],
+    ['茶几', '茶几'],
+    ['词汇', '詞彙'],
+    ['收获', '收穫'],
+    ['发展历史', '發展歷史'],
+  ])('converts characters with meaning-dependent forms by word: %s', (simplified, traditional) => {
+    expect(toTaiwan(simplified)).toBe(traditional);
+  });
+
+  it('leaves meaning-dependent characters alone outside known words', () => {
+    expect(convertCharacters('发', 'zh-TW')).toBe('发');
+    expect(convertCharacters('余先生', 'zh-TW')).toBe('余先生');
+  });
+
+  it('converts every traditional form of a merged character to simplified', () => {
+    expect(convertCharacters('發髮復複歷曆', 'zh-CN')).toBe('发发复复历历');
+    expect(convertChinese('頭髮很長', 'zh-CN').correctedText).toBe('头发很长');
+  });
+
+  it('does not match vocabulary across word boundaries', () => {
+    expect(toTaiwan('目的士兵')).toBe('目的士兵');
+    expect(convertChinese('電影片段', 'zh-CN').correctedText).toBe('电影片段');
+    expect(convertChinese('在直線上', 'zh-CN').correctedText).toBe('在直线上');
+  });
+
+  it('still writes short regional forms when converting to that region', () => {
+    expect(convertChinese('出租车', 'zh-HK').correctedText).toBe('的士');
+  });
+
+  it('reports vocabulary and character runs as separate corrections', () => {
+    const { corrections } = convertChinese('收获说明', 'zh-TW');
+    expect(corrections).toEqual([
+      { original: '收获', corrected: '收穫', position: { start: 0, end: 2 }, type: 'conversion' },
+      { original: '说', corrected: '說', position: { start: 2, end: 3 }, type: 'conversion' },
+    ]);
+  });
+});
@@ -0,0 +1,262 @@
+// Simplified/Traditional Chinese conversion with regional vocabulary normalization
+// Every substitution is reported as a 'conversion' TextCorrection so it can be reviewed like any other change
+
+import type { CorrectionLanguage, TextCorrection } from '@/types';
+
+export type ConversionTarget = 'zh-CN' | 'zh-TW' | 'zh-HK';
+
+/**
+ * Conversion only targets Chinese variants; anything else falls back to Taiwan Traditional
+ */
+export function getConversionTarget(language: CorrectionLanguage): ConversionTarget {
+  return language === 'en' ? 'zh-TW' : language;
+}
+
+// One-to-one character pairs only; characters whose traditional form depends on meaning
+// (后/後, 里/裡, 干/乾/幹, 只/隻, 发/發/髮 ...) are left alone rather than guessed,
+// and only converted inside the words listed in AMBIGUOUS_CHARACTER_WORDS
+const SIMPLIFIED_CHARS =
+  '个们这说时别够为会国对学开关问间门来东车长马鸟鱼龙风飞见贝页书买卖电话语读写认识让请谢试该调谁' +
+  '论设计记讲议评证诉译词误错钱铁银钟镜锁键针钢单产业严乐习乡亚亲从众优传伤体侠债倾儿党内军农决' +
+  '况冻净凤处击则刚创删刘剑劝办务动励劳势区医华协卫却厂压厅县参双变叙号叹吓吗听启员响园围图圆' +
+  '圣场坏块坚坛备头夹夺奋奖妇妈娱婴孙宁实宝宠审宪宽宾寻导尘尝层属岁岛岭币师带帮广庄庆库应废异弃张' +
+  '弯弹强归当录彻径忆忧怀态总恋恶恳悬惊惧惯愿戏战户执扩扫扬扰抚抢护报担拟拥择挂挤挥损换据摄摆摇撑数' +
+  '断无旧显晓晒暂术机杀杂权条杨极构枪柜树样桥档梦检楼横欢欧残毁毕气汉汤沟没泪泽洁浅测济浓涂润涨温' +
+  '湾湿满滚灭灯灵灾炉点炼烂热焕爱爷牵状犹独狮猎献环现画畅疗皱盐监盖盘着矿码砖础确碍礼祸离种积称稳穷' +
+  '窃竞笔笼筑签简类粮紧纠红约级纪纯纲纳纵纷纸纹线练组细织终经结绕绘给络绝统继绩绪续维综绿缓编缘网罗' +
+  '罚职联聪肃肠肤肿胁胜脑脚脸节苏苹荐荣药营萝虑虽虾蚁补袜装观规视览觉触誉订讨训讯许讽访诗诚询详诸' +
+  '课谈谊谋谓谜谨负贡财责贤败货质贩贪贫购贯贴贵贷费贺资赏赔赖赚赛赞赠赵赶趋跃践踪轨转轮软轻载较辅辆' +
+  '辈输辞边达过运还进远违连迟适选逊递逻遗邮邻郑酱释钓铃铅链销锅锋锻镇闪闭闯闲闹闻阅队阳阴阵际陆陈险' +
+  '随隐难雾静韩顶项顺须顾顿预领频题颜额饭饮饰饱饼馆驱驶驻验骂骑骗鸡鸣鸭麦黄齐齿龄龟厉卢灿烟与两丢' +
+  '丰临举么义乌乔争亏亿仅价伟伦侧侦侨俭偿储兑兴养兽冯减凉凭凯剧劲卧厌厕叶吴吕咏哗唤喷团坟坝墙壮声壳' +
+  '奥妆娄婶寿将尔尧屿岗峡帅帐帘帜庐庙弥彦忏怜恒恼悦悯惨惩惭愤懒扑抛拣拦拨挡挣捞捡掷揽携摊敌敛斋斩旷' +
+  '昼晕晋枣栋栏桩椭汹沦沧泼洒浆浇浊浏涛涡渊渐渔溅滤滥潇澜烛烦烧烫狭狱猪猫玛琐疯痒瘫盗睁瞒矫硕祷禅秃' +
+  '税窝窥竖筛筹篮篱粤纤纺绅绑绒绣绳绸缆缝缠缩缴罢羡翘耸聂肾胆胶脉腊舰舱艰艺苍茎荡莲萤蓝虚蜡蝇蝉衔衬' +
+  '袄裤标';
+
+const TRADITIONAL_CHARS =
+  '個們這說時別夠為會國對學開關問間門來東車長馬鳥魚龍風飛見貝頁書買賣電話語讀寫認識讓請謝試該調誰' +
+  '論設計記講議評證訴譯詞誤錯錢鐵銀鐘鏡鎖鍵針鋼單產業嚴樂習鄉亞親從眾優傳傷體俠債傾兒黨內軍農決' +
+  '況凍淨鳳處擊則剛創刪劉劍勸辦務動勵勞勢區醫華協衛卻廠壓廳縣參雙變敘號嘆嚇嗎聽啟員響園圍圖圓' +
+  '聖場壞塊堅壇備頭夾奪奮獎婦媽娛嬰孫寧實寶寵審憲寬賓尋導塵嘗層屬歲島嶺幣師帶幫廣莊慶庫應廢異棄張' +
+  '彎彈強歸當錄徹徑憶憂懷態總戀惡懇懸驚懼慣願戲戰戶執擴掃揚擾撫搶護報擔擬擁擇掛擠揮損換據攝擺搖撐數' +
+  '斷無舊顯曉曬暫術機殺雜權條楊極構槍櫃樹樣橋檔夢檢樓橫歡歐殘毀畢氣漢湯溝沒淚澤潔淺測濟濃塗潤漲溫' +
+  '灣濕滿滾滅燈靈災爐點煉爛熱煥愛爺牽狀猶獨獅獵獻環現畫暢療皺鹽監蓋盤著礦碼磚礎確礙禮禍離種積稱穩窮' +
+  '竊競筆籠築簽簡類糧緊糾紅約級紀純綱納縱紛紙紋線練組細織終經結繞繪給絡絕統繼績緒續維綜綠緩編緣網羅' +
+  '罰職聯聰肅腸膚腫脅勝腦腳臉節蘇蘋薦榮藥營蘿慮雖蝦蟻補襪裝觀規視覽覺觸譽訂討訓訊許諷訪詩誠詢詳諸' +
+  '課談誼謀謂謎謹負貢財責賢敗貨質販貪貧購貫貼貴貸費賀資賞賠賴賺賽贊贈趙趕趨躍踐蹤軌轉輪軟輕載較輔輛' +
+  '輩輸辭邊達過運還進遠違連遲適選遜遞邏遺郵鄰鄭醬釋釣鈴鉛鏈銷鍋鋒鍛鎮閃閉闖閒鬧聞閱隊陽陰陣際陸陳險' +
+  '隨隱難霧靜韓頂項順須顧頓預領頻題顏額飯飲飾飽餅館驅駛駐驗罵騎騙雞鳴鴨麥黃齊齒齡龜厲盧燦煙與兩丟' +
+  '豐臨舉麼義烏喬爭虧億僅價偉倫側偵僑儉償儲兌興養獸馮減涼憑凱劇勁臥厭廁葉吳呂詠嘩喚噴團墳壩牆壯聲殼' +
+  '奧妝婁嬸壽將爾堯嶼崗峽帥帳簾幟廬廟彌彥懺憐恆惱悅憫慘懲慚憤懶撲拋揀攔撥擋掙撈撿擲攬攜攤敵斂齋斬曠' +
+  '晝暈晉棗棟欄樁橢洶淪滄潑灑漿澆濁瀏濤渦淵漸漁濺濾濫瀟瀾燭煩燒燙狹獄豬貓瑪瑣瘋癢癱盜睜瞞矯碩禱禪禿' +
+  '稅窩窺豎篩籌籃籬粵纖紡紳綁絨繡繩綢纜縫纏縮繳罷羨翹聳聶腎膽膠脈臘艦艙艱藝蒼莖蕩蓮螢藍虛蠟蠅蟬銜襯' +
+  '襖褲標';
+
+// Hong Kong prefers a few variant forms over the Taiwan standard
+const HONG_KONG_VARIANTS: Record<string, string> = {
+  '裡': '裏',
+  '衛': '衞',
+};
+
+// Traditional characters that merged into one simplified form; they convert to simplified only
+const MERGED_TRADITIONAL: Record<string, string> = {
+  '發': '发', '髮': '发',
+  '復': '复', '複': '复',
+  '歷': '历', '曆': '历',
+  '準': '准',
+  '衝': '冲', '沖': '冲',
+  '幾': '几',
+  '匯': '汇', '彙': '汇',
+  '獲': '获', '穫': '获',
+  '餘': '余',
+  '於': '于',
+};
+
+const HONG_KONG_REVERSE: Record<string, string> = Object.fromEntries(
+  Object.entries(HONG_KONG_VARIANTS).map(([standard, variant]) => [variant, standard])
+);
+
+interface VocabularyEntry {
+  cn: string;
+  tw: string;
+  hk: string;
+}
+
+// Regional vocabulary: mainland (simplified), Taiwan and Hong Kong forms
+const REGIONAL_VOCABULARY: VocabularyEntry[] = [
+  { cn: '软件', tw: '軟體', hk: '軟件' },
+  { cn: '硬件', tw: '硬體', hk: '硬件' },
+  { cn: '信息', tw: '資訊', hk: '資訊' },
+  { cn: '网络', tw: '網路', hk: '網絡' },
+  { cn: '互联网', tw: '網際網路', hk: '互聯網' },
+  { cn: '在线', tw: '線上', hk: '在線' },
+  { cn: '视频', tw: '影片', hk: '視頻' },
+  { cn: '打印', tw: '列印', hk: '打印' },
+  { cn: '打印机', tw: '印表機', hk: '打印機' },
+  { cn: '鼠标', tw: '滑鼠', hk: '滑鼠' },
+  { cn: '默认', tw: '預設', hk: '預設' },
+  { cn: '数据库', tw: '資料庫', hk: '數據庫' },
+  { cn: '数码', tw: '數位', hk: '數碼' },
+  { cn: '硬盘', tw: '硬碟', hk: '硬碟' },
+  { cn: '光盘', tw: '光碟', hk: '光碟' },
+  { cn: '内存', tw: '記憶體', hk: '記憶體' },
+  { cn: '服务器', tw: '伺服器', hk: '伺服器' },
+  { cn: '操作系统', tw: '作業系統', hk: '操作系統' },
+  { cn: '文件夹', tw: '資料夾', hk: '文件夾' },
+  { cn: '程序员', tw: '程式設計師', hk: '程式員' },
+  { cn: '用户', tw: '使用者', hk: '用戶' },
+  { cn: '账号', tw: '帳號', hk: '帳號' },
+  { cn: '登录', tw: '登入', hk: '登入' },
+  { cn: '屏幕', tw: '螢幕', hk: '屏幕' },
+  { cn: '激光', tw: '雷射', hk: '激光' },
+  { cn: '人工智能', tw: '人工智慧', hk: '人工智能' },
+  { cn: '智能手机', tw: '智慧型手機', hk: '智能手機' },
+  { cn: '博客', tw: '部落格', hk: '網誌' },
+  { cn: '短信', tw: '簡訊', hk: '短訊' },
+  { cn: '出租车', tw: '計程車', hk: '的士' },
+  { cn: '公交车', tw: '公車', hk: '巴士' },
+  { cn: '自行车', tw: '腳踏車', hk: '單車' },
+  { cn: '土豆', tw: '馬鈴薯', hk: '薯仔' },
+  { cn: '菠萝', tw: '鳳梨', hk: '菠蘿' },
+];
+
+const sameInTaiwanAndHongKong = (cn: string, tw: string): VocabularyEntry => ({ cn, tw, hk: tw });
+
+// Words that settle the meaning of a merged simplified character (发, 复, 历 ...)
+const AMBIGUOUS_CHARACTER_WORDS: VocabularyEntry[] = [
+  ['发展', '發展'], ['发现', '發現'], ['发生', '發生'], ['发表', '發表'], ['出发', '出發'], ['开发', '開發'],
+  ['头发', '頭髮'], ['理发', '理髮'],
+  ['复杂', '複雜'], ['重复', '重複'], ['复制', '複製'], ['恢复', '恢復'], ['答复', '答覆'],
+  ['历史', '歷史'], ['经历', '經歷'], ['日历', '日曆'],
+  ['准备', '準備'], ['标准', '標準'], ['准确', '準確'], ['批准', '批准'],
+  ['冲突', '衝突'], ['冲击', '衝擊'],
+  ['几乎', '幾乎'], ['几个', '幾個'], ['茶几', '茶几'],
+  ['汇率', '匯率'], ['汇款', '匯款'], ['词汇', '詞彙'],
+  ['获得', '獲得'], ['收获', '收穫'],
+  ['其余', '其餘'], ['剩余', '剩餘'], ['业余', '業餘'],
+  ['关于', '關於'], ['由于', '由於'], ['对于', '對於'], ['属于', '屬於'], ['等于', '等於'], ['于是', '於是'],
+].map(([cn, tw]) => sameInTaiwanAndHongKong(cn, tw));
+
+// Two-character forms that also turn up across word boundaries (目的士兵, 直线上, 电影片段, 办公车辆);
+// they are still written when converting to their region, but never matched in the input
+const UNMATCHED_FORMS = new Set(['的士', '线上', '線上', '影片', '公车', '公車']);
+
+const toTraditionalMap = new Map<string, string>();
+const toSimplifiedMap = new Map<string, string>();
+Array.from(SIMPLIFIED_CHARS).forEach((simplified, index) => {
+  const traditional = TRADITIONAL_CHARS[index];
+  toTraditionalMap.set(simplified, traditional);
+  toSimplifiedMap.set(traditional, simplified);
+});
+Object.entries(MERGED_TRADITIONAL).forEach(([traditional, simplified]) => toSimplifiedMap.set(traditional, simplified));
+
+function convertChar(char: string, target: ConversionTarget): string {
+  if (target === 'zh-CN') {
+    return toSimplifiedMap.get(HONG_KONG_REVERSE[char] ?? char) ?? char;
+  }
+  const traditional = toTraditionalMap.get(char) ?? char;
+  return target === 'zh-HK' ? HONG_KONG_VARIANTS[traditional] ?? traditional : traditional;
+}
+
+/**
+ * Convert text character by character, without vocabulary substitution
+ */
+export function convertCharacters(text: string, target: ConversionTarget): string {
+  return Array.from(text, char => convertChar(char, target)).join('');
+}
+
+// Every written form of a vocabulary entry maps back to the entry
+let vocabularyIndex: { forms: Map<string, VocabularyEntry>; maxLength: number } | null = null;
+
+function getVocabularyIndex() {
+  if (!vocabularyIndex) {
+    const forms = new Map<string, VocabularyEntry>();
+    for (const entry of [...REGIONAL_VOCABULARY, ...AMBIGUOUS_CHARACTER_WORDS]) {
+      const variants = [
+        entry.cn,
+        convertCharacters(entry.cn, 'zh-TW'),
+        entry.tw,
+        entry.hk,
+        convertCharacters(entry.tw, 'zh-CN'),
+        convertCharacters(entry.hk, 'zh-CN'),
+      ];
+      variants.forEach(form => {
+        if (!forms.has(form) && !UNMATCHED_FORMS.has(form)) forms.set(form, entry);
+      });
+    }
+    const maxLength = Math.max(...Array.from(forms.keys(), form => form.length));
+    vocabularyIndex = { forms, maxLength };
+  }
+  return vocabularyIndex;
+}
+
+function targetForm(entry: VocabularyEntry, target: ConversionTarget): string {
+  return target === 'zh-CN' ? entry.cn : target === 'zh-TW' ? entry.tw : entry.hk;
+}
+
+/**
+ * Convert text to the target script and regional vocabulary
+ * Longest vocabulary matches win; runs of converted characters are reported as one correction
+ */
+export function convertChinese(text: string, target: ConversionTarget): {
+  correctedText: string;
+  corrections: TextCorrection[];
+} {
+  const { forms, maxLength } = getVocabularyIndex();
+  const corrections: TextCorrection[] = [];
+  let correctedText = '';
+  let charRun: TextCorrection | null = null;
+  let index = 0;
+
+  while (index < text.length) {
+    let matched: { length: number; replacement: string } | null = null;
+    for (let length = Math.min(maxLength, text.length - index); length >= 2; length--) {
+      const entry = forms.get(text.slice(index, index + length));
+      if (entry) {
+        matched = { length, replacement: targetForm(entry, target) };
+        break;
+      }
+    }
+
+    if (matched) {
+      const original = text.slice(index, index + matched.length);
+      if (original !== matched.replacement) {
+        corrections.push({
+          original,
+          corrected: matched.replacement,
+          position: { start: index, end: index + matched.length },
+          type: 'conversion',
+        });
+      }
+      correctedText += matched.replacement;
+      charRun = null;
+      index += matched.length;
+      continue;
+    }
+
+    const char = text[index];
+    const converted = convertChar(char, target);
+    if (converted !== char) {
+      if (charRun && charRun.position.end === index) {
+        charRun.original += char;
+        charRun.corrected += converted;
+        charRun.position.end = index + 1;
+      } else {
+        charRun = {
+          original: char,
+          corrected: converted,
+          position: { start: index, end: index + 1 },
+          type: 'conversion',
+        };
+        corrections.push(charRun);
+      }
+    } else {
+      charRun = null;
+    }
+    correctedText += converted;
+    index += 1;
+  }
+
+  return { correctedText, corrections };
+}
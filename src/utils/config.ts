@@ -14,10 +14,13 @@ interface AppConfig {
   enableAnimations: boolean;
   enableGoogleDocs: boolean;
   enableExportFeatures: boolean;
+  enableStreaming: boolean;
   
   // API Limits
   maxTextLength: number;
   maxParagraphs: number;
+  // Inputs longer than maxTextLength are chunked in large-document mode, up to this length
+  maxLargeDocumentLength: number;
   
   // Development Settings
   debugMode: boolean;
@@ -57,10 +60,12 @@ export const config: AppConfig = {
   enableAnimations: parseBool(import.meta.env.VITE_ENABLE_ANIMATIONS, true),
   enableGoogleDocs: parseBool(import.meta.env.VITE_ENABLE_GOOGLE_DOCS, true),
   enableExportFeatures: parseBool(import.meta.env.VITE_ENABLE_EXPORT_FEATURES, true),
+  enableStreaming: parseBool(import.meta.env.VITE_ENABLE_STREAMING, true),
   
   // API Limits
   maxTextLength: parseNumber(import.meta.env.VITE_MAX_TEXT_LENGTH, 10000),
   maxParagraphs: parseNumber(import.meta.env.VITE_MAX_PARAGRAPHS, 20),
+  maxLargeDocumentLength: parseNumber(import.meta.env.VITE_MAX_LARGE_DOCUMENT_LENGTH, 200000),
   
   // Development Settings
   debugMode: parseBool(import.meta.env.VITE_DEBUG_MODE, false),
@@ -79,11 +84,11 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
     errors.push('API base URL is required');
   }
   
-  // Supabase configuration must be provided at runtime
-  if (!import.meta.env.VITE_SUPABASE_URL) {
+  // Supabase configuration must be provided at runtime (mock mode signs in a demo user instead)
+  if (!config.mockApi && !import.meta.env.VITE_SUPABASE_URL) {
     errors.push('VITE_SUPABASE_URL is required');
   }
-  if (!import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY) {
+  if (!config.mockApi && !import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY) {
     errors.push('VITE_SUPABASE_PUBLISHABLE_KEY is required');
   }
   
@@ -94,6 +99,10 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
   if (config.maxParagraphs <= 0) {
     errors.push('Max paragraphs must be greater than 0');
   }
+
+  if (config.maxLargeDocumentLength < config.maxTextLength) {
+    errors.push('Max large document length must not be smaller than max text length');
+  }
   
   if (config.requestTimeout <= 0) {
     errors.push('Request timeout must be greater than 0');
@@ -113,10 +122,12 @@ if (config.debugMode) {
     animations: config.enableAnimations,
     googleDocs: config.enableGoogleDocs,
     export: config.enableExportFeatures,
+    streaming: config.enableStreaming,
   });
   console.log('Limits:', {
     maxTextLength: config.maxTextLength,
     maxParagraphs: config.maxParagraphs,
+    maxLargeDocumentLength: config.maxLargeDocumentLength,
   });
   console.log('Development:', {
     debugMode: config.debugMode,
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import type { TextCorrection } from '@/types';
+import { applyCorrectionsAccurately, resolveCorrections } from './correctionEngine';
+
+function correction(
+  original: string,
+  corrected: string,
+  start: number,
+  end: number = start + original.length,
+  type: TextCorrection['type'] = 'spelling'
+): TextCorrection {
+  return { original, corrected, position: { start, end }, type };
+}
+
+describe('applyCorrectionsAccurately', () => {
+  it('returns the text unchanged when there are no corrections', () => {
+    const result = applyCorrectionsAccurately('今天天氣很好', []);
+    expect(result.correctedText).toBe('今天天氣很好');
+    expect(result.applied).toEqual([]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('applies corrections at their positions rather than the first occurrence', () => {
+    const text = '在在這裡，在那裡';
+    // Only the second "在" is a duplicate to remove
+    const result = applyCorrectionsAccurately(text, [correction('在', '', 1)]);
+    expect(result.correctedText).toBe('在這裡，在那裡');
+    expect(result.resolved[0].anchor).toBe('exact');
+  });
+
+  it('applies corrections given out of order', () => {
+    const text = '我門今天去公圓玩';
+    const result = applyCorrectionsAccurately(text, [
+      correction('公圓', '公園', 5),
+      correction('我門', '我們', 0),
+    ]);
+    expect(result.correctedText).toBe('我們今天去公園玩');
+    expect(result.applied.map(c => c.position.start)).toEqual([0, 5]);
+  });
+
+  it('supports pure insertions and deletions', () => {
+    const text = '你好世界';
+    const result = applyCorrectionsAccurately(text, [
+      correction('', '，', 2, 2, 'punctuation'),
+      correction('界', '', 3),
+    ]);
+    expect(result.correctedText).toBe('你好，世');
+  });
+
+  it('builds diff segments for the applied corrections', () => {
+    const result = applyCorrectionsAccurately('我門好', [correction('門', '們', 1)]);
+    expect(result.segments).toEqual([
+      { text: '我', type: 'unchanged' },
+      { text: '門', type: 'removed', original: '門', corrected: '們' },
+      { text: '們', type: 'added', original: '門', corrected: '們' },
+      { text: '好', type: 'unchanged' },
+    ]);
+  });
+});
+
+describe('resolveCorrections: re-anchoring', () => {
+  it('relocates a correction whose offset is stale', () => {
+    const text = '前言。我門今天去公園';
+    const result = applyCorrectionsAccurately(text, [correction('我門', '我們', 0)]);
+    expect(result.correctedText).toBe('前言。我們今天去公園');
+    expect(result.resolved[0].anchor).toBe('relocated');
+    expect(result.applied[0].position).toEqual({ start: 3, end: 5 });
+  });
+
+  it('relocates to the occurrence nearest the reported offset', () => {
+    const text = '的的確確，的的確確';
+    const { resolved } = resolveCorrections(text, [correction('的的', '的', 6)]);
+    expect(resolved[0].correction.position).toEqual({ start: 5, end: 7 });
+  });
+
+  it('relocates corrections with out-of-range offsets', () => {
+    const result = applyCorrectionsAccurately('我門好', [correction('我門', '我們', 40, 42)]);
+    expect(result.correctedText).toBe('我們好');
+    expect(result.resolved[0].anchor).toBe('relocated');
+  });
+
+  it('does not relocate onto text another correction already targets', () => {
+    const text = '在在，在在';
+    const result = applyCorrectionsAccurately(text, [
+      correction('在在', '在', 0),
+      // Stale offset: it points at the first pair but means the second one
+      correction('在在', '在', 1, 3),
+    ]);
+    expect(result.correctedText).toBe('在，在');
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('falls back to a fuzzy match when the original text was slightly edited', () => {
+    const text = '這是一個非常重要的的決定';
+    const result = applyCorrectionsAccurately(text, [correction('十分重要的的決定', '非常重要的決定', 0)]);
+    expect(result.resolved[0].anchor).toBe('fuzzy');
+    expect(result.applied[0].original).toBe('非常重要的的決定');
+    expect(result.correctedText).toBe('這是一個非常重要的決定');
+  });
+
+  it('can disable fuzzy matching', () => {
+    const result = applyCorrectionsAccurately(
+      '這是一個非常重要的的決定',
+      [correction('十分重要的的決定', '非常重要的決定', 0)],
+      { fuzzy: false }
+    );
+    expect(result.correctedText).toBe('這是一個非常重要的的決定');
+    expect(result.skipped[0].reason).toBe('not-found');
+  });
+
+  it('reports corrections whose original text is nowhere in the paragraph', () => {
+    const result = applyCorrectionsAccurately('今天天氣很好', [correction('完全無關的句子內容', '修正', 0)]);
+    expect(result.correctedText).toBe('今天天氣很好');
+    expect(result.skipped).toMatchObject([{ index: 0, reason: 'not-found' }]);
+  });
+
+  it('reports insertions at invalid positions', () => {
+    const result = applyCorrectionsAccurately('你好', [correction('', '！', 5, 5)]);
+    expect(result.correctedText).toBe('你好');
+    expect(result.skipped[0].reason).toBe('not-found');
+  });
+
+  it('skips corrections that change nothing', () => {
+    const result = applyCorrectionsAccurately('你好', [correction('你', '你', 0)]);
+    expect(result.skipped[0].reason).toBe('no-op');
+  });
+});
+
+describe('resolveCorrections: overlaps', () => {
+  it('drops exact duplicates', () => {
+    const result = applyCorrectionsAccurately('我門好', [
+      correction('門', '們', 1),
+      correction('門', '們', 1),
+    ]);
+    expect(result.correctedText).toBe('我們好');
+    expect(result.skipped).toMatchObject([{ index: 1, reason: 'duplicate', conflictsWith: 0 }]);
+  });
+
+  it('keeps the higher-priority correction when ranges overlap', () => {
+    const text = '他非常的高興';
+    const result = applyCorrectionsAccurately(text, [
+      correction('非常的高興', '十分開心', 1, 6, 'style'),
+      correction('的', '地', 3, 4, 'grammar'),
+    ]);
+    expect(result.correctedText).toBe('他非常地高興');
+    expect(result.skipped).toMatchObject([{ index: 0, reason: 'conflict', conflictsWith: 1 }]);
+  });
+
+  it('keeps the first listed correction when overlapping corrections have the same type', () => {
+    const result = applyCorrectionsAccurately('我門今天', [
+      correction('我門', '我們', 0),
+      correction('門今', '們今', 1),
+    ]);
+    expect(result.correctedText).toBe('我們今天');
+    expect(result.skipped).toMatchObject([{ index: 1, reason: 'conflict', conflictsWith: 0 }]);
+  });
+
+  it('treats two insertions at the same point as a conflict', () => {
+    const result = applyCorrectionsAccurately('你好世界', [
+      correction('', '，', 2, 2, 'punctuation'),
+      correction('', '、', 2, 2, 'punctuation'),
+    ]);
+    expect(result.correctedText).toBe('你好，世界');
+    expect(result.skipped).toMatchObject([{ index: 1, reason: 'conflict' }]);
+  });
+
+  it('allows adjacent corrections that touch but do not overlap', () => {
+    const result = applyCorrectionsAccurately('我門今天', [
+      correction('我門', '我們', 0),
+      correction('今天', '明天', 2, 4, 'grammar'),
+      correction('', '。', 4, 4, 'punctuation'),
+    ]);
+    expect(result.correctedText).toBe('我們明天。');
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('resolves an insertion at the start of a replaced range', () => {
+    const result = applyCorrectionsAccurately('我門今天', [
+      correction('我門', '我們', 0),
+      correction('', '，', 2, 2, 'punctuation'),
+      correction('今天', '明天', 2, 4, 'grammar'),
+    ]);
+    // The insertion and the replacement starting at the same offset conflict; grammar wins
+    expect(result.correctedText).toBe('我們明天');
+    expect(result.skipped).toMatchObject([{ index: 1, reason: 'conflict', conflictsWith: 2 }]);
+  });
+
+  it('prefers an exactly anchored correction over a relocated one of the same type', () => {
+    const text = '我門，我門';
+    const result = applyCorrectionsAccurately(text, [
+      // Stale offset, relocated to 1..4
+      correction('門，我', '們，我', 0),
+      correction('我門', '我們', 3),
+    ]);
+    expect(result.correctedText).toBe('我門，我們');
+    expect(result.resolved).toMatchObject([{ index: 1, anchor: 'exact' }]);
+    expect(result.skipped).toMatchObject([{ index: 0, reason: 'conflict', conflictsWith: 1 }]);
+  });
+});
@@ -0,0 +1,241 @@
+// Position-accurate correction engine
+// Validates correction ranges against the source text, re-anchors stale offsets
+// and resolves overlapping corrections before handing them to applyCorrections
+
+import { diff_match_patch } from 'diff-match-patch';
+import type { TextCorrection } from '@/types';
+import { applyCorrections } from '@/utils/textProcessor';
+
+export type CorrectionAnchor = 'exact' | 'relocated' | 'fuzzy';
+
+export type SkipReason =
+  // Nothing to change
+  | 'no-op'
+  // Neither the given range nor a search of the text matched the original
+  | 'not-found'
+  // Same range and replacement as a correction that was already applied
+  | 'duplicate'
+  // Overlaps a correction that took precedence
+  | 'conflict';
+
+export interface ResolvedCorrection {
+  correction: TextCorrection;
+  // Index in the input array
+  index: number;
+  anchor: CorrectionAnchor;
+}
+
+export interface SkippedCorrection {
+  correction: TextCorrection;
+  index: number;
+  reason: SkipReason;
+  // For conflicts and duplicates: the input index of the correction that was kept
+  conflictsWith?: number;
+}
+
+export interface CorrectionEngineOptions {
+  // Allow approximate matches when the original text is not found verbatim
+  fuzzy?: boolean;
+  // 0 accepts only exact matches, 1 accepts anything (diff-match-patch Match_Threshold)
+  fuzzyThreshold?: number;
+}
+
+export interface CorrectionEngineResult {
+  correctedText: string;
+  segments: ReturnType<typeof applyCorrections>['segments'];
+  // Corrections that were applied, with positions pointing into the source text
+  applied: TextCorrection[];
+  resolved: ResolvedCorrection[];
+  skipped: SkippedCorrection[];
+}
+
+// When two corrections overlap, the more fundamental fix wins
+const TYPE_PRIORITY: Record<TextCorrection['type'], number> = {
+  spelling: 5,
+  grammar: 4,
+  punctuation: 3,
+  conversion: 2,
+  style: 1,
+};
+
+const DEFAULT_OPTIONS: Required<CorrectionEngineOptions> = {
+  fuzzy: true,
+  fuzzyThreshold: 0.3,
+};
+
+function overlaps(a: TextCorrection['position'], b: TextCorrection['position']): boolean {
+  // Two insertions at the same point conflict, as does an insertion strictly inside a replaced range
+  if (a.start === a.end || b.start === b.end) {
+    return a.start === b.start || (a.start > b.start && a.start < b.end) || (b.start > a.start && b.start < a.end);
+  }
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Find the occurrence of `needle` closest to `near` that no other correction has claimed
+ */
+function findNearestOccurrence(
+  text: string,
+  needle: string,
+  near: number,
+  claimed: TextCorrection['position'][]
+): number {
+  let best = -1;
+  let from = 0;
+  while (from <= text.length) {
+    const found = text.indexOf(needle, from);
+    if (found === -1) break;
+    from = found + 1;
+
+    const range = { start: found, end: found + needle.length };
+    if (claimed.some(c => overlaps(c, range))) continue;
+    if (best === -1 || Math.abs(found - near) < Math.abs(best - near)) best = found;
+    if (found > near) break;
+  }
+  return best;
+}
+
+function isExactMatch(text: string, correction: TextCorrection): boolean {
+  const { start, end } = correction.position;
+  const inRange = Number.isInteger(start) && Number.isInteger(end) && start >= 0 && start <= end && end <= text.length;
+  return inRange && text.slice(start, end) === correction.original;
+}
+
+/**
+ * Find where a correction applies in the text
+ * Tries the given range first, then the nearest verbatim occurrence, then a fuzzy match
+ */
+function anchorCorrection(
+  text: string,
+  correction: TextCorrection,
+  options: Required<CorrectionEngineOptions>,
+  claimed: TextCorrection['position'][]
+): { correction: TextCorrection; anchor: CorrectionAnchor } | null {
+  const { original } = correction;
+  const { start } = correction.position;
+
+  if (isExactMatch(text, correction)) {
+    return { correction, anchor: 'exact' };
+  }
+
+  // Pure insertions have nothing to search for
+  if (original.length === 0) return null;
+
+  const near = Number.isFinite(start) ? Math.min(Math.max(0, start), text.length) : 0;
+  const relocated = findNearestOccurrence(text, original, near, claimed);
+  if (relocated !== -1) {
+    return {
+      correction: { ...correction, position: { start: relocated, end: relocated + original.length } },
+      anchor: 'relocated',
+    };
+  }
+
+  if (!options.fuzzy) return null;
+
+  const dmp = new diff_match_patch();
+  // Bitap matching is limited to patterns of Match_MaxBits characters
+  if (original.length > dmp.Match_MaxBits) return null;
+  dmp.Match_Threshold = options.fuzzyThreshold;
+  dmp.Match_Distance = Math.max(100, text.length);
+
+  const matched = dmp.match_main(text, original, near);
+  if (matched === -1) return null;
+
+  const matchedEnd = Math.min(text.length, matched + original.length);
+  return {
+    correction: {
+      ...correction,
+      // The text in the document is what gets replaced, so report that as the original
+      original: text.slice(matched, matchedEnd),
+      position: { start: matched, end: matchedEnd },
+    },
+    anchor: 'fuzzy',
+  };
+}
+
+/**
+ * Decide whether `challenger` should replace `current` when they overlap
+ * Higher-priority types win; otherwise the correction listed first is kept
+ */
+function takesPrecedence(challenger: ResolvedCorrection, current: ResolvedCorrection): boolean {
+  const priorityDiff = TYPE_PRIORITY[challenger.correction.type] - TYPE_PRIORITY[current.correction.type];
+  if (priorityDiff !== 0) return priorityDiff > 0;
+  // Prefer corrections that matched where the server said they would
+  if (challenger.anchor !== current.anchor) return challenger.anchor === 'exact';
+  return challenger.index < current.index;
+}
+
+/**
+ * Anchor every correction in the text and drop the ones that cannot be applied together
+ */
+export function resolveCorrections(
+  text: string,
+  corrections: TextCorrection[],
+  options: CorrectionEngineOptions = {}
+): { resolved: ResolvedCorrection[]; skipped: SkippedCorrection[] } {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const skipped: SkippedCorrection[] = [];
+  const anchored: ResolvedCorrection[] = [];
+  // Relocated corrections should not land on text another correction already points at exactly
+  const claimed = corrections.filter(c => isExactMatch(text, c)).map(c => c.position);
+
+  corrections.forEach((correction, index) => {
+    if (correction.original === correction.corrected) {
+      skipped.push({ correction, index, reason: 'no-op' });
+      return;
+    }
+    const result = anchorCorrection(text, correction, settings, claimed);
+    if (!result) {
+      skipped.push({ correction, index, reason: 'not-found' });
+      return;
+    }
+    anchored.push({ ...result, index });
+    if (result.anchor !== 'exact') claimed.push(result.correction.position);
+  });
+
+  anchored.sort((a, b) =>
+    a.correction.position.start - b.correction.position.start ||
+    a.correction.position.end - b.correction.position.end ||
+    a.index - b.index
+  );
+
+  // Kept corrections never overlap and are sorted, so a new one can only clash with the last kept one
+  const resolved: ResolvedCorrection[] = [];
+  for (const candidate of anchored) {
+    const last = resolved[resolved.length - 1];
+    if (!last || !overlaps(last.correction.position, candidate.correction.position)) {
+      resolved.push(candidate);
+      continue;
+    }
+
+    const isDuplicate =
+      last.correction.position.start === candidate.correction.position.start &&
+      last.correction.position.end === candidate.correction.position.end &&
+      last.correction.corrected === candidate.correction.corrected;
+    if (isDuplicate) {
+      skipped.push({ correction: candidate.correction, index: candidate.index, reason: 'duplicate', conflictsWith: last.index });
+    } else if (takesPrecedence(candidate, last)) {
+      resolved[resolved.length - 1] = candidate;
+      skipped.push({ correction: last.correction, index: last.index, reason: 'conflict', conflictsWith: candidate.index });
+    } else {
+      skipped.push({ correction: candidate.correction, index: candidate.index, reason: 'conflict', conflictsWith: last.index });
+    }
+  }
+
+  skipped.sort((a, b) => a.index - b.index);
+  return { resolved, skipped };
+}
+
+/**
+ * Apply corrections by position, reporting the ones that could not be applied
+ */
+export function applyCorrectionsAccurately(
+  text: string,
+  corrections: TextCorrection[],
+  options: CorrectionEngineOptions = {}
+): CorrectionEngineResult {
+  const { resolved, skipped } = resolveCorrections(text, corrections, options);
+  const applied = resolved.map(r => r.correction);
+  const { correctedText, segments } = applyCorrections(text, applied);
+  return { correctedText, segments, applied, resolved, skipped };
+}
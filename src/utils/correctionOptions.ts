@@ -0,0 +1,67 @@
+// Correction option defaults and display labels
+
+import type {
+  CorrectionLanguage,
+  CorrectionLevel,
+  CorrectionOptions,
+  ProcessingMode,
+  TextCorrection,
+  UserPreferences,
+} from '@/types';
+
+export const DEFAULT_CORRECTION_OPTIONS: CorrectionOptions = {
+  language: 'zh-TW',
+  correctionLevel: 'standard',
+};
+
+export const LANGUAGE_LABELS: Record<CorrectionLanguage, string> = {
+  'zh-TW': '繁體中文（台灣）',
+  'zh-CN': '簡體中文',
+  'zh-HK': '繁體中文（香港）',
+  en: 'English',
+};
+
+export const CORRECTION_LEVEL_LABELS: Record<CorrectionLevel, string> = {
+  basic: '基本',
+  standard: '標準',
+  advanced: '進階',
+};
+
+export const PROCESSING_MODE_LABELS: Record<ProcessingMode, string> = {
+  correction: '校正',
+  conversion: '繁簡轉換',
+};
+
+export const CORRECTION_TYPE_LABELS: Record<TextCorrection['type'], string> = {
+  spelling: '錯字',
+  grammar: '文法',
+  punctuation: '標點',
+  style: '風格',
+  conversion: '轉換',
+};
+
+/**
+ * Short label describing the settings a run was made with
+ */
+export function formatCorrectionOptions(options: CorrectionOptions): string {
+  if (options.mode === 'conversion') {
+    return `${PROCESSING_MODE_LABELS.conversion}・${LANGUAGE_LABELS[options.language]}`;
+  }
+  return `${LANGUAGE_LABELS[options.language]}・${CORRECTION_LEVEL_LABELS[options.correctionLevel]}`;
+}
+
+/**
+ * Derive correction options from saved profile preferences, ignoring unknown values
+ * Older profiles stored English as 'en-US'
+ */
+export function toCorrectionOptions(preferences: Partial<UserPreferences>): CorrectionOptions {
+  const language = preferences.language === 'en-US' ? 'en' : preferences.language;
+  return {
+    language: language && language in LANGUAGE_LABELS
+      ? language as CorrectionLanguage
+      : DEFAULT_CORRECTION_OPTIONS.language,
+    correctionLevel: preferences.correctionLevel && preferences.correctionLevel in CORRECTION_LEVEL_LABELS
+      ? preferences.correctionLevel as CorrectionLevel
+      : DEFAULT_CORRECTION_OPTIONS.correctionLevel,
+  };
+}
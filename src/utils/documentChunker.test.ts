@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { isHeadingLine, splitIntoChunks } from './documentChunker';
+
+const paragraph = (label: string, length: number) => label + '文'.repeat(length - label.length);
+
+describe('isHeadingLine', () => {
+  it('recognizes chapter, section and markdown headings', () => {
+    ['第一章 開始', '第12節', '序章', 'Chapter 3', 'PART II', '## 小節', '一、標題', '2.3 標題'].forEach(line => {
+      expect(isHeadingLine(line)).toBe(true);
+    });
+  });
+
+  it('treats long or ordinary lines as body text', () => {
+    expect(isHeadingLine('這是一般的段落文字。')).toBe(false);
+    expect(isHeadingLine('第一章' + '很長的內容'.repeat(10))).toBe(false);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('starts chunks at chapter headings and packs small sections together', () => {
+    const text = [
+      '第一章 開始', paragraph('一', 60), '',
+      '第二章 中間', paragraph('二', 60), '',
+      '第三章 結束', paragraph('三', 60),
+    ].join('\n');
+
+    const chunks = splitIntoChunks(text, 150);
+    expect(chunks.map(chunk => chunk.title)).toEqual(['第一章 開始', '第三章 結束']);
+    expect(text.slice(chunks[1].start)).toMatch(/^第三章/);
+  });
+
+  it('splits a section longer than the limit at paragraph breaks', () => {
+    const text = ['第一章 開始', ...Array.from({ length: 6 }, (_, i) => paragraph(String(i), 50))].join('\n\n');
+
+    const chunks = splitIntoChunks(text, 120);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.characterCount).toBeLessThanOrEqual(120));
+    expect(chunks[0].title).toBe('第一章 開始');
+    expect(chunks.slice(1).every(chunk => chunk.title === undefined)).toBe(true);
+  });
+
+  it('covers the text without gaps or overlaps, so nothing is lost', () => {
+    const text = [
+      '前言', paragraph('a', 90), '',
+      '第一章', paragraph('b', 200), paragraph('c', 200), '',
+      '第二章', paragraph('d', 40),
+    ].join('\n');
+
+    const chunks = splitIntoChunks(text, 150);
+    expect(chunks[0].start).toBe(0);
+    chunks.slice(1).forEach((chunk, index) => expect(chunk.start).toBe(chunks[index].end));
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+    expect(chunks.map(chunk => text.slice(chunk.start, chunk.end)).join('')).toBe(text);
+  });
+});
@@ -0,0 +1,109 @@
+// Split long manuscripts into chunks on chapter and section boundaries
+
+import type { DocumentChunk } from '@/types';
+
+// Chunks are packed up to this many characters unless a single section is longer
+export const DEFAULT_CHUNK_LENGTH = 8000;
+
+// Headings are short lines; longer lines that happen to match are treated as body text
+const MAX_HEADING_LENGTH = 40;
+
+const HEADING_PATTERNS: RegExp[] = [
+  // 第一章 / 第12節 / 第三回 / 第二卷 ...
+  /^第[一二三四五六七八九十百千零〇兩两\d]+[章節节回卷部篇集幕]/,
+  // 序章 / 楔子 / 前言 / 後記 ...
+  /^(序章|序言|序|楔子|引言|前言|後記|后记|尾聲|尾声|終章|终章|附錄|附录)(\s|$|[：:、])/,
+  // Chapter 3 / PART II / Section 2.1
+  /^(chapter|part|section|book)\s+[\divxlc]+/i,
+  // Markdown headings
+  /^#{1,6}\s+\S/,
+  // 一、標題 / 1. 標題 / 2.3 標題
+  /^([一二三四五六七八九十]+、|\d+(\.\d+)*[.、．]?\s)\S/,
+];
+
+export function isHeadingLine(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return false;
+  return HEADING_PATTERNS.some(pattern => pattern.test(trimmed));
+}
+
+interface Section {
+  title?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find section boundaries: every heading line starts a new section
+ */
+function findSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { start: 0, end: text.length };
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    if (isHeadingLine(line) && offset > current.start) {
+      sections.push({ ...current, end: offset });
+      current = { title: line.trim(), start: offset, end: text.length };
+    } else if (isHeadingLine(line) && offset === current.start) {
+      current.title = line.trim();
+    }
+    offset += line.length + 1;
+  }
+  sections.push(current);
+
+  return sections.filter(section => text.slice(section.start, section.end).trim().length > 0);
+}
+
+/**
+ * Split an oversized section at paragraph breaks (blank lines), falling back to single line breaks
+ */
+function splitSection(text: string, section: Section, maxLength: number): Section[] {
+  const parts: Section[] = [];
+  let chunkStart = section.start;
+  let lastBreak = -1;
+
+  const breakPattern = /\n\s*\n|\n/g;
+  breakPattern.lastIndex = section.start;
+  let match: RegExpExecArray | null;
+
+  while ((match = breakPattern.exec(text)) && match.index < section.end) {
+    const breakEnd = match.index + match[0].length;
+    if (breakEnd - chunkStart > maxLength && lastBreak > chunkStart) {
+      parts.push({ title: parts.length === 0 ? section.title : undefined, start: chunkStart, end: lastBreak });
+      chunkStart = lastBreak;
+    }
+    lastBreak = breakEnd;
+  }
+
+  parts.push({ title: parts.length === 0 ? section.title : undefined, start: chunkStart, end: section.end });
+  return parts;
+}
+
+/**
+ * Split text into chunks that start at chapter or section boundaries where possible
+ * Small consecutive sections are packed together; blank-only stretches are dropped
+ */
+export function splitIntoChunks(text: string, maxLength: number = DEFAULT_CHUNK_LENGTH): DocumentChunk[] {
+  const sections = findSections(text).flatMap(section =>
+    section.end - section.start > maxLength ? splitSection(text, section, maxLength) : [section]
+  );
+
+  const packed: Section[] = [];
+  for (const section of sections) {
+    const previous = packed[packed.length - 1];
+    if (previous && section.end - previous.start <= maxLength) {
+      previous.end = section.end;
+    } else {
+      packed.push({ ...section });
+    }
+  }
+
+  return packed.map((section, index) => ({
+    id: `chunk-${index + 1}`,
+    title: section.title,
+    start: section.start,
+    end: section.end,
+    characterCount: section.end - section.start,
+  }));
+}
@@ -0,0 +1,67 @@
+// Shared model the exporters render from
+
+import type { ExportOptions, Paragraph, RichTextMarks, TextCorrection } from '@/types';
+import { applyCorrections, getAppliedCorrections } from '@/utils/textProcessor';
+import { applyMarksToSegments } from '@/utils/richText';
+
+export interface ExportSegment {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+  // Formatting of rich-text input; segments are split wherever it changes
+  marks?: RichTextMarks;
+}
+
+export interface ExportParagraph {
+  id: string;
+  // Heading or list style of Google Docs and rich-text paragraphs
+  style?: string;
+  original: string;
+  corrected: string;
+  corrections: TextCorrection[];
+  segments: ExportSegment[];
+}
+
+export interface ExportDocument {
+  title: string;
+  createdAt: Date;
+  paragraphs: ExportParagraph[];
+}
+
+/**
+ * Resolve each paragraph's applied corrections into unchanged/removed/added runs
+ * Follows the store rule: in review mode only accepted corrections apply, otherwise anything not rejected
+ */
+export function buildExportDocument(paragraphs: Paragraph[], options: ExportOptions): ExportDocument {
+  return {
+    title: options.title,
+    createdAt: new Date(),
+    paragraphs: paragraphs.map(paragraph => {
+      const corrections = getAppliedCorrections(paragraph, options.decisions, !options.reviewMode);
+      const { correctedText, segments } = applyCorrections(paragraph.text, corrections);
+      // Pure insertions/deletions produce empty runs that no format needs
+      const exportSegments = segments
+        .filter(segment => segment.text.length > 0)
+        .map(({ type, text }) => ({ type, text }));
+
+      return {
+        id: paragraph.id,
+        style: paragraph.style,
+        original: paragraph.text,
+        corrected: correctedText,
+        corrections,
+        segments: paragraph.richText ? applyMarksToSegments(paragraph.richText, exportSegments) : exportSegments,
+      };
+    }),
+  };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,154 @@
+// DOCX export with Word tracked-changes revisions
+
+import type { RichTextMarks } from '@/types';
+import { createZip } from '@/utils/zip';
+import { getHeadingLevel, getParagraphKind, isOrderedList } from '@/utils/paragraphStyles';
+import { escapeXml, type ExportDocument, type ExportParagraph } from './document';
+
+// Shown as the revision author in Word's review pane
+const REVISION_AUTHOR = 'AI 文字校正';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+// Links of rich-text input are external hyperlink relationships, numbered after the settings part
+function buildDocumentRelsXml(links: string[]): string {
+  const hyperlinks = links.map((link, index) =>
+    `\n  <Relationship Id="rId${index + 2}" Type="${RELATIONSHIPS_NAMESPACE}/hyperlink" Target="${escapeXml(link)}" TargetMode="External"/>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${RELATIONSHIPS_NAMESPACE}/settings" Target="settings.xml"/>${hyperlinks.join('')}
+</Relationships>`;
+}
+
+// Keep tracking on so the client's own edits are recorded too
+const SETTINGS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="${WORD_NAMESPACE}">
+  <w:trackRevisions/>
+</w:settings>`;
+
+// Half-point font sizes for heading levels 1-6
+const HEADING_SIZES = [36, 32, 28, 26, 24, 24];
+
+/**
+ * Run properties in schema order; the East Asian font hint keeps CJK text from falling back to a Latin font
+ */
+function runProperties(marks: RichTextMarks = {}, headingLevel?: number): string {
+  const properties = [
+    marks.code
+      ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:eastAsia="Microsoft JhengHei"/>'
+      : '<w:rFonts w:eastAsia="Microsoft JhengHei"/>',
+    marks.bold || headingLevel ? '<w:b/>' : '',
+    marks.italic ? '<w:i/>' : '',
+    marks.strike ? '<w:strike/>' : '',
+    marks.link ? '<w:color w:val="0563C1"/>' : '',
+    headingLevel ? `<w:sz w:val="${HEADING_SIZES[headingLevel - 1]}"/>` : '',
+    marks.underline || marks.link ? '<w:u w:val="single"/>' : '',
+  ];
+  return `<w:rPr>${properties.join('')}</w:rPr>`;
+}
+
+function textRun(text: string, tag: 'w:t' | 'w:delText' = 'w:t', properties: string = runProperties()): string {
+  return `<w:r>${properties}<${tag} xml:space="preserve">${escapeXml(text)}</${tag}></w:r>`;
+}
+
+/**
+ * Paragraph properties and list marker for a Google Docs or rich-text style
+ */
+function paragraphLayout(paragraph: ExportParagraph, listNumber: number): { properties: string; marker: string } {
+  switch (getParagraphKind(paragraph.style)) {
+    case 'heading':
+      return { properties: `<w:pPr><w:outlineLvl w:val="${getHeadingLevel(paragraph.style) - 1}"/></w:pPr>`, marker: '' };
+    case 'list':
+      return {
+        properties: '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr>',
+        marker: isOrderedList(paragraph.style) ? `${listNumber}.\t` : '•\t',
+      };
+    default:
+      return { properties: '', marker: '' };
+  }
+}
+
+/**
+ * Render the document body; every correction becomes a w:del/w:ins revision pair
+ * Hyperlink targets are collected into `links` for the relationships part
+ */
+function buildDocumentXml(doc: ExportDocument, links: string[]): string {
+  const revisionDate = doc.createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const revisionAttrs = `w:author="${escapeXml(REVISION_AUTHOR)}" w:date="${revisionDate}"`;
+  let revisionId = 0;
+
+  const body: string[] = [];
+
+  if (doc.title) {
+    body.push(
+      `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:rPr><w:b/><w:sz w:val="32"/></w:rPr><w:t xml:space="preserve">${escapeXml(doc.title)}</w:t></w:r></w:p>`
+    );
+  }
+
+  let listNumber = 0;
+  for (const paragraph of doc.paragraphs) {
+    const headingLevel = getParagraphKind(paragraph.style) === 'heading' ? getHeadingLevel(paragraph.style) : undefined;
+    listNumber = getParagraphKind(paragraph.style) === 'list' ? listNumber + 1 : 0;
+    const { properties, marker } = paragraphLayout(paragraph, listNumber);
+
+    const runs = paragraph.segments.map(segment => {
+      const rPr = runProperties(segment.marks, headingLevel);
+      let markup: string;
+      switch (segment.type) {
+        case 'removed':
+          markup = `<w:del w:id="${++revisionId}" ${revisionAttrs}>${textRun(segment.text, 'w:delText', rPr)}</w:del>`;
+          break;
+        case 'added':
+          markup = `<w:ins w:id="${++revisionId}" ${revisionAttrs}>${textRun(segment.text, 'w:t', rPr)}</w:ins>`;
+          break;
+        default:
+          markup = textRun(segment.text, 'w:t', rPr);
+      }
+
+      const link = segment.marks?.link;
+      if (!link) return markup;
+      if (!links.includes(link)) links.push(link);
+      return `<w:hyperlink r:id="rId${links.indexOf(link) + 2}">${markup}</w:hyperlink>`;
+    });
+    body.push(`<w:p>${properties}${marker ? textRun(marker) : ''}${runs.join('')}</w:p>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}">
+  <w:body>
+    ${body.join('\n    ')}
+    <w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`;
+}
+
+export function exportToDocx(doc: ExportDocument): Blob {
+  const links: string[] = [];
+  const documentXml = buildDocumentXml(doc, links);
+  const archive = createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: ROOT_RELS_XML },
+    { name: 'word/_rels/document.xml.rels', data: buildDocumentRelsXml(links) },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/settings.xml', data: SETTINGS_XML },
+  ], doc.createdAt);
+
+  return new Blob([archive], {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+}
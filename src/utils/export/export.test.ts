@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph } from '@/types';
+import { readZip } from '@/utils/zip';
+import { buildExportDocument } from './document';
+import { exportToDocx } from './docx';
+import { exportToMarkdown } from './markdown';
+
+const text = '今天天汽很好';
+const paragraphs: Paragraph[] = [{
+  id: 'p1',
+  text,
+  status: 'completed',
+  corrections: [{ original: '汽', corrected: '氣', position: { start: 3, end: 4 }, type: 'spelling' }],
+  correctedText: '今天天氣很好',
+}];
+
+const doc = buildExportDocument(paragraphs, { title: '', decisions: {}, reviewMode: false });
+
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('exportToDocx', () => {
+  it('writes each correction as a tracked deletion and insertion', async () => {
+    const entries = await readZip(new Uint8Array(await readBlob(exportToDocx(doc))));
+    const documentXml = new TextDecoder().decode(entries.find(entry => entry.name === 'word/document.xml')!.data);
+
+    const deletions = documentXml.match(/<w:del [^>]*>.*?<\/w:del>/g) ?? [];
+    const insertions = documentXml.match(/<w:ins [^>]*>.*?<\/w:ins>/g) ?? [];
+    expect(deletions).toHaveLength(1);
+    expect(insertions).toHaveLength(1);
+    const [deletion = '', insertion = ''] = [deletions[0], insertions[0]];
+    expect(deletion).toContain('<w:delText xml:space="preserve">汽</w:delText>');
+    expect(insertion).toContain('<w:t xml:space="preserve">氣</w:t>');
+    // The deletion comes right before its insertion, after the unchanged text
+    expect(documentXml.indexOf('今天天')).toBeLessThan(documentXml.indexOf(deletion));
+    expect(documentXml.indexOf(deletion) + deletion.length).toBe(documentXml.indexOf(insertion));
+  });
+});
+
+describe('exportToMarkdown', () => {
+  it('marks deletions with ~~ and insertions with **', async () => {
+    const markdown = new TextDecoder().decode(await readBlob(exportToMarkdown(doc)));
+    expect(markdown.trim()).toBe('今天天~~汽~~**氣**很好');
+  });
+
+  it('only includes accepted corrections in review mode', async () => {
+    const reviewed = buildExportDocument(paragraphs, { title: '', decisions: { 'p1:0': 'rejected' }, reviewMode: true });
+    const markdown = new TextDecoder().decode(await readBlob(exportToMarkdown(reviewed)));
+    expect(markdown.trim()).toBe(text);
+  });
+});
@@ -0,0 +1,65 @@
+// Standalone HTML export using the same diff colours as TextComparison (light theme)
+
+import { format } from 'date-fns';
+import { renderBlocksHtml, renderMarkedHtml } from '@/utils/richText';
+import { escapeXml, type ExportDocument } from './document';
+
+export const DIFF_STYLES = `
+  body { font-family: "Noto Sans TC", "Microsoft JhengHei", "PingFang TC", sans-serif; color: #1f2937; line-height: 1.8; max-width: 800px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-bottom: 2rem; }
+  p { margin: 0 0 1.25rem; }
+  .text-diff-added { background: #f0fdf4; color: #166534; border: 1px solid #bbf7d0; border-radius: 4px; padding: 1px 4px; }
+  .text-diff-removed { background: #fef2f2; color: #991b1b; border: 1px solid #fecaca; border-radius: 4px; padding: 1px 4px; text-decoration: line-through; }
+  .text-diff-unchanged { color: #374151; }
+`;
+
+export function renderTextWithLineBreaks(text: string): string {
+  return escapeXml(text).replace(/\n/g, '<br>');
+}
+
+/**
+ * Render paragraphs as inline diff markup, keeping headings, lists and pasted formatting
+ */
+export function renderDiffParagraphs(doc: ExportDocument): string {
+  return renderBlocksHtml(doc.paragraphs.map(paragraph => {
+    const spans = paragraph.segments.map(segment => {
+      const text = renderMarkedHtml(renderTextWithLineBreaks(segment.text), segment.marks ?? {});
+      switch (segment.type) {
+        case 'removed':
+          return `<del class="text-diff-removed">${text}</del>`;
+        case 'added':
+          return `<ins class="text-diff-added">${text}</ins>`;
+        default:
+          return `<span class="text-diff-unchanged">${text}</span>`;
+      }
+    });
+    return { style: paragraph.style, html: spans.join('') };
+  }));
+}
+
+export function buildHtmlDocument(title: string, styles: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+export function exportToHtml(doc: ExportDocument): Blob {
+  const correctionCount = doc.paragraphs.reduce((sum, p) => sum + p.corrections.length, 0);
+  const body = `<h1>${escapeXml(doc.title || '校正結果')}</h1>
+<div class="meta">匯出時間：${format(doc.createdAt, 'yyyy/MM/dd HH:mm')}・共 ${correctionCount} 處修正</div>
+${renderDiffParagraphs(doc)}`;
+
+  return new Blob([buildHtmlDocument(doc.title || '校正結果', DIFF_STYLES, body)], {
+    type: 'text/html;charset=utf-8',
+  });
+}
@@ -0,0 +1,66 @@
+// Export corrected paragraphs to files editors can hand to clients
+
+import type { ExportFormat, ExportOptions, Paragraph } from '@/types';
+import { buildExportDocument } from './document';
+import { exportToDocx } from './docx';
+import { exportToMarkdown } from './markdown';
+import { exportToHtml } from './html';
+import { printPdfReport } from './pdf';
+
+export { buildExportDocument } from './document';
+export type { ExportDocument, ExportParagraph, ExportSegment } from './document';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  docx: 'Word（追蹤修訂）',
+  markdown: 'Markdown',
+  html: 'HTML',
+  pdf: 'PDF 報告',
+};
+
+const FILE_EXTENSIONS: Record<Exclude<ExportFormat, 'pdf'>, string> = {
+  docx: 'docx',
+  markdown: 'md',
+  html: 'html',
+};
+
+function toFileName(title: string, extension: string): string {
+  const base = title.replace(/[\\/:*?"<>|\r\n]+/g, ' ').trim().slice(0, 40) || '校正結果';
+  return `${base}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Export paragraphs in the requested format
+ * Files are downloaded; the PDF report opens the print dialog
+ */
+export async function exportParagraphs(
+  exportFormat: ExportFormat,
+  paragraphs: Paragraph[],
+  options: ExportOptions
+): Promise<void> {
+  const doc = buildExportDocument(paragraphs, options);
+
+  if (exportFormat === 'pdf') {
+    await printPdfReport(doc);
+    return;
+  }
+
+  const blob = exportFormat === 'docx'
+    ? exportToDocx(doc)
+    : exportFormat === 'markdown'
+      ? exportToMarkdown(doc)
+      : exportToHtml(doc);
+
+  downloadBlob(blob, toFileName(options.title, FILE_EXTENSIONS[exportFormat]));
+}
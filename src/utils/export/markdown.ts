@@ -0,0 +1,64 @@
+// Markdown export with inline ~~deleted~~ / **inserted** marks
+
+import type { RichTextMarks } from '@/types';
+import { getHeadingLevel, getParagraphKind, isOrderedList } from '@/utils/paragraphStyles';
+import type { ExportDocument } from './document';
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~[\]#<>|])/g, '\\$1');
+}
+
+// Bold and italics use underscores so they do not clash with the ** insertion marks
+function applyMarks(text: string, marks: RichTextMarks = {}): string {
+  if (!text.trim()) return text;
+  let result = marks.code ? `\`${text}\`` : text;
+  if (marks.bold) result = `__${result}__`;
+  if (marks.italic) result = `_${result}_`;
+  if (marks.link) result = `[${result}](${marks.link.replace(/[()]/g, encodeURIComponent)})`;
+  return result;
+}
+
+function getBlockPrefix(style: string | undefined, listNumber: number): string {
+  switch (getParagraphKind(style)) {
+    case 'heading':
+      return '#'.repeat(getHeadingLevel(style)) + ' ';
+    case 'list':
+      return isOrderedList(style) ? `${listNumber}. ` : '- ';
+    default:
+      return '';
+  }
+}
+
+export function exportToMarkdown(doc: ExportDocument): Blob {
+  const lines: string[] = [];
+
+  if (doc.title) {
+    lines.push(`# ${escapeMarkdown(doc.title)}`, '');
+  }
+
+  let listNumber = 0;
+  doc.paragraphs.forEach((paragraph, index) => {
+    const isListItem = getParagraphKind(paragraph.style) === 'list';
+    listNumber = isListItem ? listNumber + 1 : 0;
+
+    const content = paragraph.segments
+      .map(segment => {
+        const text = applyMarks(segment.marks?.code ? segment.text : escapeMarkdown(segment.text), segment.marks);
+        switch (segment.type) {
+          case 'removed':
+            return `~~${text}~~`;
+          case 'added':
+            return `**${text}**`;
+          default:
+            return text;
+        }
+      })
+      .join('');
+    // Consecutive list items stay together so they render as one list
+    const nextIsListItem = getParagraphKind(doc.paragraphs[index + 1]?.style) === 'list';
+    lines.push(getBlockPrefix(paragraph.style, listNumber) + content);
+    if (!(isListItem && nextIsListItem)) lines.push('');
+  });
+
+  return new Blob([lines.join('\n')], { type: 'text/markdown;charset=utf-8' });
+}
@@ -0,0 +1,96 @@
+// Printable correction report; the browser's print dialog saves it as PDF
+
+import { format } from 'date-fns';
+import { CORRECTION_TYPE_LABELS } from '@/utils/correctionOptions';
+import type { TextCorrection } from '@/types';
+import { escapeXml, type ExportDocument } from './document';
+import { DIFF_STYLES, buildHtmlDocument, renderDiffParagraphs, renderTextWithLineBreaks } from './html';
+
+const REPORT_STYLES = `${DIFF_STYLES}
+  body { margin: 0 auto; }
+  h2 { font-size: 1.125rem; margin: 2rem 0 0.75rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .summary { display: flex; gap: 12px; flex-wrap: wrap; }
+  .summary span { border: 1px solid #e5e7eb; border-radius: 9999px; padding: 2px 12px; font-size: 0.875rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  @page { size: A4; margin: 18mm; }
+  @media print { h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+function buildReportHtml(doc: ExportDocument): string {
+  const corrections = doc.paragraphs.flatMap((p, index) =>
+    p.corrections.map(correction => ({ paragraphNumber: index + 1, correction }))
+  );
+
+  const countsByType = corrections.reduce((acc, { correction }) => {
+    acc[correction.type] = (acc[correction.type] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<TextCorrection['type'], number>>);
+
+  const summary = [
+    `<span>段落 ${doc.paragraphs.length}</span>`,
+    `<span>修正 ${corrections.length} 處</span>`,
+    ...Object.entries(countsByType).map(
+      ([type, count]) => `<span>${CORRECTION_TYPE_LABELS[type as TextCorrection['type']]} ${count}</span>`
+    ),
+  ].join('');
+
+  const rows = corrections
+    .map(({ paragraphNumber, correction }) => `<tr>
+  <td>${paragraphNumber}</td>
+  <td>${CORRECTION_TYPE_LABELS[correction.type]}</td>
+  <td><del class="text-diff-removed">${escapeXml(correction.original)}</del></td>
+  <td><ins class="text-diff-added">${escapeXml(correction.corrected)}</ins></td>
+</tr>`)
+    .join('\n');
+
+  const body = `<h1>${escapeXml(doc.title || '校正報告')}</h1>
+<div class="meta">產生時間：${format(doc.createdAt, 'yyyy/MM/dd HH:mm')}</div>
+<div class="summary">${summary}</div>
+<h2>修正對照</h2>
+${renderDiffParagraphs(doc)}
+${corrections.length > 0 ? `<h2>修正明細</h2>
+<table>
+<thead><tr><th>段落</th><th>類型</th><th>原文</th><th>修正</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>` : ''}
+<h2>校正後全文</h2>
+${doc.paragraphs.map(p => `<p>${renderTextWithLineBreaks(p.corrected)}</p>`).join('\n')}`;
+
+  return buildHtmlDocument(doc.title || '校正報告', REPORT_STYLES, body);
+}
+
+/**
+ * Render the report in a hidden frame and open the print dialog
+ */
+export function printPdfReport(doc: ExportDocument): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        reject(new Error('無法建立列印視窗'));
+        return;
+      }
+
+      // The frame must stay in the DOM until the print dialog closes
+      frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+
+    frame.srcdoc = buildReportHtml(doc);
+    document.body.appendChild(frame);
+  });
+}
@@ -0,0 +1,66 @@
+// Word documents: paragraphs of word/document.xml
+
+import type { FileBlock } from '@/types';
+import { openOfficePackage, readOfficeParagraphs, saveOfficePackage, writeOfficeParagraphs, type OfficeXmlRules } from './officeXml';
+
+const DOCUMENT_PART = 'word/document.xml';
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const isWordElement = (element: Element, ...names: string[]) =>
+  element.namespaceURI === WORD_NAMESPACE && names.includes(element.localName);
+
+/**
+ * Map Word's built-in style ids to the Google Docs named styles used elsewhere
+ */
+function getWordStyle(paragraph: Element): string {
+  const properties = Array.from(paragraph.children).find(child => isWordElement(child, 'pPr'));
+  if (!properties) return 'NORMAL_TEXT';
+
+  const styleId = Array.from(properties.children)
+    .find(child => isWordElement(child, 'pStyle'))
+    ?.getAttributeNS(WORD_NAMESPACE, 'val') ?? '';
+  const heading = styleId.match(/^heading\s?([1-6])$/i);
+  if (heading) return `HEADING_${heading[1]}`;
+  if (/^title$/i.test(styleId)) return 'TITLE';
+  if (/^subtitle$/i.test(styleId)) return 'SUBTITLE';
+  if (/list/i.test(styleId) || Array.from(properties.children).some(child => isWordElement(child, 'numPr'))) {
+    return 'BULLET_LIST';
+  }
+  return 'NORMAL_TEXT';
+}
+
+const DOCX_RULES: OfficeXmlRules = {
+  isParagraph: element => isWordElement(element, 'p'),
+  // Paragraph properties hold tab stop definitions, not tabs
+  isIgnored: element => isWordElement(element, 'pPr', 'rPr'),
+  // Deleted revisions (w:delText) and field codes (w:instrText) are not visible text
+  isTextElement: element => isWordElement(element, 't'),
+  getElementText: element => {
+    if (isWordElement(element, 'tab')) return '\t';
+    if (isWordElement(element, 'br', 'cr')) return '\n';
+    if (isWordElement(element, 'noBreakHyphen')) return '-';
+    return null;
+  },
+  getStyle: getWordStyle,
+};
+
+export async function readDocx(file: File): Promise<FileBlock[]> {
+  const { xml } = await openOfficePackage(file, DOCUMENT_PART);
+  return readOfficeParagraphs(xml, DOCX_RULES, 'docx').map(({ id, text, style }) => ({ id, text, style }));
+}
+
+export async function writeDocx(file: File, corrected: Map<string, string>): Promise<Blob> {
+  const officePackage = await openOfficePackage(file, DOCUMENT_PART);
+  writeOfficeParagraphs(readOfficeParagraphs(officePackage.xml, DOCX_RULES, 'docx'), corrected);
+
+  // Word drops leading and trailing spaces of w:t unless told to keep them
+  Array.from(officePackage.xml.getElementsByTagNameNS(WORD_NAMESPACE, 't')).forEach(element => {
+    if (/^\s|\s$/.test(element.textContent ?? '')) {
+      element.setAttributeNS(XML_NAMESPACE, 'xml:space', 'preserve');
+    }
+  });
+
+  return saveOfficePackage(officePackage, DOCUMENT_PART, DOCX_MIME_TYPE);
+}
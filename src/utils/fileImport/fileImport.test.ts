@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph } from '@/types';
+import { createParagraphsFromBlocks } from '@/utils/textProcessor';
+import { parseMarkdown, parseSubtitles, spliceCorrectedBlocks } from './textFormats';
+import { redistributeText } from './officeXml';
+import { getCorrectedBlockTexts } from './index';
+
+const correct = (paragraphs: Paragraph[], fixes: Record<string, string>) =>
+  paragraphs.map(p => ({ ...p, correctedText: Object.entries(fixes).reduce((text, [from, to]) => text.replace(from, to), p.text) }));
+
+describe('parseSubtitles', () => {
+  const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\n今天天汽很好\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n我們去公圓\r\n第二行\r\n';
+
+  it('reads cue text without numbers or timings', () => {
+    expect(parseSubtitles(srt).map(block => block.text)).toEqual(['今天天汽很好', '我們去公圓\r\n第二行']);
+  });
+
+  it('skips WebVTT headers and notes', () => {
+    const vtt = 'WEBVTT\n\nNOTE 註解\n\nintro\n00:01.000 --> 00:02.000 align:start\n<i>你好</i>\n';
+    expect(parseSubtitles(vtt).map(block => block.text)).toEqual(['<i>你好</i>']);
+  });
+
+  it('writes corrections back with the timing lines untouched', () => {
+    const blocks = parseSubtitles(srt);
+    const paragraphs = correct(createParagraphsFromBlocks(blocks), { 天汽: '天氣', 公圓: '公園' });
+    const corrected = getCorrectedBlockTexts(blocks, paragraphs, p => p.correctedText!);
+    expect(spliceCorrectedBlocks(srt, blocks, corrected)).toBe(srt.replace('天汽', '天氣').replace('公圓', '公園'));
+  });
+});
+
+describe('parseMarkdown', () => {
+  const markdown = '# 標題 #\n\n第一段\n續行\n\n- 項目一\n2. 項目二\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n';
+
+  it('keeps heading and list markers out of the block text', () => {
+    expect(parseMarkdown(markdown).map(block => [block.style, block.text])).toEqual([
+      ['HEADING_1', '標題'],
+      ['NORMAL_TEXT', '第一段\n續行'],
+      ['BULLET_LIST', '項目一'],
+      ['NUMBERED_LIST', '項目二'],
+      ['CODE', '```js\nconst a = 1;\n\nconst b = 2;\n```'],
+    ]);
+  });
+
+  it('rebuilds the file byte-for-byte when nothing changed', () => {
+    const blocks = parseMarkdown(markdown);
+    const corrected = getCorrectedBlockTexts(blocks, createParagraphsFromBlocks(blocks), p => p.text);
+    expect(spliceCorrectedBlocks(markdown, blocks, corrected)).toBe(markdown);
+  });
+});
+
+describe('redistributeText', () => {
+  it('keeps unchanged text in its run and puts insertions after the text they follow', () => {
+    const pieces = [
+      { text: '這是', editable: true },
+      { text: '粗體字', editable: true },
+      { text: '\t', editable: false },
+      { text: '結尾', editable: true },
+    ];
+    expect(redistributeText(pieces, '這是粗體文字\t結尾。')).toEqual(['這是', '粗體文字', '', '結尾。']);
+  });
+
+  it('drops deleted text from the run it was in', () => {
+    const pieces = [{ text: '一二', editable: true }, { text: '三四', editable: true }];
+    expect(redistributeText(pieces, '一二四')).toEqual(['一二', '四']);
+  });
+});
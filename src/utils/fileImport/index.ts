@@ -0,0 +1,145 @@
+// Uploaded files: parse them into blocks in the browser and write corrected copies in the same format
+
+import type { ExportOptions, FileBlock, Paragraph, UploadedFile, UploadedFileFormat } from '@/types';
+import { applyCorrections, getAppliedCorrections, reassembleDocument } from '@/utils/textProcessor';
+import { downloadBlob } from '@/utils/export';
+import { parseMarkdown, parsePlainText, parseSubtitles, spliceCorrectedBlocks, type TextFileBlock } from './textFormats';
+import { readDocx, writeDocx } from './docx';
+import { readOdt, writeOdt } from './odt';
+
+export const FILE_FORMAT_LABELS: Record<UploadedFileFormat, string> = {
+  txt: '純文字',
+  md: 'Markdown',
+  docx: 'Word',
+  odt: 'OpenDocument',
+  srt: 'SRT 字幕',
+  vtt: 'WebVTT 字幕',
+};
+
+const FILE_EXTENSIONS: Record<string, UploadedFileFormat> = {
+  txt: 'txt',
+  md: 'md',
+  markdown: 'md',
+  docx: 'docx',
+  odt: 'odt',
+  srt: 'srt',
+  vtt: 'vtt',
+};
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = Object.keys(FILE_EXTENSIONS).map(extension => `.${extension}`).join(',');
+
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024;
+
+interface FileFormatHandler {
+  read: (file: File) => Promise<FileBlock[]>;
+  write: (file: File, corrected: Map<string, string>) => Promise<Blob>;
+}
+
+/**
+ * Handler for text-based formats, which splice corrections back into the file text
+ */
+function textFormat(parse: (content: string) => TextFileBlock[], mimeType: string): FileFormatHandler {
+  return {
+    read: async file => parse(await file.text()).map(({ id, text, style }) => ({ id, text, style })),
+    write: async (file, corrected) => {
+      const content = await file.text();
+      return new Blob([spliceCorrectedBlocks(content, parse(content), corrected)], { type: mimeType });
+    },
+  };
+}
+
+const FORMAT_HANDLERS: Record<UploadedFileFormat, FileFormatHandler> = {
+  txt: textFormat(parsePlainText, 'text/plain;charset=utf-8'),
+  md: textFormat(parseMarkdown, 'text/markdown;charset=utf-8'),
+  srt: textFormat(parseSubtitles, 'application/x-subrip;charset=utf-8'),
+  vtt: textFormat(parseSubtitles, 'text/vtt;charset=utf-8'),
+  docx: { read: readDocx, write: writeDocx },
+  odt: { read: readOdt, write: writeOdt },
+};
+
+export function detectFileFormat(fileName: string): UploadedFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FILE_EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Parse an uploaded file into blocks with their structure (headings, list items, subtitle cues)
+ */
+export async function parseUploadedFile(file: File): Promise<UploadedFile> {
+  const format = detectFileFormat(file.name);
+  if (!format) {
+    throw new Error('不支援的檔案格式，請上傳 .txt、.md、.docx、.odt、.srt 或 .vtt 檔案');
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    throw new Error('檔案過大，請上傳 20 MB 以內的檔案');
+  }
+
+  const blocks = await FORMAT_HANDLERS[format].read(file);
+  if (blocks.length === 0) {
+    throw new Error('檔案中沒有可校正的文字');
+  }
+
+  console.log(`📎 Parsed ${format} file "${file.name}": ${blocks.length} blocks`);
+  return { name: file.name, format, file, blocks };
+}
+
+/**
+ * Text of the blocks joined with blank lines, which is what file paragraphs' source ranges point into
+ */
+export function getUploadedFileText(uploadedFile: UploadedFile): string {
+  return uploadedFile.blocks.map(block => block.text).join('\n\n');
+}
+
+/**
+ * Corrected text of each block, rebuilt from the paragraphs split from it
+ */
+export function getCorrectedBlockTexts(
+  blocks: FileBlock[],
+  paragraphs: Paragraph[],
+  getText: (paragraph: Paragraph) => string
+): Map<string, string> {
+  const bySource = new Map<string, Paragraph[]>();
+  paragraphs.forEach(paragraph => {
+    if (!paragraph.sourceId) return;
+    bySource.set(paragraph.sourceId, [...(bySource.get(paragraph.sourceId) ?? []), paragraph]);
+  });
+
+  const corrected = new Map<string, string>();
+  let blockOffset = 0;
+  for (const block of blocks) {
+    const pieces = (bySource.get(block.id) ?? []).map(paragraph => ({
+      ...paragraph,
+      sourceRange: paragraph.sourceRange && {
+        start: paragraph.sourceRange.start - blockOffset,
+        end: paragraph.sourceRange.end - blockOffset,
+      },
+    }));
+    if (pieces.length > 0) {
+      corrected.set(block.id, reassembleDocument(block.text, pieces, getText));
+    }
+    blockOffset += block.text.length + 2;
+  }
+  return corrected;
+}
+
+function toCorrectedFileName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)}-校正${fileName.slice(dot)}` : `${fileName}-校正`;
+}
+
+/**
+ * Download the uploaded file with corrections applied, in its own format
+ * Follows the export rule: in review mode only accepted corrections apply, otherwise anything not rejected
+ */
+export async function exportUploadedFile(
+  uploadedFile: UploadedFile,
+  paragraphs: Paragraph[],
+  options: Pick<ExportOptions, 'decisions' | 'reviewMode'>
+): Promise<void> {
+  const corrected = getCorrectedBlockTexts(uploadedFile.blocks, paragraphs, paragraph =>
+    applyCorrections(paragraph.text, getAppliedCorrections(paragraph, options.decisions, !options.reviewMode)).correctedText
+  );
+  const blob = await FORMAT_HANDLERS[uploadedFile.format].write(uploadedFile.file, corrected);
+  downloadBlob(blob, toCorrectedFileName(uploadedFile.name));
+}
@@ -0,0 +1,49 @@
+// OpenDocument text: paragraphs and headings of content.xml
+
+import type { FileBlock } from '@/types';
+import { openOfficePackage, readOfficeParagraphs, saveOfficePackage, writeOfficeParagraphs, type OfficeXmlRules } from './officeXml';
+
+const CONTENT_PART = 'content.xml';
+const TEXT_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+const isTextElement = (element: Element, ...names: string[]) =>
+  element.namespaceURI === TEXT_NAMESPACE && names.includes(element.localName);
+
+function getOdtStyle(paragraph: Element): string {
+  if (isTextElement(paragraph, 'h')) {
+    const level = Number(paragraph.getAttributeNS(TEXT_NAMESPACE, 'outline-level')) || 1;
+    return `HEADING_${Math.min(level, 6)}`;
+  }
+  for (let parent = paragraph.parentElement; parent; parent = parent.parentElement) {
+    if (isTextElement(parent, 'list-item')) return 'BULLET_LIST';
+  }
+  return 'NORMAL_TEXT';
+}
+
+const ODT_RULES: OfficeXmlRules = {
+  isParagraph: element => isTextElement(element, 'p', 'h'),
+  // Footnotes and comments sit inside the paragraph they are anchored to
+  isIgnored: element => isTextElement(element, 'note', 'tracked-changes') ||
+    element.localName === 'annotation',
+  // All character content of an ODF paragraph is text
+  isTextElement: () => true,
+  getElementText: element => {
+    if (isTextElement(element, 's')) return ' '.repeat(Number(element.getAttributeNS(TEXT_NAMESPACE, 'c')) || 1);
+    if (isTextElement(element, 'tab')) return '\t';
+    if (isTextElement(element, 'line-break')) return '\n';
+    return null;
+  },
+  getStyle: getOdtStyle,
+};
+
+export async function readOdt(file: File): Promise<FileBlock[]> {
+  const { xml } = await openOfficePackage(file, CONTENT_PART);
+  return readOfficeParagraphs(xml, ODT_RULES, 'odt').map(({ id, text, style }) => ({ id, text, style }));
+}
+
+export async function writeOdt(file: File, corrected: Map<string, string>): Promise<Blob> {
+  const officePackage = await openOfficePackage(file, CONTENT_PART);
+  writeOfficeParagraphs(readOfficeParagraphs(officePackage.xml, ODT_RULES, 'odt'), corrected);
+  return saveOfficePackage(officePackage, CONTENT_PART, ODT_MIME_TYPE);
+}
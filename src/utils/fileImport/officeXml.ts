@@ -0,0 +1,169 @@
+// Shared reading and rewriting of DOCX and ODT document XML
+// Corrected text is redistributed over the original text nodes, so runs keep their formatting
+
+import type { FileBlock } from '@/types';
+import { createInlineDiff } from '@/utils/diffUtils';
+import { createZip, readZip, type ZipFileEntry } from '@/utils/zip';
+
+export interface OfficeXmlRules {
+  isParagraph: (element: Element) => boolean;
+  // Subtrees that are never document text, such as footnotes anchored inside a paragraph
+  isIgnored: (element: Element) => boolean;
+  // Whether text nodes inside the element are document text (as opposed to field codes or deleted text)
+  isTextElement: (element: Element) => boolean;
+  // Text an empty element stands for, such as tabs and line breaks; null for any other element
+  getElementText: (element: Element) => string | null;
+  getStyle: (paragraph: Element) => string;
+}
+
+interface TextPiece {
+  text: string;
+  // Set for text nodes that can be rewritten; tabs and breaks are fixed elements
+  node?: Text;
+}
+
+export interface OfficeParagraph extends FileBlock {
+  pieces: TextPiece[];
+}
+
+function collectPieces(element: Element, rules: OfficeXmlRules, inText: boolean, pieces: TextPiece[]): void {
+  element.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      if (inText) pieces.push({ text: (child as Text).data, node: child as Text });
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const childElement = child as Element;
+    // Nested paragraphs (text boxes, notes) are read as paragraphs of their own
+    if (rules.isParagraph(childElement) || rules.isIgnored(childElement)) return;
+
+    const fixedText = rules.getElementText(childElement);
+    if (fixedText !== null) {
+      pieces.push({ text: fixedText });
+    } else {
+      collectPieces(childElement, rules, inText || rules.isTextElement(childElement), pieces);
+    }
+  });
+}
+
+/**
+ * Read every non-empty paragraph in document order
+ * Ids count all paragraphs, so they stay stable when the same XML is read again for writing
+ */
+export function readOfficeParagraphs(xml: Document, rules: OfficeXmlRules, idPrefix: string): OfficeParagraph[] {
+  const paragraphs: OfficeParagraph[] = [];
+
+  Array.from(xml.getElementsByTagName('*'))
+    .filter(rules.isParagraph)
+    .forEach((element, index) => {
+      const pieces: TextPiece[] = [];
+      collectPieces(element, rules, rules.isTextElement(element), pieces);
+      const text = pieces.map(piece => piece.text).join('');
+      if (!text.trim()) return;
+
+      paragraphs.push({ id: `${idPrefix}-${index + 1}`, text, style: rules.getStyle(element), pieces });
+    });
+
+  return paragraphs;
+}
+
+/**
+ * Spread corrected text over the original pieces
+ * Unchanged characters stay in their piece, insertions join the piece they follow, and fixed pieces are left as they are
+ */
+export function redistributeText(pieces: Array<{ text: string; editable: boolean }>, corrected: string): string[] {
+  const owners: number[] = [];
+  pieces.forEach((piece, index) => {
+    for (let i = 0; i < piece.text.length; i++) owners.push(index);
+  });
+
+  const findEditable = (preferred: Array<number | undefined>): number => {
+    const direct = preferred.find(index => index !== undefined && pieces[index].editable);
+    if (direct !== undefined) return direct;
+    return pieces.findIndex(piece => piece.editable);
+  };
+
+  const result = pieces.map(() => '');
+  let offset = 0;
+
+  for (const diff of createInlineDiff(pieces.map(piece => piece.text).join(''), corrected)) {
+    if (diff.type === 'insert') {
+      const target = findEditable([owners[offset - 1], owners[offset]]);
+      if (target !== -1) result[target] += diff.text;
+      continue;
+    }
+    if (diff.type === 'equal') {
+      for (let i = 0; i < diff.text.length; i++) {
+        const owner = owners[offset + i];
+        if (pieces[owner].editable) result[owner] += diff.text[i];
+      }
+    }
+    offset += diff.text.length;
+  }
+
+  return result;
+}
+
+/**
+ * Write corrected paragraph texts into the XML the paragraphs were read from
+ */
+export function writeOfficeParagraphs(paragraphs: OfficeParagraph[], corrected: Map<string, string>): void {
+  for (const paragraph of paragraphs) {
+    const text = corrected.get(paragraph.id);
+    if (text === undefined || text === paragraph.text) continue;
+
+    const texts = redistributeText(paragraph.pieces.map(piece => ({ text: piece.text, editable: !!piece.node })), text);
+    paragraph.pieces.forEach((piece, index) => {
+      if (piece.node) piece.node.data = texts[index];
+    });
+  }
+}
+
+export function parseXml(source: string): Document {
+  const xml = new DOMParser().parseFromString(source, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('檔案內容無法解析，可能已損毀');
+  }
+  return xml;
+}
+
+export function serializeXml(xml: Document): string {
+  const serialized = new XMLSerializer().serializeToString(xml);
+  return serialized.startsWith('<?xml')
+    ? serialized
+    : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${serialized}`;
+}
+
+export interface OfficePackage {
+  entries: ZipFileEntry[];
+  xml: Document;
+}
+
+/**
+ * Unzip an Office package and parse the part holding the document body
+ */
+export async function openOfficePackage(file: File, partName: string): Promise<OfficePackage> {
+  let entries: ZipFileEntry[];
+  try {
+    entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.warn('Failed to unzip uploaded file:', error);
+    throw new Error('檔案格式不正確，請確認檔案未損毀');
+  }
+
+  const part = entries.find(entry => entry.name === partName);
+  if (!part) {
+    throw new Error('找不到文件內容，請確認檔案格式');
+  }
+  return { entries, xml: parseXml(new TextDecoder().decode(part.data)) };
+}
+
+/**
+ * Zip the package again with the rewritten document part; every other part is copied unchanged
+ */
+export function saveOfficePackage(officePackage: OfficePackage, partName: string, mimeType: string): Blob {
+  const xml = serializeXml(officePackage.xml);
+  const entries = officePackage.entries.map(entry => (entry.name === partName ? { name: entry.name, data: xml } : entry));
+  return new Blob([createZip(entries)], { type: mimeType });
+}
@@ -0,0 +1,164 @@
+// Plain text, Markdown and subtitle files
+// Blocks keep their exact span in the file, so corrected text is spliced back around untouched markup and timings
+
+import type { FileBlock } from '@/types';
+import { segmentText } from '@/utils/segmenter';
+
+export interface TextFileBlock extends FileBlock {
+  // The block text is always content.slice(start, end)
+  start: number;
+  end: number;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  // End of the line without trailing whitespace (including the \r of CRLF files)
+  end: number;
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ text, start, end: start + text.replace(/\s+$/, '').length });
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+function toBlocks(content: string, ranges: Array<{ start: number; end: number; style: string }>, idPrefix: string): TextFileBlock[] {
+  return ranges
+    .filter(range => content.slice(range.start, range.end).trim())
+    .map((range, index) => ({
+      id: `${idPrefix}-${index + 1}`,
+      text: content.slice(range.start, range.end),
+      style: range.style,
+      start: range.start,
+      end: range.end,
+    }));
+}
+
+/**
+ * Paragraphs, list items and fenced code blocks of a plain text file
+ */
+export function parsePlainText(content: string): TextFileBlock[] {
+  const styles = { paragraph: 'NORMAL_TEXT', 'list-item': 'BULLET_LIST', code: 'CODE' } as const;
+  return toBlocks(
+    content,
+    segmentText(content, { maxLength: Infinity }).map(segment => ({ start: segment.start, end: segment.end, style: styles[segment.kind] })),
+    'block'
+  );
+}
+
+const MARKDOWN_HEADING = /^ {0,3}(#{1,6})[ \t]+/;
+const MARKDOWN_LIST_ITEM = /^[ \t]*(?:([-*+])|\d+[.)])[ \t]+/;
+const MARKDOWN_FENCE = /^ {0,3}(```|~~~)/;
+
+/**
+ * Headings, list items, paragraphs and code blocks of a Markdown file
+ * Heading and list markers stay outside the block text, so corrections never touch them
+ */
+export function parseMarkdown(content: string): TextFileBlock[] {
+  const ranges: Array<{ start: number; end: number; style: string }> = [];
+  let current: { start: number; end: number; style: string } | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current) ranges.push(current);
+    current = null;
+  };
+
+  for (const line of splitLines(content)) {
+    const fenceMarker = line.text.match(MARKDOWN_FENCE)?.[1];
+
+    if (fence) {
+      current!.end = line.end;
+      if (fenceMarker === fence) {
+        fence = null;
+        flush();
+      }
+      continue;
+    }
+
+    if (fenceMarker) {
+      flush();
+      fence = fenceMarker;
+      current = { start: line.start, end: line.end, style: 'CODE' };
+      continue;
+    }
+
+    if (!line.text.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.text.match(MARKDOWN_HEADING);
+    if (heading) {
+      flush();
+      // Closing hashes ("## Title ##") are markup too
+      const end = line.start + line.text.replace(/[ \t]+#+[ \t]*$|\s+$/, '').length;
+      ranges.push({ start: line.start + heading[0].length, end, style: `HEADING_${heading[1].length}` });
+      continue;
+    }
+
+    const listItem = line.text.match(MARKDOWN_LIST_ITEM);
+    if (listItem) {
+      flush();
+      current = { start: line.start + listItem[0].length, end: line.end, style: listItem[1] ? 'BULLET_LIST' : 'NUMBERED_LIST' };
+      continue;
+    }
+
+    if (current) {
+      // Lazy continuation of the paragraph or list item above
+      current.end = line.end;
+    } else {
+      current = { start: line.start + (line.text.length - line.text.trimStart().length), end: line.end, style: 'NORMAL_TEXT' };
+    }
+  }
+  flush();
+
+  return toBlocks(content, ranges, 'block');
+}
+
+/**
+ * Cue text of an SRT or WebVTT file
+ * Cue numbers, timing lines and WebVTT headers, notes and styles are left out
+ */
+export function parseSubtitles(content: string): TextFileBlock[] {
+  const ranges: Array<{ start: number; end: number; style: string }> = [];
+  let group: Line[] = [];
+
+  const flush = () => {
+    const timingIndex = group.findIndex(line => line.text.includes('-->'));
+    const cueLines = timingIndex === -1 ? [] : group.slice(timingIndex + 1);
+    if (cueLines.length > 0) {
+      ranges.push({ start: cueLines[0].start, end: cueLines[cueLines.length - 1].end, style: 'NORMAL_TEXT' });
+    }
+    group = [];
+  };
+
+  for (const line of splitLines(content)) {
+    if (line.text.trim()) {
+      group.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return toBlocks(content, ranges, 'cue');
+}
+
+/**
+ * Replace each block's span with its corrected text, keeping everything in between byte-for-byte
+ */
+export function spliceCorrectedBlocks(content: string, blocks: TextFileBlock[], corrected: Map<string, string>): string {
+  let result = '';
+  let offset = 0;
+  for (const block of blocks) {
+    result += content.slice(offset, block.start) + (corrected.get(block.id) ?? block.text);
+    offset = block.end;
+  }
+  return result + content.slice(offset);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { GoogleDocsSource, Paragraph, TextCorrection } from '@/types';
+import { buildGoogleDocsWriteBackPlan } from './googleDocsWriteBack';
+import { createParagraphsFromSource } from './textProcessor';
+import { handleMockRequest } from '@/mocks/mockBackend';
+
+const correction = (original: string, corrected: string, start: number): TextCorrection => ({
+  original,
+  corrected,
+  position: { start, end: start + original.length },
+  type: 'spelling',
+});
+
+const source: GoogleDocsSource = {
+  documentId: 'doc-1',
+  url: 'https://docs.google.com/document/d/doc-1/edit',
+  title: '示範文件',
+  paragraphs: [
+    { id: 'p.1', text: '第一句有錯别字。第二句也有一个錯字。', style: 'NORMAL_TEXT' },
+    { id: 'p.2', text: '沒有錯誤的段落。', style: 'NORMAL_TEXT' },
+  ],
+};
+
+const paragraph = (id: string, text: string, corrections: TextCorrection[], sourceId = 'p.1'): Paragraph => ({
+  id,
+  text,
+  corrections,
+  status: 'completed',
+  sourceId,
+});
+
+describe('buildGoogleDocsWriteBackPlan', () => {
+  // The first source paragraph split into two chunks, as a long paragraph would be
+  const paragraphs = [
+    paragraph('paragraph-1', '第一句有錯别字。', [correction('别', '別', 5)]),
+    paragraph('paragraph-2', '第二句也有一个錯字。', [correction('个', '個', 6)]),
+    paragraph('paragraph-3', '沒有錯誤的段落。', [], 'p.2'),
+  ];
+
+  it('maps correction ranges onto the source paragraph, offset by the chunk position', () => {
+    const { edits, unmappedParagraphIds } = buildGoogleDocsWriteBackPlan(paragraphs, source, {}, false);
+
+    expect(unmappedParagraphIds).toEqual([]);
+    expect(edits).toEqual([
+      { paragraphId: 'p.1', startIndex: 5, endIndex: 6, original: '别', corrected: '別', type: 'spelling' },
+      { paragraphId: 'p.1', startIndex: 14, endIndex: 15, original: '个', corrected: '個', type: 'spelling' },
+    ]);
+  });
+
+  it('writes back only accepted corrections in review mode', () => {
+    const decisions = { 'paragraph-1:0': 'rejected', 'paragraph-2:0': 'accepted' } as const;
+    const { edits } = buildGoogleDocsWriteBackPlan(paragraphs, source, decisions, true);
+
+    expect(edits.map(edit => edit.corrected)).toEqual(['個']);
+  });
+
+  it('reports corrected paragraphs that are no longer in the source', () => {
+    const moved = paragraph('paragraph-4', '後來加上的一个段落。', [correction('个', '個', 6)]);
+    const { edits, unmappedParagraphIds } = buildGoogleDocsWriteBackPlan([moved], source, {}, false);
+
+    expect(edits).toEqual([]);
+    expect(unmappedParagraphIds).toEqual(['paragraph-4']);
+  });
+});
+
+describe('Google Docs write-back against the mock backend', () => {
+  const url = 'https://docs.google.com/document/d/mock-doc/edit';
+
+  const request = async (path: string, body: unknown) => {
+    const response = await handleMockRequest({ method: 'POST', path, searchParams: new URLSearchParams(), body });
+    return response.json();
+  };
+
+  it('applies edits built from the imported document and skips ranges that no longer match', async () => {
+    const imported = await request('/google-docs/import', { url });
+    const docSource: GoogleDocsSource = {
+      documentId: 'mock-doc',
+      url,
+      title: imported.data.title,
+      paragraphs: imported.data.paragraphs,
+    };
+
+    const paragraphs = createParagraphsFromSource(docSource.paragraphs).map(p =>
+      p.sourceId === 'p.1' ? { ...p, corrections: [correction('一个', '一個', p.text.indexOf('一个'))] } : p
+    );
+    const { edits } = buildGoogleDocsWriteBackPlan(paragraphs, docSource, {}, false);
+    expect(edits).toHaveLength(1);
+
+    const stale = { ...edits[0], startIndex: edits[0].startIndex + 1, endIndex: edits[0].endIndex + 1 };
+    const result = await request('/google-docs/apply', { documentId: 'mock-doc', mode: 'suggestion', edits: [...edits, stale] });
+
+    expect(result.data.applied).toBe(1);
+    expect(result.data.skipped).toEqual([
+      { paragraphId: 'p.1', startIndex: stale.startIndex, reason: 'Range no longer matches document text' },
+    ]);
+  });
+
+  it('rejects documents that were never imported', async () => {
+    const response = await handleMockRequest({
+      method: 'POST',
+      path: '/google-docs/apply',
+      searchParams: new URLSearchParams(),
+      body: { documentId: 'unknown-doc', mode: 'comment', edits: [] },
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,85 @@
+// Map corrected paragraphs back onto the imported Google Docs paragraphs
+
+import type { CorrectionDecision, GoogleDocsEdit, GoogleDocsSource, Paragraph } from '@/types';
+import { getAppliedCorrections } from '@/utils/textProcessor';
+
+export interface ParagraphSourceLocation {
+  sourceId: string;
+  // Where the paragraph text starts inside the source paragraph
+  offset: number;
+}
+
+export interface GoogleDocsWriteBackPlan {
+  edits: GoogleDocsEdit[];
+  // Paragraphs with corrections that could not be located in the source document
+  unmappedParagraphIds: string[];
+}
+
+/**
+ * Locate each paragraph inside the imported document
+ * Paragraphs follow the document order, so a forward scan is enough;
+ * long source paragraphs may have been split into several consecutive chunks.
+ */
+export function locateParagraphsInSource(
+  paragraphs: Paragraph[],
+  source: GoogleDocsSource
+): Map<string, ParagraphSourceLocation> {
+  const locations = new Map<string, ParagraphSourceLocation>();
+  let sourceIndex = 0;
+  let searchFrom = 0;
+
+  for (const paragraph of paragraphs) {
+    for (let i = sourceIndex; i < source.paragraphs.length; i++) {
+      // Paragraphs built from the import already know which source paragraph they belong to
+      if (paragraph.sourceId && source.paragraphs[i].id !== paragraph.sourceId) continue;
+
+      const offset = source.paragraphs[i].text.indexOf(paragraph.text, i === sourceIndex ? searchFrom : 0);
+      if (offset !== -1) {
+        locations.set(paragraph.id, { sourceId: source.paragraphs[i].id, offset });
+        sourceIndex = i;
+        searchFrom = offset + paragraph.text.length;
+        break;
+      }
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Build the edits to submit, using the same accept/reject rule as the results view
+ */
+export function buildGoogleDocsWriteBackPlan(
+  paragraphs: Paragraph[],
+  source: GoogleDocsSource,
+  decisions: Record<string, CorrectionDecision>,
+  reviewMode: boolean
+): GoogleDocsWriteBackPlan {
+  const locations = locateParagraphsInSource(paragraphs, source);
+  const edits: GoogleDocsEdit[] = [];
+  const unmappedParagraphIds: string[] = [];
+
+  for (const paragraph of paragraphs) {
+    const corrections = getAppliedCorrections(paragraph, decisions, !reviewMode);
+    if (corrections.length === 0) continue;
+
+    const location = locations.get(paragraph.id);
+    if (!location) {
+      unmappedParagraphIds.push(paragraph.id);
+      continue;
+    }
+
+    for (const correction of corrections) {
+      edits.push({
+        paragraphId: location.sourceId,
+        startIndex: location.offset + correction.position.start,
+        endIndex: location.offset + correction.position.end,
+        original: correction.original,
+        corrected: correction.corrected,
+        type: correction.type,
+      });
+    }
+  }
+
+  return { edits, unmappedParagraphIds };
+}
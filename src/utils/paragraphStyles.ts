@@ -0,0 +1,43 @@
+// Google Docs paragraph style helpers
+
+import type { Paragraph, TextCorrection } from '@/types';
+
+export type ParagraphKind = 'heading' | 'list' | 'normal';
+
+/**
+ * Classify a Google Docs named style (TITLE, HEADING_2, NORMAL_TEXT, ...)
+ */
+export function getParagraphKind(style?: string): ParagraphKind {
+  if (!style) return 'normal';
+  if (/^(TITLE|SUBTITLE|HEADING_[1-6])$/.test(style)) return 'heading';
+  if (/LIST|BULLET/.test(style)) return 'list';
+  return 'normal';
+}
+
+/**
+ * HTML heading level for a heading style; TITLE maps to h1 and SUBTITLE to h2
+ */
+export function getHeadingLevel(style?: string): 1 | 2 | 3 | 4 | 5 | 6 {
+  if (style === 'TITLE') return 1;
+  if (style === 'SUBTITLE') return 2;
+  const level = Number(style?.match(/^HEADING_([1-6])$/)?.[1] ?? 1);
+  return level as 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+export function isOrderedList(style?: string): boolean {
+  return !!style && /NUMBER|ORDERED/.test(style);
+}
+
+// Headings are short and often deliberately terse, so only outright typos (and script conversion) are applied
+const HEADING_CORRECTION_TYPES: ReadonlyArray<TextCorrection['type']> = ['spelling', 'conversion'];
+
+/**
+ * Drop corrections that do not apply to the paragraph's style
+ */
+export function filterCorrectionsForParagraph(
+  paragraph: Pick<Paragraph, 'style'>,
+  corrections: TextCorrection[]
+): TextCorrection[] {
+  if (getParagraphKind(paragraph.style) !== 'heading') return corrections;
+  return corrections.filter(c => HEADING_CORRECTION_TYPES.includes(c.type));
+}
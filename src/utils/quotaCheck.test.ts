@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph, QuotaInfo } from '@/types';
+import { checkQuota } from './quotaCheck';
+
+const paragraph = (id: string, text: string, status: Paragraph['status'] = 'pending'): Paragraph =>
+  ({ id, text, status, corrections: [] }) as unknown as Paragraph;
+
+const quota = (type: QuotaInfo['type'], remaining: number, limit = 1000): QuotaInfo => ({
+  type,
+  limit,
+  used: limit - remaining,
+  remaining,
+  resetDate: new Date('2024-02-01'),
+  tier: 'free',
+  percentageUsed: 0,
+  isExceeded: remaining <= 0,
+});
+
+const batches = { streaming: false, maxBatchParagraphs: 2 };
+
+describe('checkQuota', () => {
+  const paragraphs = [
+    paragraph('p1', '一'.repeat(100)),
+    paragraph('p2', '二'.repeat(100)),
+    paragraph('code', 'const a = 1;', 'completed'),
+    paragraph('p3', '三'.repeat(100)),
+  ];
+
+  it('counts characters and requests of pending paragraphs only', () => {
+    const check = checkQuota(paragraphs, [quota('monthly_characters', 1000), quota('daily_requests', 10)], batches);
+    expect(check.usage).toEqual({ paragraphs: 3, characters: 300, requests: 2 });
+    expect(check.status).toBe('ok');
+    expect(check.lines.map(line => [line.type, line.needed])).toEqual([['monthly_characters', 300], ['daily_requests', 2]]);
+  });
+
+  it('reports how many paragraphs fit when a quota would be exceeded', () => {
+    const check = checkQuota(paragraphs, [quota('monthly_characters', 250), quota('daily_requests', 10)], batches);
+    expect(check.status).toBe('exceeded');
+    expect(check.fittingParagraphs).toBe(2);
+
+    const byRequests = checkQuota(paragraphs, [quota('daily_requests', 1)], batches);
+    expect(byRequests.fittingParagraphs).toBe(2);
+    expect(checkQuota(paragraphs, [quota('daily_requests', 1)], { ...batches, streaming: true }).status).toBe('warning');
+  });
+
+  it('ignores unlimited quotas and quotas a run does not use', () => {
+    const check = checkQuota(paragraphs, [quota('monthly_characters', 0, 0), quota('monthly_corrections', 0)], batches);
+    expect(check.lines).toEqual([]);
+    expect(check.status).toBe('ok');
+  });
+});
@@ -0,0 +1,106 @@
+// Pre-flight quota check: estimate what a correction run will use and compare it with what is left
+
+import type { Paragraph, QuotaInfo, QuotaType } from '@/types';
+import { INITIAL_BATCH_TOKENS, estimateTokens } from '@/utils/batchScheduler';
+
+// Quotas a correction run draws on, and what each one counts
+const RUN_QUOTAS: Partial<Record<QuotaType, keyof Omit<RunUsage, 'paragraphs'>>> = {
+  monthly_characters: 'characters',
+  monthly_requests: 'requests',
+  daily_requests: 'requests',
+};
+
+export const QUOTA_LABELS: Record<QuotaType, string> = {
+  monthly_corrections: '每月校正次數',
+  monthly_characters: '每月字元數',
+  monthly_requests: '每月請求數',
+  daily_requests: '每日請求數',
+};
+
+// Warn when a run would use more than this share of what is left
+const WARNING_RATIO = 0.8;
+
+export interface RunUsage {
+  paragraphs: number;
+  characters: number;
+  requests: number;
+}
+
+export interface QuotaLine {
+  type: QuotaType;
+  label: string;
+  needed: number;
+  remaining: number;
+  resetDate: Date;
+}
+
+export interface QuotaCheck {
+  usage: RunUsage;
+  lines: QuotaLine[];
+  status: 'ok' | 'warning' | 'exceeded';
+  // Paragraphs, from the start of the document, that fit in every quota
+  fittingParagraphs: number;
+}
+
+export interface RunEstimateOptions {
+  // A streamed run is a single request, whatever its size
+  streaming: boolean;
+  maxBatchParagraphs: number;
+}
+
+/**
+ * Usage after each paragraph, batched the way the scheduler starts out
+ * The scheduler adapts while running, so request counts are an estimate
+ */
+export function estimateRunUsage(paragraphs: Paragraph[], options: RunEstimateOptions): RunUsage[] {
+  const usage: RunUsage[] = [];
+  let characters = 0;
+  let batches = 0;
+  let batchTokens = 0;
+  let batchCount = 0;
+
+  paragraphs.forEach((paragraph, index) => {
+    const tokens = estimateTokens(paragraph.text);
+    if (batchCount === 0 || batchCount >= options.maxBatchParagraphs || batchTokens + tokens > INITIAL_BATCH_TOKENS) {
+      batches += 1;
+      batchTokens = 0;
+      batchCount = 0;
+    }
+    batchTokens += tokens;
+    batchCount += 1;
+    characters += paragraph.text.length;
+    usage.push({ paragraphs: index + 1, characters, requests: options.streaming ? 1 : batches });
+  });
+
+  return usage;
+}
+
+/**
+ * Compare the paragraphs still to be sent with the remaining quota
+ * Quotas without a limit, and quotas a run does not use, are left out of the breakdown
+ */
+export function checkQuota(paragraphs: Paragraph[], quotas: QuotaInfo[], options: RunEstimateOptions): QuotaCheck {
+  const pending = paragraphs.filter(p => p.status === 'pending');
+  const usageByParagraph = estimateRunUsage(pending, options);
+  const usage = usageByParagraph[usageByParagraph.length - 1] ?? { paragraphs: 0, characters: 0, requests: 0 };
+  const limited = quotas.filter(quota => RUN_QUOTAS[quota.type] && quota.limit > 0);
+
+  const fits = (step: RunUsage) => limited.every(quota => step[RUN_QUOTAS[quota.type]!] <= Math.max(0, quota.remaining));
+  const firstOver = usageByParagraph.findIndex(step => !fits(step));
+  const lines = limited.map(quota => ({
+    type: quota.type,
+    label: QUOTA_LABELS[quota.type],
+    needed: usage[RUN_QUOTAS[quota.type]!],
+    remaining: Math.max(0, quota.remaining),
+    resetDate: quota.resetDate,
+  }));
+
+  return {
+    usage,
+    lines,
+    status: lines.some(line => line.needed > line.remaining)
+      ? 'exceeded'
+      : lines.some(line => line.needed > line.remaining * WARNING_RATIO) ? 'warning' : 'ok',
+    fittingParagraphs: firstOver === -1 ? pending.length : firstOver,
+  };
+}
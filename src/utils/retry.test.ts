@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getRetryDelay, isRetryableStatus, parseRetryAfter, wait } from './retry';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now, never below zero', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([0, 1, 2].map(attempt => getRetryDelay(attempt, 1000))).toEqual([500, 1000, 2000]);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(getRetryDelay(0, 1000)).toBeLessThanOrEqual(1000);
+  });
+
+  it('prefers the Retry-After delay', () => {
+    expect(getRetryDelay(3, 1000, 250)).toBe(250);
+    expect(getRetryDelay(0, 1000, 0)).toBe(0);
+  });
+
+  it('never waits longer than 30 seconds', () => {
+    expect(getRetryDelay(10, 1000)).toBe(30000);
+    expect(getRetryDelay(0, 1000, 120000)).toBe(30000);
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('retries server errors and timeouts only', () => {
+    expect([500, 502, 503, 408].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404, 422].some(isRetryableStatus)).toBe(false);
+  });
+});
+
+describe('wait', () => {
+  it('resolves early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = wait(60000, controller.signal);
+    controller.abort();
+    await expect(waiting).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+// Retry helpers for transient API failures
+
+// Never wait longer than this between attempts, whatever the server asks for
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: attempt 0 waits 0.5–1× the base delay, attempt 1 waits 1–2× and so on
+ * A server-provided Retry-After takes precedence
+ */
+export function getRetryDelay(attempt: number, baseDelay: number, retryAfter?: number | null): number {
+  if (retryAfter != null) return Math.min(retryAfter, MAX_RETRY_DELAY);
+  const exponential = baseDelay * 2 ** attempt;
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.min(Math.round(jittered), MAX_RETRY_DELAY);
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408;
+}
+
+/**
+ * Resolve after `ms`, or as soon as the signal aborts
+ */
+export function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
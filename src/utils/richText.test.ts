@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph } from '@/types';
+import {
+  applyMarksToSegments,
+  createParagraphsFromRichText,
+  getRichTextPlainText,
+  parseRichTextHtml,
+  renderCorrectedHtml,
+} from './richText';
+import { reassembleDocument } from './textProcessor';
+
+describe('parseRichTextHtml', () => {
+  it('keeps headings, lists and inline formatting', () => {
+    const document = parseRichTextHtml(
+      '<h2>標題</h2><p>這是<b>粗體</b>和<a href="https://example.com">連結</a>。</p><ol><li>第一項</li><li>第<i>二</i>項</li></ol>'
+    );
+    expect(document.blocks.map(block => block.style)).toEqual(['HEADING_2', 'NORMAL_TEXT', 'NUMBERED_LIST', 'NUMBERED_LIST']);
+    expect(document.blocks[1].runs).toEqual([
+      { text: '這是', marks: {} },
+      { text: '粗體', marks: { bold: true } },
+      { text: '和', marks: {} },
+      { text: '連結', marks: { link: 'https://example.com' } },
+      { text: '。', marks: {} },
+    ]);
+    expect(document.blocks[3].runs[1]).toEqual({ text: '二', marks: { italic: true } });
+  });
+
+  it('ignores the normal-weight wrapper Google Docs adds and reads inline styles', () => {
+    const document = parseRichTextHtml(
+      '<b style="font-weight:normal"><p><span style="font-weight:700">重點</span><span>其他</span></p></b>'
+    );
+    expect(document.blocks[0].runs).toEqual([
+      { text: '重點', marks: { bold: true } },
+      { text: '其他', marks: { bold: false } },
+    ]);
+  });
+
+  it('drops scripts, styles and unsafe links, and collapses whitespace outside code', () => {
+    const document = parseRichTextHtml(
+      '<style>p{}</style><p>  甲\n  <a href="javascript:alert(1)">乙</a>  </p><script>x</script><pre>a  b\n c</pre>'
+    );
+    expect(getRichTextPlainText(document)).toBe('甲 乙\n\na  b\n c');
+    expect(document.blocks[0].runs.every(run => !run.marks.link)).toBe(true);
+    expect(document.blocks[1].style).toBe('CODE');
+  });
+});
+
+describe('applyMarksToSegments', () => {
+  const runs = [
+    { text: '我們', marks: {} },
+    { text: '很重耀', marks: { bold: true } },
+    { text: '的事', marks: {} },
+  ];
+
+  it('splits segments at formatting boundaries and gives insertions the formatting around them', () => {
+    const segments = applyMarksToSegments(runs, [
+      { type: 'unchanged' as const, text: '我們很重' },
+      { type: 'removed' as const, text: '耀' },
+      { type: 'added' as const, text: '要' },
+      { type: 'unchanged' as const, text: '的事' },
+    ]);
+    expect(segments.map(segment => [segment.type, segment.text, !!segment.marks.bold])).toEqual([
+      ['unchanged', '我們', false],
+      ['unchanged', '很重', true],
+      ['removed', '耀', true],
+      ['added', '要', true],
+      ['unchanged', '的事', false],
+    ]);
+  });
+});
+
+describe('rich-text paragraphs', () => {
+  const document = parseRichTextHtml('<h1>標提</h1><ul><li>請看<a href="https://example.com">這個連節</a></li></ul>');
+
+  it('map back into the plain input text', () => {
+    const paragraphs = createParagraphsFromRichText(document);
+    const source = getRichTextPlainText(document);
+    expect(paragraphs.map(p => p.style)).toEqual(['HEADING_1', 'BULLET_LIST']);
+    expect(reassembleDocument(source, paragraphs, p => p.text)).toBe(source);
+  });
+
+  it('render corrected text with the original formatting', () => {
+    const paragraphs: Paragraph[] = createParagraphsFromRichText(document).map(p => ({
+      ...p,
+      status: 'completed',
+      correctedText: p.text.replace('標提', '標題').replace('連節', '連結'),
+    }));
+    expect(renderCorrectedHtml(document, paragraphs)).toBe(
+      '<h1>標題</h1>\n<ul>\n<li>請看<a href="https://example.com">這個連結</a></li>\n</ul>'
+    );
+  });
+
+  it('render a block split into several paragraphs as one element', () => {
+    const split = parseRichTextHtml('<p><strong>步驟如下：</strong><br>1. 第一步<br>2. 第二步有措字</p>');
+    const paragraphs: Paragraph[] = createParagraphsFromRichText(split).map(p => ({
+      ...p,
+      status: 'completed',
+      correctedText: p.text.replace('措字', '錯字'),
+    }));
+    expect(paragraphs.length).toBeGreaterThan(1);
+    expect(renderCorrectedHtml(split, paragraphs)).toBe('<p><strong>步驟如下：</strong><br>1. 第一步<br>2. 第二步有錯字</p>');
+  });
+});
@@ -0,0 +1,430 @@
+// Rich text pasted from Word, Notion or web pages
+// Only the plain text of each block is corrected; formatting is mapped back onto the corrected text by offset
+
+import type { Paragraph, RichTextBlock, RichTextDocument, RichTextMarks, RichTextRun } from '@/types';
+import { createInlineDiff } from '@/utils/diffUtils';
+import { createParagraphsFromBlocks } from '@/utils/textProcessor';
+import { getHeadingLevel, getParagraphKind, isOrderedList } from '@/utils/paragraphStyles';
+
+export const CODE_STYLE = 'CODE';
+
+// Elements whose content is never text the user pasted
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'HEAD', 'TITLE', 'META', 'LINK', 'TEMPLATE', 'NOSCRIPT', 'svg']);
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'PRE', 'BLOCKQUOTE', 'UL', 'OL',
+  'TABLE', 'TR', 'TD', 'TH', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'DT', 'DD', 'FIGCAPTION', 'HR',
+]);
+
+// Only links a reader can safely follow are kept
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+interface BlockContext {
+  style: string;
+  preformatted: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function sameMarks(a: RichTextMarks, b: RichTextMarks): boolean {
+  return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline &&
+    !!a.strike === !!b.strike && !!a.code === !!b.code && a.link === b.link;
+}
+
+/**
+ * Append text to a run list, merging with the last run when the formatting matches
+ */
+function appendRun(runs: RichTextRun[], text: string, marks: RichTextMarks): void {
+  if (!text) return;
+  const last = runs[runs.length - 1];
+  if (last && sameMarks(last.marks, marks)) {
+    last.text += text;
+  } else {
+    runs.push({ text, marks: { ...marks } });
+  }
+}
+
+/**
+ * Formatting an element adds to its children; inline styles cover Word and Google Docs markup
+ */
+function getElementMarks(element: Element, inherited: RichTextMarks): RichTextMarks {
+  const marks = { ...inherited };
+  const style = (element as HTMLElement).style;
+  const fontWeight = style?.fontWeight ?? '';
+
+  switch (element.tagName) {
+    case 'B':
+    case 'STRONG':
+      // Google Docs wraps whole pastes in <b style="font-weight:normal">
+      marks.bold = fontWeight !== 'normal' && fontWeight !== '400';
+      break;
+    case 'I':
+    case 'EM':
+      marks.italic = true;
+      break;
+    case 'U':
+    case 'INS':
+      marks.underline = true;
+      break;
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      marks.strike = true;
+      break;
+    case 'CODE':
+    case 'KBD':
+      marks.code = true;
+      break;
+    case 'A': {
+      const href = element.getAttribute('href')?.trim();
+      if (href && SAFE_LINK.test(href)) marks.link = href;
+      break;
+    }
+  }
+
+  if (fontWeight === 'bold' || Number(fontWeight) >= 600) marks.bold = true;
+  if (style?.fontStyle === 'italic') marks.italic = true;
+  if (style?.textDecoration?.includes('underline')) marks.underline = true;
+  if (style?.textDecoration?.includes('line-through')) marks.strike = true;
+
+  return marks;
+}
+
+function getBlockStyle(element: Element, parent: BlockContext, listTypes: string[]): BlockContext {
+  const tag = element.tagName;
+  const heading = tag.match(/^H([1-6])$/);
+  if (heading) return { style: `HEADING_${heading[1]}`, preformatted: false };
+  if (tag === 'LI') {
+    const ordered = listTypes[listTypes.length - 1] === 'OL';
+    return { style: ordered ? 'NUMBERED_LIST' : 'BULLET_LIST', preformatted: false };
+  }
+  if (tag === 'PRE') return { style: CODE_STYLE, preformatted: true };
+  return parent;
+}
+
+/**
+ * Drop leading and trailing whitespace of a block and around its line breaks
+ */
+function trimRuns(runs: RichTextRun[]): RichTextRun[] {
+  const trimmed = runs.map(run => ({ ...run, text: run.text.replace(/ *\n */g, '\n') }));
+  if (trimmed.length > 0) {
+    trimmed[0].text = trimmed[0].text.replace(/^\s+/, '');
+    trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.replace(/\s+$/, '');
+  }
+  return trimmed.filter(run => run.text.length > 0);
+}
+
+/**
+ * Reduce pasted HTML to blocks of formatted text runs
+ * Headings, list items, code blocks and paragraphs become blocks; bold, italics, underline,
+ * strikethrough, inline code and links are kept as marks; everything else is dropped
+ */
+export function parseRichTextHtml(html: string): RichTextDocument {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: RichTextBlock[] = [];
+  const listTypes: string[] = [];
+  let current: { style: string; runs: RichTextRun[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const runs = current.style === CODE_STYLE ? current.runs : trimRuns(current.runs);
+    if (runs.some(run => run.text.trim())) {
+      blocks.push({ id: `rich-${blocks.length + 1}`, style: current.style, runs });
+    }
+    current = null;
+  };
+
+  const walk = (node: Node, marks: RichTextMarks, context: BlockContext) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const raw = node.textContent ?? '';
+      const text = context.preformatted ? raw : raw.replace(/\s+/g, ' ');
+      if (!current) {
+        // Inline content between blocks starts a block of its own, unless it is only whitespace
+        if (!text.trim()) return;
+        current = { style: context.style, runs: [] };
+      }
+      appendRun(current.runs, text, marks);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (IGNORED_TAGS.has(element.tagName)) return;
+    if (element.tagName === 'BR') {
+      if (current) appendRun(current.runs, '\n', marks);
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(element.tagName)) {
+      const childMarks = getElementMarks(element, marks);
+      element.childNodes.forEach(child => walk(child, childMarks, context));
+      return;
+    }
+
+    flush();
+    const isList = element.tagName === 'UL' || element.tagName === 'OL';
+    if (isList) listTypes.push(element.tagName);
+    const blockContext = getBlockStyle(element, context, listTypes);
+    current = isList ? null : { style: blockContext.style, runs: [] };
+    element.childNodes.forEach(child => walk(child, marks, blockContext));
+    flush();
+    if (isList) listTypes.pop();
+  };
+
+  body.childNodes.forEach(child => walk(child, {}, { style: 'NORMAL_TEXT', preformatted: false }));
+  flush();
+
+  return { blocks };
+}
+
+/**
+ * Plain text pastes become one normal block per paragraph
+ */
+export function plainTextToRichText(text: string): RichTextDocument {
+  return {
+    blocks: text
+      .split(/\n\s*\n/)
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map((part, index) => ({ id: `rich-${index + 1}`, style: 'NORMAL_TEXT', runs: [{ text: part, marks: {} }] })),
+  };
+}
+
+export function getBlockText(block: Pick<RichTextBlock, 'runs'>): string {
+  return block.runs.map(run => run.text).join('');
+}
+
+/**
+ * Plain text of a document; blocks are separated by blank lines, which is the input text rich paragraphs map into
+ */
+export function getRichTextPlainText(document: RichTextDocument): string {
+  return document.blocks.map(getBlockText).join('\n\n');
+}
+
+/**
+ * Runs covering text.slice(start, end) of the runs' joined text
+ */
+export function sliceRuns(runs: RichTextRun[], start: number, end: number): RichTextRun[] {
+  const sliced: RichTextRun[] = [];
+  let runStart = 0;
+  for (const run of runs) {
+    const runEnd = runStart + run.text.length;
+    const text = run.text.slice(Math.max(0, start - runStart), Math.max(0, end - runStart));
+    if (text) sliced.push({ text, marks: run.marks });
+    runStart = runEnd;
+  }
+  return sliced;
+}
+
+/**
+ * Generate paragraph objects from a rich-text document, each carrying the runs of its part of the block
+ * sourceRange points into getRichTextPlainText(document), so the plain text can be rebuilt too
+ */
+export function createParagraphsFromRichText(document: RichTextDocument): Paragraph[] {
+  const blockStarts = new Map<string, { start: number; runs: RichTextRun[] }>();
+  let offset = 0;
+  for (const block of document.blocks) {
+    blockStarts.set(block.id, { start: offset, runs: block.runs });
+    offset += getBlockText(block).length + 2;
+  }
+
+  const blocks = document.blocks.map(block => ({ id: block.id, text: getBlockText(block), style: block.style }));
+  return createParagraphsFromBlocks(blocks).map(paragraph => {
+    const block = blockStarts.get(paragraph.sourceId!)!;
+    const { start, end } = paragraph.sourceRange!;
+    return { ...paragraph, richText: sliceRuns(block.runs, start - block.start, end - block.start) };
+  });
+}
+
+/**
+ * Formatting at a character offset of the original text
+ * Insertions take the formatting of the character before them, or after them at the start of a block
+ */
+function marksAt(runs: RichTextRun[], offset: number, insertion: boolean): RichTextMarks {
+  let runStart = 0;
+  for (const run of runs) {
+    const runEnd = runStart + run.text.length;
+    if (insertion ? offset <= runEnd && offset > runStart : offset < runEnd) return run.marks;
+    runStart = runEnd;
+  }
+  return (insertion ? runs[0]?.marks : runs[runs.length - 1]?.marks) ?? {};
+}
+
+/**
+ * Split diff segments of a block's text at formatting boundaries and attach the formatting
+ * Unchanged and removed text keeps its own formatting; added text takes the formatting where it was inserted
+ */
+export function applyMarksToSegments<T extends { type: 'unchanged' | 'added' | 'removed'; text: string }>(
+  runs: RichTextRun[],
+  segments: T[]
+): Array<T & { marks: RichTextMarks }> {
+  const result: Array<T & { marks: RichTextMarks }> = [];
+  let offset = 0;
+
+  for (const segment of segments) {
+    if (segment.type === 'added') {
+      result.push({ ...segment, marks: marksAt(runs, offset, true) });
+      continue;
+    }
+
+    // Walk the original text covered by this segment, cutting it wherever the formatting changes
+    let remaining = segment.text;
+    while (remaining.length > 0) {
+      const marks = marksAt(runs, offset, false);
+      let length = 1;
+      while (length < remaining.length && sameMarks(marksAt(runs, offset + length, false), marks)) length++;
+      result.push({ ...segment, text: remaining.slice(0, length), marks });
+      offset += length;
+      remaining = remaining.slice(length);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formatted runs of a paragraph's corrected text
+ */
+export function getCorrectedRuns(paragraph: Paragraph): RichTextRun[] {
+  const runs = paragraph.richText ?? [{ text: paragraph.text, marks: {} }];
+  const segments = createInlineDiff(paragraph.text, paragraph.correctedText || paragraph.text).map(diff => ({
+    type: diff.type === 'insert' ? 'added' as const : diff.type === 'delete' ? 'removed' as const : 'unchanged' as const,
+    text: diff.text,
+  }));
+
+  const corrected: RichTextRun[] = [];
+  for (const segment of applyMarksToSegments(runs, segments)) {
+    if (segment.type !== 'removed') appendRun(corrected, segment.text, segment.marks);
+  }
+  return corrected;
+}
+
+/**
+ * Wrap escaped text in the tags for its formatting
+ */
+export function renderMarkedHtml(html: string, marks: RichTextMarks): string {
+  let result = html;
+  if (marks.code) result = `<code>${result}</code>`;
+  if (marks.bold) result = `<strong>${result}</strong>`;
+  if (marks.italic) result = `<em>${result}</em>`;
+  if (marks.underline) result = `<u>${result}</u>`;
+  if (marks.strike) result = `<s>${result}</s>`;
+  if (marks.link) result = `<a href="${escapeHtml(marks.link)}">${result}</a>`;
+  return result;
+}
+
+/**
+ * Render blocks of already rendered inline HTML, grouping consecutive list items into lists
+ */
+export function renderBlocksHtml(blocks: Array<{ style?: string; html: string }>): string {
+  const output: string[] = [];
+  let openList: 'ul' | 'ol' | null = null;
+
+  const closeList = () => {
+    if (openList) output.push(`</${openList}>`);
+    openList = null;
+  };
+
+  for (const block of blocks) {
+    const kind = getParagraphKind(block.style);
+    if (kind === 'list') {
+      const listTag = isOrderedList(block.style) ? 'ol' : 'ul';
+      if (openList !== listTag) {
+        closeList();
+        output.push(`<${listTag}>`);
+        openList = listTag;
+      }
+      output.push(`<li>${block.html}</li>`);
+      continue;
+    }
+
+    closeList();
+    if (kind === 'heading') {
+      const level = getHeadingLevel(block.style);
+      output.push(`<h${level}>${block.html}</h${level}>`);
+    } else if (block.style === CODE_STYLE) {
+      output.push(`<pre>${block.html}</pre>`);
+    } else {
+      output.push(`<p>${block.html}</p>`);
+    }
+  }
+  closeList();
+
+  return output.join('\n');
+}
+
+function renderRunsHtml(runs: RichTextRun[], preformatted: boolean): string {
+  return runs
+    .map(run => {
+      const text = escapeHtml(run.text);
+      return renderMarkedHtml(preformatted ? text : text.replace(/\n/g, '<br>'), run.marks);
+    })
+    .join('');
+}
+
+/**
+ * HTML of a rich-text document, e.g. to show it in the input after pasting
+ */
+export function renderRichTextHtml(document: RichTextDocument): string {
+  return renderBlocksHtml(document.blocks.map(block => ({
+    style: block.style,
+    html: renderRunsHtml(block.runs, block.style === CODE_STYLE),
+  })));
+}
+
+/**
+ * Corrected runs of each block, rebuilt from the paragraphs split from it; text between them keeps its formatting
+ * Returns null when a paragraph does not map into the document, e.g. after the input was edited
+ */
+function getCorrectedBlockRuns(document: RichTextDocument, paragraphs: Paragraph[]): Map<string, RichTextRun[]> | null {
+  const bySource = new Map<string, Paragraph[]>();
+  for (const paragraph of paragraphs) {
+    if (!paragraph.sourceId || !paragraph.sourceRange) return null;
+    bySource.set(paragraph.sourceId, [...(bySource.get(paragraph.sourceId) ?? []), paragraph]);
+  }
+
+  const corrected = new Map<string, RichTextRun[]>();
+  let blockOffset = 0;
+  for (const block of document.blocks) {
+    const text = getBlockText(block);
+    const pieces = (bySource.get(block.id) ?? []).sort((a, b) => a.sourceRange!.start - b.sourceRange!.start);
+    const runs: RichTextRun[] = [];
+    let offset = 0;
+
+    for (const piece of pieces) {
+      const start = piece.sourceRange!.start - blockOffset;
+      const end = piece.sourceRange!.end - blockOffset;
+      if (start < offset || text.slice(start, end) !== piece.text) return null;
+      sliceRuns(block.runs, offset, start).forEach(run => appendRun(runs, run.text, run.marks));
+      getCorrectedRuns(piece).forEach(run => appendRun(runs, run.text, run.marks));
+      offset = end;
+    }
+    sliceRuns(block.runs, offset, text.length).forEach(run => appendRun(runs, run.text, run.marks));
+
+    corrected.set(block.id, runs);
+    blockOffset += text.length + 2;
+  }
+  return corrected;
+}
+
+/**
+ * HTML of the corrected document with its original formatting, for copying into other editors
+ * Every pasted block comes back as one element, however many paragraphs it was split into
+ */
+export function renderCorrectedHtml(document: RichTextDocument, paragraphs: Paragraph[]): string {
+  const blockRuns = getCorrectedBlockRuns(document, paragraphs);
+  if (!blockRuns) {
+    console.warn('⚠️ Paragraphs do not match the pasted document, rendering them one by one');
+    return renderBlocksHtml(paragraphs.map(paragraph => ({
+      style: paragraph.style,
+      html: renderRunsHtml(getCorrectedRuns(paragraph), paragraph.style === CODE_STYLE),
+    })));
+  }
+
+  return renderBlocksHtml(document.blocks.map(block => ({
+    style: block.style,
+    html: renderRunsHtml(blockRuns.get(block.id) ?? block.runs, block.style === CODE_STYLE),
+  })));
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { segmentText } from './segmenter';
+import type { TextSegment } from './segmenter';
+
+const texts = (segments: TextSegment[]) => segments.map(segment => segment.text);
+
+describe('segmentText: paragraphs', () => {
+  it('returns nothing for blank text', () => {
+    expect(segmentText('  \n\n \n')).toEqual([]);
+  });
+
+  it('splits at blank lines and records exact source offsets', () => {
+    const text = '第一段。\n\n  第二段，有縮排。\n\n\n第三段';
+    const segments = segmentText(text);
+    expect(texts(segments)).toEqual(['第一段。', '第二段，有縮排。', '第三段']);
+    segments.forEach(segment => {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    });
+  });
+
+  it('keeps single line breaks inside a paragraph', () => {
+    expect(texts(segmentText('第一行\n第二行'))).toEqual(['第一行\n第二行']);
+  });
+
+  it('only adds context to pieces of a split paragraph', () => {
+    const [short] = segmentText('短段落。');
+    expect(short.context).toBeUndefined();
+  });
+});
+
+describe('segmentText: long paragraphs', () => {
+  it('splits at Chinese sentence endings including semicolons and ellipses', () => {
+    const segments = segmentText('等等……真的嗎？！是的；好。', { maxLength: 5 });
+    expect(texts(segments)).toEqual(['等等……', '真的嗎？！', '是的；好。']);
+  });
+
+  it('packs sentences up to the maximum length', () => {
+    const segments = segmentText('一。二。三。四。五。六。', { maxLength: 6 });
+    expect(texts(segments)).toEqual(['一。二。三。', '四。五。六。']);
+  });
+
+  it('keeps quotes and brackets balanced', () => {
+    const segments = segmentText('他說：「你好。我很好。」然後走了。她說「再見！」', { maxLength: 12 });
+    expect(texts(segments)).toEqual(['他說：「你好。我很好。」', '然後走了。她說「再見！」']);
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    const segments = segmentText('『是嗎？』他問。（當然。）', { maxLength: 5 });
+    expect(texts(segments)).toEqual(['『是嗎？』', '他問。', '（當然。）']);
+  });
+
+  it('splits English sentences without breaking decimals or abbreviations', () => {
+    const segments = segmentText('Dr. Smith paid 3.5 dollars. He said "Stop." Then he left!', { maxLength: 30 });
+    expect(texts(segments)).toEqual(['Dr. Smith paid 3.5 dollars.', 'He said "Stop." Then he left!']);
+  });
+
+  it('splits mixed Chinese and English text', () => {
+    const segments = segmentText('我們使用 React.js 開發。It works well. 效果很好！', { maxLength: 17 });
+    expect(texts(segments)).toEqual(['我們使用 React.js 開發。', 'It works well.', '效果很好！']);
+  });
+
+  it('falls back to clauses when a single sentence is too long', () => {
+    const segments = segmentText('甲乙，丙丁，戊己，庚辛。', { maxLength: 6 });
+    expect(texts(segments)).toEqual(['甲乙，丙丁，', '戊己，庚辛。']);
+  });
+
+  it('cuts sentences without punctuation at the maximum length', () => {
+    const segments = segmentText('這是一個沒有任何標點符號的很長的句子', { maxLength: 8 });
+    expect(texts(segments)).toEqual(['這是一個沒有任何', '標點符號的很長的', '句子']);
+  });
+
+  it('does not split a surrogate pair', () => {
+    const segments = segmentText('一二三𠀀四五', { maxLength: 4 });
+    expect(texts(segments)).toEqual(['一二三', '𠀀四五']);
+  });
+
+  it('attaches the surrounding text of the same paragraph as context', () => {
+    const text = '前一段。\n\n第一句。第二句。第三句。';
+    const segments = segmentText(text, { maxLength: 4, contextLength: 3 });
+    expect(texts(segments)).toEqual(['前一段。', '第一句。', '第二句。', '第三句。']);
+    expect(segments[1].context).toEqual({ before: '', after: '第二句' });
+    expect(segments[2].context).toEqual({ before: '一句。', after: '第三句' });
+    expect(segments[3].context).toEqual({ before: '二句。', after: '' });
+  });
+
+  it('excludes the whitespace between English sentences from every piece', () => {
+    const text = 'One two three.   Four five six.';
+    const segments = segmentText(text, { maxLength: 15 });
+    expect(texts(segments)).toEqual(['One two three.', 'Four five six.']);
+    expect(text.slice(segments[0].end, segments[1].start)).toBe('   ');
+  });
+});
+
+describe('segmentText: lists and code', () => {
+  it('splits list items, keeping continuation lines with their item', () => {
+    const segments = segmentText('清單：\n- 第一項\n- 第二項\n  續行\n1. 編號\n一、中文編號\n（二）括號編號');
+    expect(segments.map(segment => [segment.text, segment.kind])).toEqual([
+      ['清單：', 'paragraph'],
+      ['- 第一項', 'list-item'],
+      ['- 第二項\n  續行', 'list-item'],
+      ['1. 編號', 'list-item'],
+      ['一、中文編號', 'list-item'],
+      ['（二）括號編號', 'list-item'],
+    ]);
+  });
+
+  it('does not treat decimals at the start of a line as list markers', () => {
+    expect(texts(segmentText('3.5 公斤\n很重'))).toEqual(['3.5 公斤\n很重']);
+  });
+
+  it('keeps fenced code blocks whole, including blank lines', () => {
+    const text = '說明\n```js\nconst a = 1;\n\nconst b = 2;\n```\n後文';
+    const segments = segmentText(text);
+    expect(segments.map(segment => [segment.text, segment.kind])).toEqual([
+      ['說明', 'paragraph'],
+      ['```js\nconst a = 1;\n\nconst b = 2;\n```', 'code'],
+      ['後文', 'paragraph'],
+    ]);
+  });
+
+  it('never splits code blocks, however long', () => {
+    const code = '```\n' + 'x = 1。'.repeat(50) + '\n```';
+    const segments = segmentText(code, { maxLength: 20 });
+    expect(segments).toHaveLength(1);
+    expect(segments[0].kind).toBe('code');
+  });
+
+  it('runs an unterminated code fence to the end of the text', () => {
+    const segments = segmentText('前文\n\n~~~\n未結束的程式碼');
+    expect(segments.map(segment => segment.kind)).toEqual(['paragraph', 'code']);
+  });
+});
@@ -0,0 +1,304 @@
+// Paragraph and sentence segmentation for Chinese, English and mixed text
+// Every segment is an exact slice of the source, so results can be stitched back by offset
+
+export type SegmentKind = 'paragraph' | 'list-item' | 'code';
+
+export interface TextSegment {
+  // Always source.slice(start, end)
+  text: string;
+  start: number;
+  end: number;
+  kind: SegmentKind;
+  // Surrounding text of the same paragraph, set when a long paragraph had to be split
+  context?: {
+    before: string;
+    after: string;
+  };
+}
+
+export interface SegmentOptions {
+  // Longer paragraphs are split at sentence, then clause boundaries
+  maxLength?: number;
+  // Characters of surrounding text kept with each piece of a split paragraph
+  contextLength?: number;
+}
+
+const DEFAULT_OPTIONS: Required<SegmentOptions> = {
+  maxLength: 500,
+  contextLength: 100,
+};
+
+// Closing character for each opening quote or bracket
+const BRACKET_PAIRS: Record<string, string> = {
+  '「': '」',
+  '『': '』',
+  '（': '）',
+  '(': ')',
+  '“': '”',
+  '‘': '’',
+  '《': '》',
+  '〈': '〉',
+  '【': '】',
+  '〔': '〕',
+  '[': ']',
+  '{': '}',
+};
+const CLOSING_BRACKETS = new Set(Object.values(BRACKET_PAIRS));
+
+const CJK_TERMINATORS = new Set(['。', '！', '？', '；', '…', '｡']);
+const LATIN_TERMINATORS = new Set(['.', '!', '?', ';']);
+const CLAUSE_MARKS = new Set(['，', '、', '：', ',', ':']);
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'fig', 'no', 'vol', 'inc', 'ltd', 'co']);
+
+const LIST_MARKER = /^[ \t]*(?:[-*+•·‧]\s+|\d+[.)]\s+|\d+、|[a-zA-Z][.)]\s+|[一二三四五六七八九十]+、|[（(][一二三四五六七八九十\d]+[）)])/;
+const CODE_FENCE = /^[ \t]*(```|~~~)/;
+
+type BreakLevel = 'sentence' | 'clause' | 'any';
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * Narrow a range so it starts and ends on non-whitespace; empty ranges come back with start === end
+ */
+function trimRange(text: string, start: number, end: number): Range {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/**
+ * Find fenced code blocks; an unterminated fence runs to the end of the text
+ */
+function findCodeBlocks(text: string): Range[] {
+  const blocks: Range[] = [];
+  let open: { fence: string; start: number } | null = null;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const fence = line.match(CODE_FENCE)?.[1];
+    if (fence && !open) {
+      open = { fence, start: offset };
+    } else if (fence && open && fence === open.fence) {
+      blocks.push({ start: open.start, end: offset + line.length });
+      open = null;
+    }
+    offset += line.length + 1;
+  }
+  if (open) blocks.push({ start: open.start, end: text.length });
+
+  return blocks;
+}
+
+/**
+ * Split a region at blank lines into trimmed paragraph ranges
+ */
+function findParagraphs(text: string, start: number, end: number): Range[] {
+  const paragraphs: Range[] = [];
+  const separator = /\n[ \t\u3000]*\n\s*/g;
+  separator.lastIndex = start;
+  let paragraphStart = start;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(text)) && match.index < end) {
+    paragraphs.push(trimRange(text, paragraphStart, match.index));
+    paragraphStart = Math.min(end, match.index + match[0].length);
+  }
+  paragraphs.push(trimRange(text, paragraphStart, end));
+
+  return paragraphs.filter(range => range.end > range.start);
+}
+
+/**
+ * Split a paragraph into list items where lines start with a list marker
+ * Lines before the first marker stay a plain paragraph; lines after a marker continue its item
+ */
+function splitListItems(text: string, range: Range): Array<Range & { kind: SegmentKind }> {
+  const items: Array<Range & { kind: SegmentKind }> = [];
+  let current: Range & { kind: SegmentKind } = { start: range.start, end: range.end, kind: 'paragraph' };
+  let offset = range.start;
+
+  for (const line of text.slice(range.start, range.end).split('\n')) {
+    if (LIST_MARKER.test(line) && offset > current.start) {
+      items.push({ ...current, end: offset });
+      current = { start: offset, end: range.end, kind: 'list-item' };
+    } else if (LIST_MARKER.test(line)) {
+      current.kind = 'list-item';
+    }
+    offset += line.length + 1;
+  }
+  items.push(current);
+
+  return items
+    .map(item => ({ ...trimRange(text, item.start, item.end), kind: item.kind }))
+    .filter(item => item.end > item.start);
+}
+
+function isCjk(char: string): boolean {
+  return /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/.test(char);
+}
+
+function isClosingQuote(char: string | undefined): boolean {
+  return char !== undefined && (CLOSING_BRACKETS.has(char) || char === '"' || char === "'");
+}
+
+/**
+ * Whether a Latin terminator at `index` really ends a sentence (not a decimal, abbreviation or initial)
+ */
+function endsLatinSentence(text: string, index: number, end: number): boolean {
+  let nextIndex = index + 1;
+  while (nextIndex < end && isClosingQuote(text[nextIndex])) nextIndex++;
+  const next = text[nextIndex];
+  if (nextIndex < end && !/\s/.test(next) && !isCjk(next)) return false;
+  if (text[index] !== '.') return true;
+
+  const word = text.slice(0, index).match(/([A-Za-z.]+)$/)?.[1] ?? '';
+  if (ABBREVIATIONS.has(word.toLowerCase())) return false;
+  // A single capital is most likely an initial, as in "J. K. Rowling"
+  return !/^[A-Z]$/.test(word);
+}
+
+/**
+ * Offsets (exclusive ends) where a range may be broken at the given level
+ * Sentence and clause breaks are only taken outside quotes and brackets, after any closing quotes that follow
+ */
+function findBreaks(text: string, range: Range, level: BreakLevel): number[] {
+  const breaks: number[] = [];
+  const stack: string[] = [];
+  let pendingBreak = false;
+
+  for (let i = range.start; i < range.end - 1; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      // Straight double quotes open and close with the same character
+      if (stack[stack.length - 1] === '"') stack.pop();
+      else stack.push('"');
+    } else if (BRACKET_PAIRS[char]) {
+      stack.push(BRACKET_PAIRS[char]);
+    } else if (CLOSING_BRACKETS.has(char)) {
+      const openIndex = stack.lastIndexOf(char);
+      if (openIndex >= 0) stack.length = openIndex;
+    }
+
+    const isTerminator = CJK_TERMINATORS.has(char) ||
+      (LATIN_TERMINATORS.has(char) && endsLatinSentence(text, i, range.end));
+    if (isTerminator || (level !== 'sentence' && CLAUSE_MARKS.has(char))) {
+      pendingBreak = true;
+    }
+    if (!pendingBreak) continue;
+
+    // Terminator runs such as "……" or "！？" and the quotes closing them stay with the sentence
+    const next = text[i + 1];
+    const runContinues = CJK_TERMINATORS.has(next) || CLOSING_BRACKETS.has(next) ||
+      (next === '"' && stack[stack.length - 1] === '"');
+    if (runContinues) continue;
+
+    if (stack.length === 0 || level === 'any') breaks.push(i + 1);
+    pendingBreak = false;
+  }
+
+  return breaks;
+}
+
+/**
+ * Greedily pack the pieces between breaks into ranges of at most maxLength characters
+ * Whitespace between pieces does not count; a piece that is longer on its own comes back
+ * as a single range for the caller to split further
+ */
+function packRanges(text: string, range: Range, breaks: number[], maxLength: number): Range[] {
+  const packed: Range[] = [];
+  let current: Range = { start: range.start, end: range.start };
+
+  for (const pieceEnd of [...breaks, range.end]) {
+    if (pieceEnd - current.start > maxLength && current.end > current.start) {
+      packed.push(current);
+      current = trimRange(text, current.end, pieceEnd);
+    } else {
+      current.end = pieceEnd;
+    }
+  }
+  if (current.end > current.start) packed.push(current);
+
+  return packed;
+}
+
+/**
+ * Cut at maxLength as a last resort, without splitting a surrogate pair
+ */
+function hardSplit(text: string, range: Range, maxLength: number): Range[] {
+  const pieces: Range[] = [];
+  let start = range.start;
+  while (range.end - start > maxLength) {
+    let end = start + maxLength;
+    if (/[\ud800-\udbff]/.test(text[end - 1])) end--;
+    pieces.push({ start, end });
+    start = end;
+  }
+  pieces.push({ start, end: range.end });
+  return pieces;
+}
+
+/**
+ * Split a range that exceeds maxLength: sentences first, then clauses, then any punctuation, then a hard cut
+ */
+function splitLongRange(text: string, range: Range, maxLength: number, levels: BreakLevel[] = ['sentence', 'clause', 'any']): Range[] {
+  if (range.end - range.start <= maxLength) return [range];
+  if (levels.length === 0) return hardSplit(text, range, maxLength);
+
+  const [level, ...fallbacks] = levels;
+  return packRanges(text, range, findBreaks(text, range, level), maxLength).flatMap(piece =>
+    splitLongRange(text, piece, maxLength, fallbacks)
+  );
+}
+
+/**
+ * Segment text into correction units: paragraphs, list items and code blocks
+ * Paragraphs longer than maxLength are split into pieces that carry their surrounding text as context
+ */
+export function segmentText(text: string, options: SegmentOptions = {}): TextSegment[] {
+  const { maxLength, contextLength } = { ...DEFAULT_OPTIONS, ...options };
+  const segments: TextSegment[] = [];
+
+  const addProse = (start: number, end: number) => {
+    for (const paragraph of findParagraphs(text, start, end)) {
+      for (const item of splitListItems(text, paragraph)) {
+        const pieces = splitLongRange(text, item, maxLength)
+          .map(piece => trimRange(text, piece.start, piece.end))
+          .filter(piece => piece.end > piece.start);
+
+        for (const piece of pieces) {
+          segments.push({
+            text: text.slice(piece.start, piece.end),
+            start: piece.start,
+            end: piece.end,
+            kind: item.kind,
+            ...(pieces.length > 1 && {
+              context: {
+                before: text.slice(Math.max(item.start, piece.start - contextLength), piece.start),
+                after: text.slice(piece.end, Math.min(item.end, piece.end + contextLength)),
+              },
+            }),
+          });
+        }
+      }
+    }
+  };
+
+  let offset = 0;
+  for (const block of findCodeBlocks(text)) {
+    addProse(offset, block.start);
+    const code = trimRange(text, block.start, block.end);
+    if (code.end > code.start) {
+      segments.push({ text: text.slice(code.start, code.end), start: code.start, end: code.end, kind: 'code' });
+    }
+    offset = block.end;
+  }
+  addProse(offset, text.length);
+
+  return segments;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { readEventStream, type ServerSentEvent } from './sse';
+
+const streamOf = (chunks: Array<string | Uint8Array>) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+};
+
+const readAll = async (chunks: Array<string | Uint8Array>) => {
+  const events: ServerSentEvent[] = [];
+  await readEventStream(streamOf(chunks), event => events.push(event));
+  return events;
+};
+
+describe('readEventStream', () => {
+  it('joins an event split across chunks, including a split character', async () => {
+    const bytes = new TextEncoder().encode('event: paragraph-complete\ndata: {"text":"校正"}\n\n');
+    const events = await readAll([bytes.slice(0, 10), bytes.slice(10, 33), bytes.slice(33)]);
+    expect(events).toEqual([{ event: 'paragraph-complete', data: '{"text":"校正"}', id: undefined }]);
+  });
+
+  it('accepts CRLF line endings, also when the blank line is split', async () => {
+    const events = await readAll(['id: 1\r\ndata: first\r\n\r', '\ndata: second\r\n\r\n']);
+    expect(events).toEqual([
+      { event: 'message', data: 'first', id: '1' },
+      { event: 'message', data: 'second', id: undefined },
+    ]);
+  });
+
+  it('joins multi-line data with line breaks', async () => {
+    const events = await readAll(['data: line one\ndata: line two\ndata:\n\n']);
+    expect(events.map(event => event.data)).toEqual(['line one\nline two\n']);
+  });
+
+  it('skips keep-alive comments and blocks without data', async () => {
+    const events = await readAll([': keep-alive\n\n', 'event: ping\n\n', ':comment\ndata: real\n\n']);
+    expect(events.map(event => event.data)).toEqual(['real']);
+  });
+
+  it('delivers a trailing event that has no final blank line', async () => {
+    const events = await readAll(['data: first\n\n', 'event: done\ndata: last']);
+    expect(events.map(event => [event.event, event.data])).toEqual([['message', 'first'], ['done', 'last']]);
+  });
+});
@@ -0,0 +1,82 @@
+// Server-Sent Events parsing utilities
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a single SSE block (the lines between two blank lines)
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with ':' are comments / keep-alives
+    if (!line || line.startsWith(':')) continue;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        id = value;
+        break;
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  return { event, data: dataLines.join('\n'), id };
+}
+
+/**
+ * Read a text/event-stream body and invoke the callback for every complete event
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const event = parseEventBlock(block);
+        if (event) onEvent(event);
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    // Flush a trailing event that was not followed by a blank line
+    buffer += decoder.decode();
+    const event = parseEventBlock(buffer);
+    if (event) onEvent(event);
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph } from '@/types';
+import { createParagraphsFromChunks, createParagraphsFromSegments, reassembleDocument } from './textProcessor';
+import { segmentText } from './segmenter';
+import { splitIntoChunks } from './documentChunker';
+
+const paragraphsOf = (text: string) => createParagraphsFromSegments(segmentText(text));
+
+describe('reassembleDocument', () => {
+  const source = '  第一段，有縮排。  \n\n\n第二段\n單行換行\t\n\n- 項目一\n- 項目二\n';
+
+  it('rebuilds the source byte-for-byte when nothing changed', () => {
+    expect(reassembleDocument(source, paragraphsOf(source))).toBe(source);
+  });
+
+  it('replaces only the corrected spans', () => {
+    const paragraphs = paragraphsOf(source).map(p =>
+      p.text === '第二段\n單行換行' ? { ...p, correctedText: '第二段！\n單行換行' } : p
+    );
+    expect(reassembleDocument(source, paragraphs)).toBe(
+      '  第一段，有縮排。  \n\n\n第二段！\n單行換行\t\n\n- 項目一\n- 項目二\n'
+    );
+  });
+
+  it('keeps the whitespace between sentences of a split paragraph', () => {
+    const text = 'One two three.   Four five six.';
+    const paragraphs = createParagraphsFromSegments(segmentText(text, { maxLength: 15 }));
+    expect(paragraphs).toHaveLength(2);
+    expect(reassembleDocument(text, paragraphs)).toBe(text);
+  });
+
+  it('maps large-document paragraphs back into the whole input', () => {
+    const text = ('第一章 開始\n\n' + '內容。'.repeat(3000) + '\n\n').repeat(3);
+    const paragraphs = createParagraphsFromChunks(text, splitIntoChunks(text));
+    expect(reassembleDocument(text, paragraphs)).toBe(text);
+  });
+
+  it('can rebuild the original text instead of the corrected one', () => {
+    const paragraphs = paragraphsOf(source).map(p => ({ ...p, correctedText: '改' }));
+    expect(reassembleDocument(source, paragraphs, p => p.text)).toBe(source);
+  });
+
+  it('falls back to blank-line joins without a source map', () => {
+    const paragraphs: Paragraph[] = [
+      { id: 'a', text: '甲', correctedText: '乙', corrections: [], status: 'completed' },
+      { id: 'b', text: '丙', corrections: [], status: 'completed' },
+    ];
+    expect(reassembleDocument('甲\n丙', paragraphs)).toBe('乙\n\n丙');
+  });
+
+  it('falls back when the source was edited after segmentation', () => {
+    const paragraphs = paragraphsOf('第一段\n\n第二段');
+    expect(reassembleDocument('第一段\n\n第二斷', paragraphs)).toBe('第一段\n\n第二段');
+  });
+});
@@ -1,50 +1,15 @@
 // Text processing utilities
 
-import type { Paragraph, TextCorrection } from '@/types';
+import type { CorrectionDecision, DocumentChunk, Paragraph, TextCorrection } from '@/types';
+import { segmentText } from '@/utils/segmenter';
+import type { TextSegment } from '@/utils/segmenter';
 
 /**
- * Split text into paragraphs based on double line breaks
- * Also handles single line breaks within paragraphs
+ * Split text into paragraphs, list items and code blocks
+ * Paragraphs over 500 characters are broken at sentence, then clause boundaries
  */
 export function splitIntoParagraphs(text: string): string[] {
-  if (!text.trim()) return [];
-
-  // Split by double line breaks first
-  let paragraphs = text
-    .split(/\n\s*\n/)
-    .map(p => p.trim())
-    .filter(p => p.length > 0);
-
-  // If still too long, split by sentence endings
-  const maxParagraphLength = 500;
-  const result: string[] = [];
-
-  for (const paragraph of paragraphs) {
-    if (paragraph.length <= maxParagraphLength) {
-      result.push(paragraph);
-    } else {
-      // Split by sentence endings but try to keep related sentences together
-      const sentences = paragraph.split(/(?<=[。！？])\s*/);
-      let currentParagraph = '';
-
-      for (const sentence of sentences) {
-        if (currentParagraph.length + sentence.length <= maxParagraphLength) {
-          currentParagraph += (currentParagraph ? '' : '') + sentence;
-        } else {
-          if (currentParagraph) {
-            result.push(currentParagraph);
-          }
-          currentParagraph = sentence;
-        }
-      }
-
-      if (currentParagraph) {
-        result.push(currentParagraph);
-      }
-    }
-  }
-
-  return result;
+  return segmentText(text).map(segment => segment.text);
 }
 
 /**
@@ -59,6 +24,120 @@ export function createParagraphs(texts: string[]): Paragraph[] {
   }));
 }
 
+/**
+ * Generate paragraph objects from an imported document, keeping each source paragraph's id and style
+ * Empty source paragraphs are skipped; overly long ones are split like direct input
+ */
+export function createParagraphsFromSource(
+  sourceParagraphs: Array<{ id: string; text: string; style: string }>
+): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  for (const source of sourceParagraphs) {
+    for (const text of splitIntoParagraphs(source.text)) {
+      paragraphs.push({
+        id: `paragraph-${paragraphs.length + 1}`,
+        text,
+        corrections: [],
+        status: 'pending',
+        sourceId: source.id,
+        style: source.style,
+      });
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Generate paragraph objects from segments
+ * Code blocks are completed as-is, since they are never sent for correction
+ * sourceOffset is where the segmented text starts within the full input
+ */
+export function createParagraphsFromSegments(
+  segments: TextSegment[],
+  firstNumber: number = 1,
+  sourceOffset: number = 0
+): Paragraph[] {
+  return segments.map((segment, index) => ({
+    id: `paragraph-${firstNumber + index}`,
+    text: segment.text,
+    corrections: [],
+    status: segment.kind === 'code' ? 'completed' as const : 'pending' as const,
+    sourceRange: { start: sourceOffset + segment.start, end: sourceOffset + segment.end },
+    ...(segment.context && { context: segment.context }),
+  }));
+}
+
+/**
+ * Generate paragraph objects for a large document, tagging each with the chunk it came from
+ */
+export function createParagraphsFromChunks(text: string, chunks: DocumentChunk[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  for (const chunk of chunks) {
+    const segments = segmentText(text.slice(chunk.start, chunk.end));
+    for (const paragraph of createParagraphsFromSegments(segments, paragraphs.length + 1, chunk.start)) {
+      paragraphs.push({ ...paragraph, chunkId: chunk.id });
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Generate paragraph objects from structured blocks (pasted rich text, uploaded files), keeping each block's id and style
+ * Long blocks are split like direct input; CODE blocks are completed as-is
+ * sourceRange points into the blocks' text joined with blank lines, so that text can be rebuilt too
+ */
+export function createParagraphsFromBlocks(blocks: Array<{ id: string; text: string; style: string }>): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let blockOffset = 0;
+
+  for (const block of blocks) {
+    const segments = block.style === 'CODE'
+      ? [{ text: block.text, start: 0, end: block.text.length, kind: 'code' as const }]
+      : segmentText(block.text);
+
+    for (const paragraph of createParagraphsFromSegments(segments, paragraphs.length + 1, blockOffset)) {
+      paragraphs.push({ ...paragraph, sourceId: block.id, style: block.style });
+    }
+    blockOffset += block.text.length + 2;
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Rebuild a document from its source text, replacing only each paragraph's span
+ * Indentation, line breaks and blank lines between paragraphs are kept byte-for-byte
+ * Without a usable source map (e.g. Google Docs imports, or input edited since) paragraphs are joined with blank lines
+ */
+export function reassembleDocument(
+  source: string,
+  paragraphs: Paragraph[],
+  getText: (paragraph: Paragraph) => string = paragraph => paragraph.correctedText || paragraph.text
+): string {
+  const joined = () => paragraphs.map(getText).join('\n\n');
+
+  const mapped: Array<{ paragraph: Paragraph; start: number; end: number }> = [];
+  for (const paragraph of paragraphs) {
+    const range = paragraph.sourceRange;
+    if (!range || source.slice(range.start, range.end) !== paragraph.text) return joined();
+    mapped.push({ paragraph, ...range });
+  }
+  mapped.sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let offset = 0;
+  for (const { paragraph, start, end } of mapped) {
+    if (start < offset) return joined();
+    result += source.slice(offset, start) + getText(paragraph);
+    offset = end;
+  }
+  return result + source.slice(offset);
+}
+
 /**
  * Calculate text statistics
  */
@@ -201,6 +280,39 @@ export function applyCorrections(originalText: string, corrections: TextCorrecti
   return { correctedText, segments };
 }
 
+/**
+ * Build the key used to track a review decision for a single correction
+ */
+export function getCorrectionKey(paragraphId: string, correctionIndex: number): string {
+  return `${paragraphId}:${correctionIndex}`;
+}
+
+/**
+ * Pick the corrections that apply to a paragraph given the reviewer's decisions
+ */
+export function getAppliedCorrections(
+  paragraph: Paragraph,
+  decisions: Record<string, CorrectionDecision>,
+  includePending: boolean = false
+): TextCorrection[] {
+  return paragraph.corrections.filter((_, index) => {
+    const decision = decisions[getCorrectionKey(paragraph.id, index)] ?? 'pending';
+    return decision === 'accepted' || (includePending && decision === 'pending');
+  });
+}
+
+/**
+ * Rebuild a paragraph's corrected text from the corrections the reviewer accepted
+ */
+export function applyReviewedCorrections(
+  paragraph: Paragraph,
+  decisions: Record<string, CorrectionDecision>,
+  includePending: boolean = false
+): string {
+  const applicable = getAppliedCorrections(paragraph, decisions, includePending);
+  return applyCorrections(paragraph.text, applicable).correctedText;
+}
+
 /**
  * Format processing time in human-readable format
  */
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { TextCorrection, UserDictionary } from '@/types';
+import { applyUserDictionary, findTermRanges } from './userDictionary';
+
+const correction = (text: string, original: string, corrected: string, from = 0): TextCorrection => {
+  const start = text.indexOf(original, from);
+  return { original, corrected, position: { start, end: start + original.length }, type: 'spelling' };
+};
+
+const dictionary: UserDictionary = {
+  protectedTerms: ['雲端原生'],
+  preferredSpellings: [{ variant: '帳戶', preferred: '帳號' }],
+};
+
+describe('findTermRanges', () => {
+  it('finds every occurrence of each term', () => {
+    expect(findTermRanges('雲端原生與雲端原生', ['雲端原生'])).toEqual([
+      { start: 0, end: 4 },
+      { start: 5, end: 9 },
+    ]);
+  });
+});
+
+describe('applyUserDictionary', () => {
+  it('drops corrections that change part of a protected term', () => {
+    const text = '我們採用雲端原生架構';
+    const corrections = [correction(text, '原生', '原聲'), correction(text, '架構', '架构')];
+
+    expect(applyUserDictionary(text, corrections, dictionary).map(c => c.original)).toEqual(['架構']);
+  });
+
+  it('drops corrections that span the edge of a term', () => {
+    const text = '採用雲端原生架構';
+    const corrections = [correction(text, '用雲', '用了雲')];
+
+    expect(applyUserDictionary(text, corrections, dictionary)).toEqual([]);
+  });
+
+  it('keeps corrections next to a term and those of text matching the term elsewhere', () => {
+    const text = '原生雲端原生';
+    const corrections = [correction(text, '原生', '原聲')];
+
+    expect(applyUserDictionary(text, corrections, dictionary)).toEqual(corrections);
+  });
+
+  it('protects the preferred spelling and rewrites corrections of its variant', () => {
+    const text = '請登入帳號後再修改帳戶設定';
+    const corrections = [correction(text, '帳號', '帳戶'), correction(text, '帳戶', '账户')];
+
+    expect(applyUserDictionary(text, corrections, dictionary)).toEqual([
+      { ...corrections[1], corrected: '帳號' },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+// User dictionary helpers: protected terms and preferred spellings
+
+import type { PreferredSpelling, TextCorrection, UserDictionary } from '@/types';
+
+export const EMPTY_USER_DICTIONARY: UserDictionary = {
+  protectedTerms: [],
+  preferredSpellings: [],
+};
+
+/**
+ * Fill in missing fields from a dictionary stored in profile preferences
+ */
+export function normalizeUserDictionary(raw?: Partial<UserDictionary> | null): UserDictionary {
+  return {
+    protectedTerms: (raw?.protectedTerms ?? []).map(t => t.trim()).filter(Boolean),
+    preferredSpellings: (raw?.preferredSpellings ?? []).filter(s => s.variant?.trim() && s.preferred?.trim()),
+  };
+}
+
+export function isDictionaryEmpty(dictionary: UserDictionary): boolean {
+  return dictionary.protectedTerms.length === 0 && dictionary.preferredSpellings.length === 0;
+}
+
+/**
+ * Terms that must never be changed: protected terms and the preferred form of each spelling
+ */
+export function getDictionaryTerms(dictionary: UserDictionary): string[] {
+  return [
+    ...dictionary.protectedTerms,
+    ...dictionary.preferredSpellings.map(s => s.preferred),
+  ];
+}
+
+/**
+ * Ranges of every occurrence of the terms in the text
+ */
+export function findTermRanges(text: string, terms: string[]): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const term of terms) {
+    for (let start = text.indexOf(term); start !== -1; start = text.indexOf(term, start + 1)) {
+      ranges.push({ start, end: start + term.length });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Enforce the dictionary on the corrections returned for a text
+ * - Corrections whose range overlaps a dictionary term in the text are dropped,
+ *   including ones that change only part of the term
+ * - Corrections of a known variant always use the preferred spelling
+ */
+export function applyUserDictionary(text: string, corrections: TextCorrection[], dictionary: UserDictionary): TextCorrection[] {
+  if (isDictionaryEmpty(dictionary)) return corrections;
+
+  const terms = getDictionaryTerms(dictionary);
+  const termRanges = findTermRanges(text, terms);
+  const preferredByVariant = new Map(dictionary.preferredSpellings.map(s => [s.variant, s.preferred]));
+
+  return corrections
+    .filter(c => !termRanges.some(range => c.position.start < range.end && range.start < c.position.end))
+    .filter(c => !terms.some(term => c.original.includes(term)))
+    .map(c => {
+      const preferred = preferredByVariant.get(c.original);
+      return preferred ? { ...c, corrected: preferred } : c;
+    })
+    .filter(c => c.original !== c.corrected);
+}
+
+/**
+ * Parse one term per line
+ */
+export function parseTermList(text: string): string[] {
+  return Array.from(new Set(text.split('\n').map(line => line.trim()).filter(Boolean)));
+}
+
+/**
+ * Parse lines of the form "variant = preferred"
+ */
+export function parsePreferredSpellings(text: string): PreferredSpelling[] {
+  return text
+    .split('\n')
+    .map(line => line.split(/[=＝]/).map(part => part.trim()))
+    .filter(parts => parts.length === 2 && parts[0] && parts[1])
+    .map(([variant, preferred]) => ({ variant, preferred }));
+}
+
+export function formatPreferredSpellings(spellings: PreferredSpelling[]): string {
+  return spellings.map(s => `${s.variant} = ${s.preferred}`).join('\n');
+}
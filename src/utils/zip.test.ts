@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'word/document.xml', data: '<w:document>文件</w:document>' },
+    { name: '說明.txt', data: encoder.encode('hello') },
+  ];
+  const archive = createZip(entries, new Date(2024, 0, 15, 10, 30, 20));
+  const view = new DataView(archive.buffer);
+
+  it('writes local headers that agree with the central directory', () => {
+    const endOffset = archive.length - 22;
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 10, true)).toBe(entries.length);
+
+    let central = view.getUint32(endOffset + 16, true);
+    for (const entry of entries) {
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+
+      // Flags, method, time, date, CRC, sizes and name length sit at the same relative positions
+      for (let field = 0; field < 22; field += 2) {
+        expect(view.getUint16(local + 6 + field, true)).toBe(view.getUint16(central + 8 + field, true));
+      }
+
+      const nameLength = view.getUint16(central + 28, true);
+      const name = new TextDecoder().decode(archive.subarray(central + 46, central + 46 + nameLength));
+      expect(name).toBe(entry.name);
+      const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+      expect(view.getUint32(central + 16, true)).toBe(crc32(data));
+      central += 46 + nameLength;
+    }
+    expect(central).toBe(endOffset);
+  });
+
+  it('reads back what it wrote', async () => {
+    const read = await readZip(archive);
+    expect(read.map(entry => entry.name)).toEqual(entries.map(entry => entry.name));
+    expect(new TextDecoder().decode(read[0].data)).toBe(entries[0].data);
+  });
+});
@@ -8,8 +8,10 @@ interface ImportMetaEnv {
   readonly VITE_ENABLE_ANIMATIONS: string
   readonly VITE_ENABLE_GOOGLE_DOCS: string
   readonly VITE_ENABLE_EXPORT_FEATURES: string
+  readonly VITE_ENABLE_STREAMING: string
   readonly VITE_MAX_TEXT_LENGTH: string
   readonly VITE_MAX_PARAGRAPHS: string
+  readonly VITE_MAX_LARGE_DOCUMENT_LENGTH: string
   readonly VITE_REQUEST_TIMEOUT: string
   readonly VITE_DEBUG_MODE: string
   readonly VITE_MOCK_API: string